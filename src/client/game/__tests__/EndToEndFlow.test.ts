@@ -33,7 +33,7 @@ describe('End-to-End Game Flow Tests', () => {
           getState: vi.fn().mockReturnValue({
             board: Array(20).fill(null).map(() => Array(10).fill(0)),
             currentPiece: null,
-            nextPiece: null,
+            nextQueue: [],
             score: 0,
             level: 1,
             lines: 0,
@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { MobileFirstLayoutSystem } from '../managers/MobileFirstLayoutSystem';
+import { MobileLayoutManager } from '../managers/MobileLayoutManager';
 
 // Mock Phaser
 const mockScene = {
@@ -125,4 +126,17 @@ describe('MobileFirstLayoutSystem', () => {
       layoutSystem.destroy();
     }).not.toThrow();
   });
-});
\ No newline at end of file
+});
+
+describe('MobileLayoutManager next queue', () => {
+  it('should shrink queued next pieces to fit the orientation', () => {
+    const layoutManager = new MobileLayoutManager(mockScene);
+    const portrait = layoutManager.calculateNextQueueLayout(375, 667, 6);
+    const landscape = layoutManager.calculateNextQueueLayout(667, 375, 6);
+
+    expect(portrait.queueBlockSize).toBeLessThan(portrait.firstBlockSize);
+    expect(landscape.firstBlockSize).toBeLessThan(portrait.firstBlockSize);
+    expect(5 * portrait.slotHeight).toBeLessThanOrEqual(667 * 0.3);
+    expect(5 * landscape.slotHeight).toBeLessThanOrEqual(375 * 0.5);
+  });
+});
@@ -20,7 +20,7 @@ export interface ScreenEffectConfig {
 }
 
 export interface CelebrationConfig {
-  type: 'tetris' | 'line-clear' | 'level-up' | 'high-score';
+  type: 'tetris' | 'line-clear' | 'level-up' | 'high-score' | 'perfect-clear';
   intensity: 'low' | 'medium' | 'high';
   duration?: number;
 }
@@ -239,6 +239,37 @@ export class EffectsManager {
     });
   }
 
+  /**
+   * Create perfect clear celebration: the biggest burst we have, plus an ALL CLEAR banner
+   */
+  private createPerfectClearCelebration(centerX: number, centerY: number): void {
+    const theme = this.themeManager.getCurrentTheme();
+    
+    // Two-stage sparkle burst in every neon color
+    const burstConfig: ParticleConfig = {
+      count: 40,
+      lifespan: 2500,
+      speed: { min: 80, max: 180 },
+      scale: { start: 1.5, end: 0 },
+      alpha: { start: 1, end: 0 },
+      color: Object.values(theme.colors.neon),
+      gravity: 20
+    };
+    this.createParticleEffect('sparkle-particle', centerX, centerY, burstConfig, 'perfect-clear-celebration');
+    
+    this.scene.time.delayedCall(300, () => {
+      this.createParticleEffect('water-droplet', centerX, centerY, {
+        ...burstConfig,
+        count: 25,
+        color: [theme.colors.water, theme.colors.neon.cyan]
+      }, 'perfect-clear-splash');
+    });
+    
+    this.createSpinCallout('ALL CLEAR', centerX, centerY);
+    this.createScreenFlash({ intensity: 0.5, duration: 400, color: theme.colors.neon.cyan });
+    this.createScreenShake({ intensity: 0.03, duration: 600 });
+  }
+
   /**
    * Create level up celebration
    */
@@ -440,6 +471,10 @@ export class EffectsManager {
         this.createLevelUpCelebration(x, y);
         break;
         
+      case 'perfect-clear':
+        this.createPerfectClearCelebration(x, y);
+        break;
+        
       case 'high-score':
         // Epic high score celebration
         const epicConfig: ParticleConfig = {
@@ -460,6 +495,40 @@ export class EffectsManager {
     }
   }
 
+  /**
+   * Show a floating callout such as "T-SPIN DOUBLE" that rises and fades out
+   */
+  public createSpinCallout(label: string, x: number, y: number): void {
+    const theme = this.themeManager.getCurrentTheme();
+    
+    const callout = this.scene.add.text(x, y, label, {
+      fontSize: '28px',
+      fontFamily: 'Arial Black',
+      color: theme.colors.neon.magenta,
+      stroke: '#000000',
+      strokeThickness: 4
+    }).setOrigin(0.5);
+    this.effectsContainer.add(callout);
+
+    this.scene.tweens.add({
+      targets: callout,
+      y: y - 60,
+      alpha: 0,
+      scale: 1.2,
+      duration: 1200,
+      ease: 'Cubic.easeOut',
+      onComplete: () => {
+        callout.destroy();
+      }
+    });
+
+    this.createScreenPulse({
+      intensity: 0.1,
+      duration: 300,
+      color: theme.colors.neon.magenta
+    });
+  }
+
   /**
    * Create ambient water effects for dam theme
    */
@@ -6,6 +6,7 @@ import { LevelSelect } from './scenes/LevelSelect';
 import { MainMenu } from './scenes/MainMenu';
 import { Leaderboard } from './scenes/Leaderboard';
 import { UsernameInput } from './scenes/UsernameInput';
+import { Replay } from './scenes/Replay';
 import * as Phaser from 'phaser';
 import { AUTO, Game } from 'phaser';
 import { Preloader } from './scenes/Preloader';
@@ -31,7 +32,7 @@ const config: Phaser.Types.Core.GameConfig = {
       debug: false
     }
   },
-  scene: [Boot, Preloader, MainMenu, MainGame, EnhancedGame, LevelSelect, UsernameInput, GameOver, Leaderboard],
+  scene: [Boot, Preloader, MainMenu, MainGame, EnhancedGame, LevelSelect, UsernameInput, GameOver, Leaderboard, Replay],
 };
 
 const StartGame = (parent: string) => {
@@ -52,6 +52,8 @@ export interface GameStats {
   maxLevel: number;
   longestSurvival: number;
   tetrisCount: number;
+  tSpins: number;
+  miniTSpins: number;
   perfectClears: number;
   consecutiveTetrises: number;
   maxCombo: number;
@@ -217,6 +219,28 @@ export class AchievementManager {
         reward: { points: 75, title: 'Tetris Master' },
         hidden: false
       },
+      {
+        id: 'first_tspin',
+        name: 'Twist and Lock',
+        description: 'Perform a T-spin',
+        category: AchievementCategory.SKILL,
+        rarity: AchievementRarity.UNCOMMON,
+        icon: '🌀',
+        requirement: { type: 'tspin', value: 1 },
+        reward: { points: 25 },
+        hidden: false
+      },
+      {
+        id: 'tspin_master',
+        name: 'Spin Doctor',
+        description: 'Perform 25 T-spins total',
+        category: AchievementCategory.SKILL,
+        rarity: AchievementRarity.RARE,
+        icon: '🌪️',
+        requirement: { type: 'total_tspin', value: 25 },
+        reward: { points: 75, title: 'Spin Doctor' },
+        hidden: false
+      },
       {
         id: 'perfect_clear',
         name: 'Perfect Clear',
@@ -377,6 +401,10 @@ export class AchievementManager {
       case 'total_tetris':
         return Math.min(stats.tetrisCount, req.value);
       
+      case 'tspin':
+      case 'total_tspin':
+        return Math.min(stats.tSpins, req.value);
+      
       case 'perfect_clear':
         return Math.min(stats.perfectClears, req.value);
       
@@ -610,6 +638,8 @@ export class AchievementManager {
       maxLevel: 0,
       longestSurvival: 0,
       tetrisCount: 0,
+      tSpins: 0,
+      miniTSpins: 0,
       perfectClears: 0,
       consecutiveTetrises: 0,
       maxCombo: 0,
@@ -70,6 +70,13 @@ export class BoardManager {
     return line.every(cell => cell === 0);
   }
 
+  /**
+   * All-clear check: true when no cell on the board is occupied
+   */
+  public isPerfectClear(board: number[][]): boolean {
+    return this.countOccupiedCells(board) === 0 && board.every(row => this.isLineEmpty(row));
+  }
+
   public addPieceToBoard(piece: GamePiece, board: number[][]): number[][] {
     // Create a deep copy of the board
     const newBoard = board.map(row => [...row]);
@@ -0,0 +1,44 @@
+import { DailyChallengeConfig } from '../../../shared/types/api';
+import { SessionManager } from './SessionManager';
+
+/** What EnhancedGame is started with to play a challenge */
+export type ChallengeStartData = {
+  mode: 'campaign';
+  level?: number;
+  modeId?: string;
+  seasonalLevel?: number;
+  seed: number;
+};
+
+/**
+ * The daily challenge of the post the game is running in, from the session
+ * bootstrap. None is offered while the feature is switched off.
+ */
+export class DailyChallengeManager {
+  private static instance: DailyChallengeManager;
+
+  private constructor() {}
+
+  public static getInstance(): DailyChallengeManager {
+    if (!DailyChallengeManager.instance) {
+      DailyChallengeManager.instance = new DailyChallengeManager();
+    }
+    return DailyChallengeManager.instance;
+  }
+
+  public async loadChallenge(): Promise<DailyChallengeConfig | null> {
+    const session = await SessionManager.getInstance().loadSession();
+    return session?.features.dailyChallenge ? session.challenge : null;
+  }
+
+  /**
+   * Scene data for a run of `challenge`: its seed, and either the campaign
+   * level or the mode played on that level's season
+   */
+  public static getStartData(challenge: DailyChallengeConfig): ChallengeStartData {
+    if (challenge.mode === 'campaign') {
+      return { mode: 'campaign', level: challenge.level, seed: challenge.seed };
+    }
+    return { mode: 'campaign', modeId: challenge.mode, seasonalLevel: challenge.level, seed: challenge.seed };
+  }
+}
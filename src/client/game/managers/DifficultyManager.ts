@@ -19,6 +19,7 @@ export interface GameMode {
     targetScore?: number;
     ghostPieces?: boolean;
     holdPiece?: boolean;
+    lockResetLimit?: number;
   };
 }
 
@@ -79,7 +80,10 @@ export class DifficultyManager {
       name: 'Challenge',
       description: 'Start at high speed for experienced players',
       startingLevel: 10,
-      maxLevel: 25
+      maxLevel: 25,
+      specialRules: {
+        lockResetLimit: 8
+      }
     }
   ];
 
@@ -3,7 +3,9 @@ import { GamePiece, GameMode } from '../types/GameTypes';
 export interface GameState {
   board: number[][];
   currentPiece: GamePiece | null;
-  nextPiece: GamePiece | null;
+  nextQueue: GamePiece[];
+  heldPiece: GamePiece | null;
+  holdUsed: boolean;
   score: number;
   level: number;
   lines: number;
@@ -14,6 +16,10 @@ export interface GameState {
   gameMode: GameMode | null;
   timeElapsed: number;
   scoreMultiplier: number;
+  /** Consecutive line-clearing placements (0 = no combo) */
+  combo: number;
+  /** The last line clear was a tetris or T-spin, so the next one earns back-to-back */
+  backToBack: boolean;
 }
 
 export type StateListener = (state: Readonly<GameState>) => void;
@@ -30,7 +36,9 @@ export class GameStateManager {
     return {
       board: Array(boardHeight).fill(null).map(() => Array(boardWidth).fill(0)),
       currentPiece: null,
-      nextPiece: null,
+      nextQueue: [],
+      heldPiece: null,
+      holdUsed: false,
       score: 0,
       level: 1,
       lines: 0,
@@ -40,7 +48,9 @@ export class GameStateManager {
       lastDrop: 0,
       gameMode: null,
       timeElapsed: 0,
-      scoreMultiplier: 1.0
+      scoreMultiplier: 1.0,
+      combo: 0,
+      backToBack: false
     };
   }
 
@@ -104,7 +114,7 @@ export class GameStateManager {
         return false;
       }
 
-      if (this.state.timeElapsed < 0 || this.state.scoreMultiplier <= 0) {
+      if (this.state.timeElapsed < 0 || this.state.scoreMultiplier <= 0 || this.state.combo < 0) {
         return false;
       }
 
@@ -113,7 +123,11 @@ export class GameStateManager {
         return false;
       }
 
-      if (this.state.nextPiece && !this.validatePiece(this.state.nextPiece)) {
+      if (!this.state.nextQueue.every(piece => this.validatePiece(piece))) {
+        return false;
+      }
+
+      if (this.state.heldPiece && !this.validatePiece(this.state.heldPiece)) {
         return false;
       }
 
@@ -144,10 +158,13 @@ export class GameStateManager {
       case 'board':
         return Array.isArray(value) && value.every(row => Array.isArray(row));
       case 'currentPiece':
-      case 'nextPiece':
+      case 'heldPiece':
         return value === null || this.validatePiece(value);
+      case 'nextQueue':
+        return Array.isArray(value) && value.every(piece => this.validatePiece(piece));
       case 'score':
       case 'lines':
+      case 'combo':
         return typeof value === 'number' && value >= 0;
       case 'level':
         return typeof value === 'number' && value >= 1;
@@ -160,6 +177,8 @@ export class GameStateManager {
         return typeof value === 'number' && value > 0;
       case 'isGameOver':
       case 'isPaused':
+      case 'holdUsed':
+      case 'backToBack':
         return typeof value === 'boolean';
       case 'gameMode':
         return value === null || (typeof value === 'object' && value.id && value.name);
@@ -184,7 +203,8 @@ export class GameStateManager {
   private hasStateChanged(oldState: GameState, newState: GameState): boolean {
     // Simple shallow comparison for most properties
     const simpleProps: (keyof GameState)[] = [
-      'score', 'level', 'lines', 'isGameOver', 'isPaused', 'dropTime', 'lastDrop', 'timeElapsed', 'scoreMultiplier'
+      'score', 'level', 'lines', 'isGameOver', 'isPaused', 'holdUsed', 'dropTime', 'lastDrop', 'timeElapsed', 'scoreMultiplier',
+      'combo', 'backToBack'
     ];
 
     for (const prop of simpleProps) {
@@ -198,7 +218,12 @@ export class GameStateManager {
       return true;
     }
 
-    if (!this.arePiecesEqual(oldState.nextPiece, newState.nextPiece)) {
+    if (oldState.nextQueue.length !== newState.nextQueue.length ||
+        oldState.nextQueue.some((piece, i) => !this.arePiecesEqual(piece, newState.nextQueue[i] ?? null))) {
+      return true;
+    }
+
+    if (!this.arePiecesEqual(oldState.heldPiece, newState.heldPiece)) {
       return true;
     }
 
@@ -218,6 +243,7 @@ export class GameStateManager {
       piece1.x === piece2.x &&
       piece1.y === piece2.y &&
       piece1.color === piece2.color &&
+      piece1.rotation === piece2.rotation &&
       JSON.stringify(piece1.shape) === JSON.stringify(piece2.shape)
     );
   }
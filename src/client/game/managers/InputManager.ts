@@ -4,8 +4,11 @@ export enum InputAction {
   MOVE_LEFT = 'MOVE_LEFT',
   MOVE_RIGHT = 'MOVE_RIGHT',
   ROTATE = 'ROTATE',
+  ROTATE_CCW = 'ROTATE_CCW',
+  ROTATE_180 = 'ROTATE_180',
   SOFT_DROP = 'SOFT_DROP',
   HARD_DROP = 'HARD_DROP',
+  HOLD = 'HOLD',
   PAUSE = 'PAUSE'
 }
 
@@ -13,8 +16,11 @@ export interface InputConfig {
   moveLeft: string[];
   moveRight: string[];
   rotate: string[];
+  rotateCcw: string[];
+  rotate180: string[];
   softDrop: string[];
   hardDrop: string[];
+  hold: string[];
   pause: string[];
 }
 
@@ -69,8 +75,11 @@ export class InputManager {
       moveLeft: ['ArrowLeft', 'KeyA'],
       moveRight: ['ArrowRight', 'KeyD'],
       rotate: ['ArrowUp', 'KeyW', 'Space'],
+      rotateCcw: ['KeyZ', 'KeyQ'],
+      rotate180: ['KeyE'],
       softDrop: ['ArrowDown', 'KeyS'],
       hardDrop: ['Space'],
+      hold: ['KeyC', 'ShiftLeft', 'ShiftRight'],
       pause: ['KeyP', 'Escape']
     };
     
@@ -303,8 +312,11 @@ export class InputManager {
           case 'moveLeft': return InputAction.MOVE_LEFT;
           case 'moveRight': return InputAction.MOVE_RIGHT;
           case 'rotate': return InputAction.ROTATE;
+          case 'rotateCcw': return InputAction.ROTATE_CCW;
+          case 'rotate180': return InputAction.ROTATE_180;
           case 'softDrop': return InputAction.SOFT_DROP;
           case 'hardDrop': return InputAction.HARD_DROP;
+          case 'hold': return InputAction.HOLD;
           case 'pause': return InputAction.PAUSE;
         }
       }
@@ -1,14 +1,52 @@
-import { LeaderboardEntry, LeaderboardResponse, SubmitScoreRequest, SubmitScoreResponse, RedditUserResponse } from '../../../shared/types/api';
+import { LEADERBOARD_SCOPES, LeaderboardEntry, LeaderboardMode, LeaderboardQuery, LeaderboardResponse, LeaderboardScope, SubmitScoreRequest, SubmitScoreResponse, RedditUserResponse } from '../../../shared/types/api';
+import { api, toQueryString } from '../utils/ApiClient';
+import { ReplayData } from '../../../shared/game/Replay';
+import { MAX_REPLAY_DURATION_MS } from '../../../shared/game/ReplayVerification';
+import { getLeaderboardMetric, isAscendingMetric } from '../../../shared/leaderboard/Modes';
+import { QueuedScore, ScoreOutbox, isRetryableError } from './ScoreOutbox';
+
+/** Optional parts of a submission that decide which mode and level boards it lands on */
+export type RunDetails = Pick<SubmitScoreRequest, 'modeId' | 'time' | 'globalLevel' | 'stars'>;
+
+export type LeaderboardPage = Pick<LeaderboardResponse, 'entries' | 'offset' | 'total' | 'playerRank'>;
+
+/** A random id for this device's anonymous identity or a submission */
+const createClientId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+
+type CachedLeaderboard = LeaderboardPage & {
+  fetchedAt: number;
+  archived: boolean;
+  topPage: boolean;
+  limit: number | null;
+  scope: LeaderboardScope;
+  mode: LeaderboardMode;
+  level: number | null;
+};
 
 export class LeaderboardManager {
   private static instance: LeaderboardManager;
   private cachedUsername: string | null = null;
   private cachedUserData: RedditUserResponse | null = null;
-  private cachedLeaderboard: LeaderboardEntry[] = [];
-  private lastFetch: number = 0;
+  private cachedLeaderboards = new Map<string, CachedLeaderboard>();
   private readonly CACHE_DURATION = 30000; // 30 seconds
+  private readonly ANONYMOUS_ID_KEY = 'dam-attack-anonymous-id';
+  // Set once the anonymous id has scores submitted while logged out; only those are merged on login
+  private readonly ANONYMOUS_GUEST_KEY = 'dam-attack-anonymous-guest';
+  private mergeInFlight: Promise<void> | null = null;
+  private readonly outbox = new ScoreOutbox();
+  private readonly pendingListeners = new Set<(pending: QueuedScore[]) => void>();
+  private flushing: Promise<void> | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private readonly MIN_RETRY_DELAY = 5000;
 
-  private constructor() {}
+  private constructor() {
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', () => void this.flushPendingScores());
+    }
+  }
 
   public static getInstance(): LeaderboardManager {
     if (!LeaderboardManager.instance) {
@@ -17,109 +55,254 @@ export class LeaderboardManager {
     return LeaderboardManager.instance;
   }
 
-  public async submitScore(score: number, level: number, lines: number, anonymous: boolean = false): Promise<SubmitScoreResponse> {
-    const endpoint = anonymous ? '/api/submit-anonymous' : '/api/submit-score';
+  public async submitScore(
+    score: number,
+    level: number,
+    lines: number,
+    anonymous: boolean = false,
+    replay?: ReplayData,
+    run: RunDetails = {}
+  ): Promise<SubmitScoreResponse> {
     console.log(`Submitting score: ${score} (level: ${level}, lines: ${lines}, anonymous: ${anonymous})`);
-    
-    try {
-      const response = await fetch(endpoint, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ score, level, lines } as SubmitScoreRequest),
-      });
 
-      console.log(`Score submission response status: ${response.status}`);
+    const request = {
+      score,
+      level,
+      lines,
+      // A run too long for the server to re-simulate goes in unverified instead of being refused
+      ...(replay && replay.duration <= MAX_REPLAY_DURATION_MS && { replay }),
+      ...run,
+      // Tells logged-out players apart on either endpoint; ignored once logged in
+      anonymousId: this.getAnonymousId(),
+      submissionId: createClientId(),
+      playedAt: Date.now()
+    };
+    const response = await this.sendSubmission(request, anonymous);
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error(`HTTP error! status: ${response.status}, body: ${errorText}`);
-        throw new Error(`HTTP error! status: ${response.status}: ${errorText}`);
-      }
+    // Rejections (bad totals, a replay that fails verification, rate limits, bans) and failed
+    // requests alike come back as an unsuccessful submit response carrying the error
+    if (!response.ok) {
+      console.error(`Score submission failed (status ${response.status}):`, response.error);
 
-      const result: SubmitScoreResponse = await response.json();
-      console.log('Score submission result:', result);
-      
-      // Add the submitted score to cache immediately for better UX
-      if (result.success) {
-        const userData = await this.getRedditUserData();
-        const username = userData?.username || (anonymous ? 'Anonymous' : 'Anonymous Player');
-        
-        const newEntry: LeaderboardEntry = {
-          username,
-          score: Math.floor(score),
-          level,
-          lines,
-          timestamp: Date.now()
-        };
-        
-        this.addScoreToCache(newEntry);
-      }
-      
-      // Clear cache to force refresh (only for non-anonymous submissions)
-      if (!anonymous) {
-        this.cachedUserData = null; // Clear user data cache to refresh best score
-      }
-      
-      return result;
-    } catch (error) {
-      console.error('Error submitting score:', error);
-      
-      // Provide more specific error messages
-      let errorMessage = 'Failed to submit score. Please try again.';
-      if (error instanceof Error) {
-        if (error.message.includes('Failed to fetch')) {
-          errorMessage = 'Network error. Please check your connection and try again.';
-        } else if (error.message.includes('HTTP error')) {
-          errorMessage = 'Server error. Please try again in a moment.';
+      // A run that never reached the server (or hit a server error) is kept and sent later
+      const { code } = response.error;
+      if (code === 'network_error' || code === 'server_error') {
+        if (!this.outbox.add(request, anonymous)) {
+          return {
+            type: 'submitScore',
+            success: false,
+            message: 'No connection, and there is no room on this device to save your score for later.',
+            error: response.error
+          };
         }
+
+        this.notifyPendingScores();
+        this.scheduleRetry();
+        return {
+          type: 'submitScore',
+          success: false,
+          queued: true,
+          message: 'No connection. Your score is saved and will be submitted automatically.',
+          error: response.error
+        };
       }
-      
+
       return {
         type: 'submitScore',
         success: false,
-        message: errorMessage
+        message: response.error.message,
+        error: response.error
+      };
+    }
+
+    const result = response.data;
+    console.log('Score submission result:', result);
+    await this.recordAccepted(result, request, anonymous);
+
+    return result;
+  }
+
+  /** Scores waiting in the offline outbox, oldest first */
+  public getPendingScores(): QueuedScore[] {
+    return this.outbox.getAll();
+  }
+
+  /**
+   * Be told whenever a score is queued, delivered or dropped. Returns a
+   * function that stops listening.
+   */
+  public onPendingScoresChange(listener: (pending: QueuedScore[]) => void): () => void {
+    this.pendingListeners.add(listener);
+    return () => this.pendingListeners.delete(listener);
+  }
+
+  /**
+   * Send the queued scores that are due, one at a time. Called on launch, when
+   * the browser comes back online and when the next retry is due.
+   */
+  public flushPendingScores(): Promise<void> {
+    this.flushing ??= this.sendPendingScores().finally(() => {
+      this.flushing = null;
+      this.scheduleRetry();
+    });
+    return this.flushing;
+  }
+
+  private async sendPendingScores(): Promise<void> {
+    for (const queued of this.outbox.getDue()) {
+      const response = await this.sendSubmission(queued.request, queued.anonymous);
+
+      if (response.ok) {
+        this.outbox.remove(queued.id);
+        console.log('Queued score submitted:', response.data);
+        await this.recordAccepted(response.data, queued.request, queued.anonymous);
+      } else if (isRetryableError(response.error.code)) {
+        this.outbox.reschedule(queued.id, response.error.retryAfterMs);
+      } else {
+        // Rejected outright; sending it again would get the same answer
+        console.warn(`Dropping queued score ${queued.id} (${response.error.code}): ${response.error.message}`);
+        this.outbox.remove(queued.id);
+      }
+      this.notifyPendingScores();
+
+      // Still offline, so the rest would fail too
+      if (!response.ok && response.error.code === 'network_error') break;
+    }
+  }
+
+  private scheduleRetry(): void {
+    if (this.retryTimer !== null) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+
+    const nextAttemptAt = this.outbox.getNextAttemptAt();
+    if (nextAttemptAt === null) return;
+
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      void this.flushPendingScores();
+    }, Math.max(nextAttemptAt - Date.now(), this.MIN_RETRY_DELAY));
+  }
+
+  private notifyPendingScores(): void {
+    const pending = this.outbox.getAll();
+    this.pendingListeners.forEach((listener) => listener(pending));
+  }
+
+  private sendSubmission(request: SubmitScoreRequest, anonymous: boolean) {
+    return anonymous ? api.submitAnonymous(request) : api.submitScore(request);
+  }
+
+  private async recordAccepted(result: SubmitScoreResponse, request: SubmitScoreRequest, anonymous: boolean): Promise<void> {
+    // Add the submitted score to cache immediately for better UX
+    if (result.success) {
+      const userData = await this.getRedditUserData();
+      const username = userData?.username || (anonymous ? 'Anonymous' : 'Anonymous Player');
+      // Logged out, the run is kept under the anonymous id whichever button sent it
+      if (!userData) {
+        this.markGuestHistory();
+      }
+
+      const newEntry: LeaderboardEntry = {
+        username,
+        score: Math.floor(request.score),
+        level: request.level,
+        lines: request.lines,
+        timestamp: Date.now(),
+        ...(result.verification && { verification: result.verification }),
+        ...(request.time !== undefined && { time: request.time }),
+        // Only a logged-in player's own submission replaces the row the server marked as theirs
+        ...(!anonymous && userData && { isCurrentUser: true })
       };
+
+      // The server reports a rank in every scope it recorded the run in
+      const scopes = LEADERBOARD_SCOPES.filter((scope) => result.ranks?.[scope] !== undefined);
+      this.addScoreToCache(newEntry, request.modeId, scopes);
     }
+
+    // Clear cache to force refresh (only for non-anonymous submissions)
+    if (!anonymous) {
+      this.cachedUserData = null; // Clear user data cache to refresh best score
+    }
+  }
+
+  public async getLeaderboard(forceRefresh: boolean = false, query: LeaderboardQuery = {}): Promise<LeaderboardEntry[]> {
+    return (await this.getLeaderboardPage(forceRefresh, query)).entries;
   }
 
-  public async getLeaderboard(forceRefresh: boolean = false): Promise<LeaderboardEntry[]> {
+  /**
+   * One page of a board (or the window around the current user) with the
+   * board's size and the user's rank, for paging through it
+   */
+  public async getLeaderboardPage(forceRefresh: boolean = false, query: LeaderboardQuery = {}): Promise<LeaderboardPage> {
     const now = Date.now();
+    const scope = query.scope ?? 'subreddit';
+    const period = query.period ?? 'alltime';
+    const previous = (query.previous ?? false) && period !== 'alltime';
+    const level = query.level ?? null;
+    const mode = level !== null ? 'campaign' : query.mode ?? 'classic';
+    const offset = query.offset ?? 0;
+    const aroundMe = query.aroundMe ?? false;
+    const request: LeaderboardQuery = {
+      scope,
+      period,
+      previous,
+      mode,
+      ...(level !== null && { level }),
+      ...(offset > 0 && { offset }),
+      ...(query.limit !== undefined && { limit: query.limit }),
+      ...(aroundMe && { aroundMe, ...(query.radius !== undefined && { radius: query.radius }) })
+    };
+    const cacheKey = toQueryString(request);
+    const cached = this.cachedLeaderboards.get(cacheKey);
     
     // Return cached data if it's still fresh and not forcing refresh
-    if (!forceRefresh && this.cachedLeaderboard.length > 0 && (now - this.lastFetch) < this.CACHE_DURATION) {
-      return this.cachedLeaderboard;
+    if (!forceRefresh && cached && cached.entries.length > 0 && (now - cached.fetchedAt) < this.CACHE_DURATION) {
+      return cached;
     }
 
     try {
-      console.log('Fetching leaderboard from API...');
-      const response = await fetch('/api/leaderboard');
+      console.log(`Fetching ${scope} ${period} leaderboard from API...`);
+      const response = await api.leaderboard(request);
       
       if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+        throw new Error(`${response.error.code}: ${response.error.message}`);
       }
 
-      const result: LeaderboardResponse = await response.json();
+      const result: LeaderboardResponse = response.data;
       console.log('Leaderboard fetched successfully:', result.entries.length, 'entries');
       
       // Update cache
-      this.cachedLeaderboard = result.entries;
-      this.lastFetch = now;
+      const page: CachedLeaderboard = {
+        entries: result.entries,
+        offset: result.offset ?? offset,
+        total: result.total ?? result.entries.length,
+        playerRank: result.playerRank ?? null,
+        fetchedAt: now,
+        archived: previous,
+        // Only a top page can take a freshly submitted score without a refetch
+        topPage: offset === 0 && !aroundMe,
+        limit: query.limit ?? null,
+        scope,
+        mode,
+        level
+      };
+      this.cachedLeaderboards.set(cacheKey, page);
       
-      return result.entries;
+      return page;
     } catch (error) {
       console.error('Error fetching leaderboard:', error);
       
       // If we have cached data, return it even if it's stale
-      if (this.cachedLeaderboard.length > 0) {
+      if (cached && cached.entries.length > 0) {
         console.log('Returning cached leaderboard data due to API error');
-        return this.cachedLeaderboard;
+        return cached;
       }
       
-      // If no cached data and API fails, return empty array
+      // If no cached data and API fails, return an empty page
       console.log('No cached data available, returning empty leaderboard');
-      return [];
+      return { entries: [], offset, total: 0, playerRank: null };
     }
   }
 
@@ -130,7 +313,7 @@ export class LeaderboardManager {
     }
 
     try {
-      const response = await fetch('/api/reddit-user');
+      const response = await api.redditUser();
       
       if (!response.ok) {
         // User might not be authenticated
@@ -138,11 +321,10 @@ export class LeaderboardManager {
         return null;
       }
 
-      const result: RedditUserResponse = await response.json();
+      const result = response.data;
       
       if (result.authenticated && result.username) {
-        this.cachedUserData = result;
-        this.cachedUsername = result.username;
+        this.setRedditUserData(result);
         console.log(`Reddit user authenticated: ${result.username}, best score: ${result.bestScore || 0}, rank: ${result.currentRank || 'N/A'}`);
         return result;
       }
@@ -154,6 +336,86 @@ export class LeaderboardManager {
     }
   }
 
+  /**
+   * Take the logged-in user from the session bootstrap instead of fetching it
+   */
+  public setRedditUserData(userData: RedditUserResponse): void {
+    this.cachedUserData = userData;
+    this.cachedUsername = userData.username;
+    void this.mergeAnonymousHistory();
+  }
+
+  /**
+   * This device's anonymous identity, created on first use. It keeps anonymous
+   * submissions down to one best entry per player instead of one per game.
+   */
+  public getAnonymousId(): string {
+    let id: string | null = null;
+    try {
+      id = localStorage.getItem(this.ANONYMOUS_ID_KEY);
+    } catch {
+      // Storage can be unavailable (private mode); fall through to a fresh id
+    }
+    if (id) return id;
+
+    id = createClientId();
+    try {
+      localStorage.setItem(this.ANONYMOUS_ID_KEY, id);
+    } catch (error) {
+      console.warn('Could not persist anonymous id:', error);
+    }
+    return id;
+  }
+
+  private markGuestHistory(): void {
+    try {
+      localStorage.setItem(this.ANONYMOUS_GUEST_KEY, 'true');
+    } catch {
+      // Without storage there is no anonymous history to merge later anyway
+    }
+  }
+
+  /**
+   * Once the player is logged in, move what they submitted as a logged-out
+   * guest on this device into their Reddit account. Scores a logged-in player
+   * chose to submit anonymously stay anonymous. The anonymous id is dropped
+   * after a successful merge so later anonymous play starts a new identity.
+   */
+  public mergeAnonymousHistory(): Promise<void> {
+    let anonymousId: string | null = null;
+    try {
+      if (localStorage.getItem(this.ANONYMOUS_GUEST_KEY) !== 'true') return Promise.resolve();
+      anonymousId = localStorage.getItem(this.ANONYMOUS_ID_KEY);
+    } catch {
+      return Promise.resolve();
+    }
+    if (!anonymousId) return Promise.resolve();
+
+    this.mergeInFlight ??= (async () => {
+      try {
+        const response = await api.mergeIdentity({ anonymousId });
+        if (!response.ok) {
+          throw new Error(`${response.error.code}: ${response.error.message}`);
+        }
+
+        const result = response.data;
+        localStorage.removeItem(this.ANONYMOUS_ID_KEY);
+        localStorage.removeItem(this.ANONYMOUS_GUEST_KEY);
+        if (result.improved > 0) {
+          console.log(`Merged anonymous scores into your account (${result.improved} boards improved)`);
+          // Best score and rank may have changed
+          this.cachedUserData = null;
+          this.cachedLeaderboards.clear();
+        }
+      } catch (error) {
+        console.error('Error merging anonymous scores:', error);
+      } finally {
+        this.mergeInFlight = null;
+      }
+    })();
+    return this.mergeInFlight;
+  }
+
   public async getRedditUsername(): Promise<string | null> {
     const userData = await this.getRedditUserData();
     return userData?.username || null;
@@ -173,15 +435,34 @@ export class LeaderboardManager {
   public clearCache(): void {
     this.cachedUsername = null;
     this.cachedUserData = null;
-    this.cachedLeaderboard = [];
-    this.lastFetch = 0;
+    this.cachedLeaderboards.clear();
   }
 
-  public addScoreToCache(entry: LeaderboardEntry): void {
-    // Add the new score to cache and sort by score descending
-    this.cachedLeaderboard.push(entry);
-    this.cachedLeaderboard.sort((a, b) => b.score - a.score);
-    this.lastFetch = Date.now();
+  public addScoreToCache(
+    entry: LeaderboardEntry,
+    mode: LeaderboardMode = 'classic',
+    scopes: readonly LeaderboardScope[] = LEADERBOARD_SCOPES
+  ): void {
+    // A submission counts on every current board of its mode in the scopes it was recorded in,
+    // so add it to each cached one and re-sort
+    const metric = getLeaderboardMetric(mode);
+    const value = (cachedEntry: LeaderboardEntry) => (metric === 'time' ? cachedEntry.time : cachedEntry.score) ?? 0;
+    const compare = (a: LeaderboardEntry, b: LeaderboardEntry) => isAscendingMetric(metric) ? value(a) - value(b) : value(b) - value(a);
+    if (metric === 'time' && entry.time === undefined) return; // An unfinished Sprint isn't ranked
+
+    for (const cached of this.cachedLeaderboards.values()) {
+      if (cached.archived || !cached.topPage || cached.mode !== mode || cached.level !== null) continue;
+      if (!scopes.includes(cached.scope)) continue;
+
+      // Each board keeps only the player's best, so their own row is replaced only when beaten
+      const own = entry.isCurrentUser ? cached.entries.find((cachedEntry) => cachedEntry.isCurrentUser) : undefined;
+      if (own && compare(entry, own) >= 0) continue;
+
+      const entries = [...cached.entries.filter((cachedEntry) => cachedEntry !== own), entry].sort(compare);
+      cached.entries = (cached.limit !== null ? entries.slice(0, cached.limit) : entries)
+        .map((cachedEntry, index) => ({ ...cachedEntry, rank: cached.offset + index + 1 }));
+      cached.fetchedAt = Date.now();
+    }
     console.log('Added score to cache:', entry);
   }
 
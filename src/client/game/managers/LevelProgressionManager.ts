@@ -9,6 +9,7 @@ import {
   PowerUpType,
   StoryElement 
 } from '../types/EnvironmentalTypes';
+import { getStarRating } from '../../../shared/leaderboard/Modes';
 
 export interface LevelProgress {
   currentLevel: number;
@@ -228,23 +229,7 @@ export class LevelProgressionManager {
     
     if (!currentLevel) return 1;
 
-    let stars = 1; // Base completion star
-    
-    // Second star: Complete with time bonus
-    const targetTime = 300000; // 5 minutes base target
-    if (progress.timeElapsed < targetTime) {
-      stars = 2;
-    }
-    
-    // Third star: Exceptional performance
-    const excellentTime = targetTime * 0.7; // Complete in 70% of target time
-    const excellentLines = currentLevel.targetLines * 1.5; // Clear 50% more lines
-    
-    if (progress.timeElapsed < excellentTime || progress.linesCleared >= excellentLines) {
-      stars = 3;
-    }
-    
-    return stars;
+    return getStarRating(progress.timeElapsed, progress.linesCleared, currentLevel.targetLines);
   }
 
   private updateWorldProgress(world: World, score: number, stars: number): void {
@@ -434,17 +419,17 @@ export class LevelProgressionManager {
 
       const data = JSON.parse(savedData);
       
-      // Load level progress
+      // Load level progress over the defaults (a cloud sync may only store some fields)
       if (data.levelProgress) {
         data.levelProgress.forEach(([level, progress]: [number, LevelProgress]) => {
-          this.levelProgress.set(level, progress);
+          this.levelProgress.set(level, { ...this.levelProgress.get(level), ...progress });
         });
       }
       
       // Load world progress
       if (data.worldProgress) {
         data.worldProgress.forEach(([world, progress]: [World, WorldProgress]) => {
-          this.worldProgress.set(world, progress);
+          this.worldProgress.set(world, { ...this.worldProgress.get(world), ...progress });
         });
       }
       
@@ -11,6 +11,12 @@ export interface LayoutConfig {
   gameInfo: { x: number; y: number; width: number; height: number };
 }
 
+export interface NextQueueLayout {
+  firstBlockSize: number;
+  queueBlockSize: number;
+  slotHeight: number;
+}
+
 export interface MobileLayoutOptions {
   controlWidth: number;
   headerHeight: number;
@@ -246,6 +252,31 @@ export class MobileLayoutManager {
     };
   }
 
+  /**
+   * Size the next piece queue: the upcoming piece keeps its preview size,
+   * later pieces shrink until the stack fits the orientation's spare height
+   */
+  public calculateNextQueueLayout(screenWidth: number, screenHeight: number, count: number): NextQueueLayout {
+    const isMobile = this.isMobileSize(screenWidth, screenHeight);
+    const isPortrait = this.isPortraitOrientation(screenWidth, screenHeight);
+    
+    const firstBlockSize = !isMobile ? 15 : isPortrait ? 12 : 10;
+    const maxStackHeight = screenHeight * (isMobile && isPortrait ? 0.3 : 0.5);
+    const queuedCount = Math.max(0, Math.min(count, 6) - 1);
+    
+    // Spawn orientations are at most two rows tall, plus a little spacing
+    let queueBlockSize = Math.round(firstBlockSize * 0.7);
+    while (queueBlockSize > 5 && queuedCount * (queueBlockSize * 2 + 6) > maxStackHeight) {
+      queueBlockSize--;
+    }
+    
+    return {
+      firstBlockSize,
+      queueBlockSize,
+      slotHeight: queueBlockSize * 2 + 6
+    };
+  }
+
   /**
    * Apply calculated layout to game elements
    */
@@ -1,91 +1,92 @@
 import { GamePiece, PieceType, PieceDefinition } from '../types/GameTypes';
+import {
+  Randomizer,
+  RandomizerType,
+  SeededRandom,
+  createRandomizer,
+  createSeed
+} from '../../../shared/game/Randomizer';
+import {
+  RotationDirection,
+  RotationState,
+  getKickOffsets,
+  getRotationTarget
+} from '../../../shared/game/Rotation';
+import { PIECE_DEFINITIONS, PIECE_HISTORY_SEED, PieceKind, getKickTableKind } from '../../../shared/game/Pieces';
+
+export interface RotationResult {
+  piece: GamePiece;
+  /** Index of the kick test that fit (0 = no kick needed) */
+  kickIndex: number;
+}
 
 export class PieceManager {
   private readonly pieceDefinitions: Record<PieceType, PieceDefinition>;
+  private seed: number;
+  private randomizerType: RandomizerType;
+  private randomizer: Randomizer<PieceType>;
+  private upcoming: PieceType[] = [];
 
-  constructor() {
+  constructor(seed: number = createSeed(), randomizerType: RandomizerType = '7-bag') {
     this.pieceDefinitions = this.initializePieceDefinitions();
+    this.seed = seed;
+    this.randomizerType = randomizerType;
+    this.randomizer = this.buildRandomizer();
+  }
+
+  /**
+   * Restart the piece sequence, optionally with a new seed or randomizer
+   */
+  public reset(seed: number = this.seed, randomizerType: RandomizerType = this.randomizerType): void {
+    this.seed = seed;
+    this.randomizerType = randomizerType;
+    this.randomizer = this.buildRandomizer();
+    this.upcoming = [];
+  }
+
+  public getSeed(): number {
+    return this.seed;
+  }
+
+  public getRandomizerType(): RandomizerType {
+    return this.randomizerType;
+  }
+
+  /**
+   * Look ahead at the next piece types without consuming them
+   */
+  public peekNextTypes(count: number): PieceType[] {
+    while (this.upcoming.length < count) {
+      this.upcoming.push(this.randomizer.next());
+    }
+    return this.upcoming.slice(0, count);
+  }
+
+  private buildRandomizer(): Randomizer<PieceType> {
+    // Fixed type order keeps sequences identical for the same seed everywhere
+    const pieceTypes = Object.values(PieceType);
+    return createRandomizer(this.randomizerType, pieceTypes, new SeededRandom(this.seed), {
+      initialHistory: PIECE_HISTORY_SEED.map(kind => kind as PieceType)
+    });
   }
 
   private initializePieceDefinitions(): Record<PieceType, PieceDefinition> {
-    return {
-      [PieceType.I]: {
-        shape: [[1, 1, 1, 1]],
-        color: 0x8B4513, // Saddle brown - thick log
-        rotationStates: [
-          [[1, 1, 1, 1]],
-          [[1], [1], [1], [1]],
-          [[1, 1, 1, 1]],
-          [[1], [1], [1], [1]]
-        ]
-      },
-      [PieceType.O]: {
-        shape: [[1, 1], [1, 1]],
-        color: 0xCD853F, // Peru - tree stump cross-section
-        rotationStates: [
-          [[1, 1], [1, 1]],
-          [[1, 1], [1, 1]],
-          [[1, 1], [1, 1]],
-          [[1, 1], [1, 1]]
-        ]
-      },
-      [PieceType.T]: {
-        shape: [[0, 1, 0], [1, 1, 1]],
-        color: 0xDEB887, // Burlywood - main branch with shoots
-        rotationStates: [
-          [[0, 1, 0], [1, 1, 1]],
-          [[1, 0], [1, 1], [1, 0]],
-          [[1, 1, 1], [0, 1, 0]],
-          [[0, 1], [1, 1], [0, 1]]
-        ]
-      },
-      [PieceType.S]: {
-        shape: [[0, 1, 1], [1, 1, 0]],
-        color: 0x228B22, // Forest green - leafy branch
-        rotationStates: [
-          [[0, 1, 1], [1, 1, 0]],
-          [[1, 0], [1, 1], [0, 1]],
-          [[0, 1, 1], [1, 1, 0]],
-          [[1, 0], [1, 1], [0, 1]]
-        ]
-      },
-      [PieceType.Z]: {
-        shape: [[1, 1, 0], [0, 1, 1]],
-        color: 0x90EE90, // Light green - young leafy branch
-        rotationStates: [
-          [[1, 1, 0], [0, 1, 1]],
-          [[0, 1], [1, 1], [1, 0]],
-          [[1, 1, 0], [0, 1, 1]],
-          [[0, 1], [1, 1], [1, 0]]
-        ]
-      },
-      [PieceType.L]: {
-        shape: [[1, 0, 0], [1, 1, 1]],
-        color: 0xDAA520, // Goldenrod - bent branch
-        rotationStates: [
-          [[1, 0, 0], [1, 1, 1]],
-          [[1, 1], [1, 0], [1, 0]],
-          [[1, 1, 1], [0, 0, 1]],
-          [[0, 1], [0, 1], [1, 1]]
-        ]
-      },
-      [PieceType.J]: {
-        shape: [[0, 0, 1], [1, 1, 1]],
-        color: 0xA0522D, // Sienna - curved branch with bark
-        rotationStates: [
-          [[0, 0, 1], [1, 1, 1]],
-          [[1, 0], [1, 0], [1, 1]],
-          [[1, 1, 1], [1, 0, 0]],
-          [[1, 1], [0, 1], [0, 1]]
-        ]
-      }
-    };
+    const definitions = {} as Record<PieceType, PieceDefinition>;
+    for (const type of Object.values(PieceType)) {
+      const shared = PIECE_DEFINITIONS[type as PieceKind];
+      definitions[type] = {
+        shape: shared.rotationStates[0]!,
+        color: shared.color,
+        rotationStates: shared.rotationStates,
+        rotationOffsets: shared.rotationOffsets
+      };
+    }
+    return definitions;
   }
 
   public createRandomPiece(): GamePiece {
-    const pieceTypes = Object.values(PieceType);
-    const randomType = pieceTypes[Math.floor(Math.random() * pieceTypes.length)] as PieceType;
-    return this.createPiece(randomType);
+    const nextType = this.upcoming.shift() ?? this.randomizer.next();
+    return this.createPiece(nextType);
   }
 
   public createPiece(type: PieceType, x: number = 0, y: number = 0): GamePiece {
@@ -99,41 +100,40 @@ export class PieceManager {
       x,
       y,
       color: definition.color,
-      type
+      type,
+      rotation: 0
     };
   }
 
+  /**
+   * Rotate without kicks, keeping the piece anchored to its SRS bounding box
+   */
   public rotatePiece(piece: GamePiece, clockwise: boolean = true): GamePiece | null {
-    if (!piece.type) {
-      // Fallback to matrix rotation for pieces without type
-      return this.rotatePieceMatrix(piece, clockwise);
-    }
-
-    const definition = this.pieceDefinitions[piece.type];
-    if (!definition) {
-      return this.rotatePieceMatrix(piece, clockwise);
-    }
+    return this.rotateToState(piece, clockwise ? 'cw' : 'ccw');
+  }
 
-    // Find current rotation state
-    const currentStateIndex = this.findCurrentRotationState(piece, definition);
-    if (currentStateIndex === -1) {
-      return this.rotatePieceMatrix(piece, clockwise);
+  /**
+   * Rotate using the SRS kick tables; returns null when every kick test collides
+   */
+  public tryRotate(piece: GamePiece, board: number[][], direction: RotationDirection = 'cw'): RotationResult | null {
+    const rotated = this.rotateToState(piece, direction);
+    if (!rotated) {
+      return null;
     }
 
-    // Calculate next rotation state
-    const nextStateIndex = clockwise 
-      ? (currentStateIndex + 1) % 4
-      : (currentStateIndex + 3) % 4;
+    const from = piece.rotation ?? 0;
+    const to = rotated.rotation ?? from;
+    const kicks = piece.type ? getKickOffsets(getKickTableKind(piece.type as PieceKind), from, to) : [[0, 0] as const];
 
-    const nextShape = definition.rotationStates[nextStateIndex];
-    if (!nextShape) {
-      return this.rotatePieceMatrix(piece, clockwise);
+    for (let kickIndex = 0; kickIndex < kicks.length; kickIndex++) {
+      const [dx, dy] = kicks[kickIndex]!;
+      const candidate = this.movePiece(rotated, dx, dy);
+      if (!this.checkCollision(candidate, board)) {
+        return { piece: candidate, kickIndex };
+      }
     }
-    
-    return {
-      ...piece,
-      shape: nextShape.map(row => [...row]) // Deep copy
-    };
+
+    return null;
   }
 
   public movePiece(piece: GamePiece, dx: number, dy: number): GamePiece {
@@ -208,29 +208,6 @@ export class PieceManager {
     return newBoard;
   }
 
-  public tryWallKick(
-    piece: GamePiece, 
-    board: number[][], 
-    rotatedPiece: GamePiece
-  ): GamePiece | null {
-    // Standard SRS (Super Rotation System) wall kick offsets
-    const wallKickOffsets = this.getWallKickOffsets(piece.type || PieceType.T);
-
-    for (const [dx, dy] of wallKickOffsets) {
-      const testPiece = {
-        ...rotatedPiece,
-        x: rotatedPiece.x + dx,
-        y: rotatedPiece.y + dy
-      };
-
-      if (!this.checkCollision(testPiece, board)) {
-        return testPiece;
-      }
-    }
-
-    return null;
-  }
-
   public getPieceWidth(piece: GamePiece): number {
     if (!piece.shape || piece.shape.length === 0) return 0;
     return Math.max(...piece.shape.map(row => row?.length || 0));
@@ -293,40 +270,31 @@ export class PieceManager {
     };
   }
 
-  private findCurrentRotationState(piece: GamePiece, definition: PieceDefinition): number {
-    const shapeString = JSON.stringify(piece.shape);
-    
-    for (let i = 0; i < definition.rotationStates.length; i++) {
-      if (JSON.stringify(definition.rotationStates[i]) === shapeString) {
-        return i;
-      }
+  private rotateToState(piece: GamePiece, direction: RotationDirection): GamePiece | null {
+    const definition = piece.type ? this.pieceDefinitions[piece.type] : undefined;
+    if (!definition) {
+      // Fallback to matrix rotation for pieces without type
+      return direction === '180'
+        ? this.rotatePieceMatrix(this.rotatePieceMatrix(piece) ?? piece)
+        : this.rotatePieceMatrix(piece, direction === 'cw');
     }
-    
-    return -1;
-  }
 
-  private getWallKickOffsets(pieceType: PieceType): [number, number][] {
-    // Standard wall kick offsets for most pieces
-    const standardOffsets: [number, number][] = [
-      [0, 0],   // No offset (try original position)
-      [-1, 0],  // Left
-      [1, 0],   // Right
-      [0, -1],  // Up
-      [-1, -1], // Left-up
-      [1, -1]   // Right-up
-    ];
-
-    // I-piece has special wall kick rules
-    if (pieceType === PieceType.I) {
-      return [
-        [0, 0],
-        [-2, 0],
-        [1, 0],
-        [-2, -1],
-        [1, 2]
-      ];
+    const from: RotationState = piece.rotation ?? 0;
+    const to = getRotationTarget(from, direction);
+    const nextShape = definition.rotationStates[to];
+    const fromOffset = definition.rotationOffsets[from];
+    const toOffset = definition.rotationOffsets[to];
+    if (!nextShape || !fromOffset || !toOffset) {
+      return null;
     }
 
-    return standardOffsets;
+    // Shift by the difference in box offsets so the piece turns about the box, not its corner
+    return {
+      ...piece,
+      shape: nextShape.map(row => [...row]), // Deep copy
+      x: piece.x - fromOffset[0] + toOffset[0],
+      y: piece.y - fromOffset[1] + toOffset[1],
+      rotation: to
+    };
   }
-}
\ No newline at end of file
+}
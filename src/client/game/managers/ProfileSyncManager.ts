@@ -0,0 +1,231 @@
+import { ApiErrorCode } from '../../../shared/types/api';
+import {
+  PlayerProfile,
+  createEmptyProfile,
+  isSameProfileData,
+  mergeProfiles,
+  parseProfile
+} from '../../../shared/profile/Profile';
+import type { LevelProgress, WorldProgress } from './LevelProgressionManager';
+import type { AchievementProgress } from './AchievementManager';
+import { api } from '../utils/ApiClient';
+
+// Where the managers keep what the profile is built from
+const PROGRESS_KEY = 'dam_attack_progress';
+const ACHIEVEMENTS_KEY = 'dam-attack-achievements';
+const SETTINGS_KEY = 'dam-attack-settings';
+// What was last synced, so local changes since then can be told apart
+const SYNC_STATE_KEY = 'dam-attack-profile-sync';
+
+// A sync gives up after this many saves refused because another device saved first
+const MAX_SAVE_ATTEMPTS = 3;
+
+type SyncState = {
+  version: number;
+  settingsJson: string | null;
+  settingsUpdatedAt: number;
+};
+
+type StoredProgress = {
+  levelProgress?: [number, Partial<LevelProgress>][];
+  worldProgress?: [string, Partial<WorldProgress>][];
+  unlockedPowerUps?: string[];
+  timestamp?: number;
+};
+
+export type ProfileSyncStatus = 'synced' | 'signed-out' | 'offline';
+
+/**
+ * Keeps campaign progress, achievements and settings in step with the
+ * player's cloud profile.
+ *
+ * Local storage stays the source the game plays from, so everything works
+ * offline. A sync merges the cloud profile into it and saves the result
+ * back; a sync that can't reach the server is retried once the browser is
+ * back online.
+ */
+export class ProfileSyncManager {
+  private static instance: ProfileSyncManager;
+  private syncing: Promise<ProfileSyncStatus> | null = null;
+
+  private constructor() {
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', () => void this.sync());
+    }
+  }
+
+  public static getInstance(): ProfileSyncManager {
+    if (!ProfileSyncManager.instance) {
+      ProfileSyncManager.instance = new ProfileSyncManager();
+    }
+    return ProfileSyncManager.instance;
+  }
+
+  /**
+   * Merge the cloud profile into local storage and save the result. Calls
+   * made while a sync is running share it. A `remoteVersion` of null (from
+   * the session bootstrap) means there is no cloud profile yet, so it isn't
+   * fetched first.
+   */
+  public sync(remoteVersion?: number | null): Promise<ProfileSyncStatus> {
+    this.syncing ??= this.runSync(remoteVersion === null).finally(() => {
+      this.syncing = null;
+    });
+    return this.syncing;
+  }
+
+  /**
+   * The profile local storage currently holds
+   */
+  public getLocalProfile(): PlayerProfile {
+    const state = this.loadSyncState();
+    const progress = this.readJson<StoredProgress>(PROGRESS_KEY) ?? {};
+    const achievements = this.readJson<AchievementProgress[]>(ACHIEVEMENTS_KEY) ?? [];
+    const settingsJson = localStorage.getItem(SETTINGS_KEY);
+    const settingsValues = this.readJson<Record<string, unknown>>(SETTINGS_KEY);
+
+    // Settings that differ from the last synced copy were changed here since.
+    // A device that has never synced defers to the cloud's.
+    const settingsUpdatedAt = !state ? 0 : settingsJson === state.settingsJson ? state.settingsUpdatedAt : Date.now();
+
+    const profile = parseProfile({
+      version: state?.version ?? 0,
+      updatedAt: progress.timestamp ?? 0,
+      levels: Object.fromEntries((progress.levelProgress ?? []).map(([level, entry]) => [level, {
+        stars: entry.stars,
+        completed: entry.isCompleted,
+        unlocked: entry.unlocked,
+        bestScore: entry.score
+      }])),
+      worlds: Object.fromEntries((progress.worldProgress ?? []).map(([world, entry]) => [world, {
+        unlocked: entry.isUnlocked,
+        levelsCompleted: entry.levelsCompleted,
+        totalStars: entry.totalStars,
+        bestScore: entry.bestScore
+      }])),
+      powerUps: progress.unlockedPowerUps ?? [],
+      achievements: Object.fromEntries(achievements.map((entry) => [entry.achievementId, {
+        progress: entry.progress,
+        unlocked: entry.unlocked,
+        unlockedAt: entry.unlockedAt ?? null
+      }])),
+      settings: settingsValues ? { values: settingsValues, updatedAt: settingsUpdatedAt } : null
+    });
+
+    return profile ?? createEmptyProfile();
+  }
+
+  private async runSync(knownEmpty: boolean): Promise<ProfileSyncStatus> {
+    // Undefined until it is known: fetched, or handed back by a conflicting save
+    let remote: PlayerProfile | null | undefined = knownEmpty ? null : undefined;
+    for (let attempt = 0; attempt < MAX_SAVE_ATTEMPTS; attempt++) {
+      if (remote === undefined) {
+        const loaded = await api.getProfile();
+        if (!loaded.ok) return this.getFailureStatus(loaded.error.code, 'load');
+        remote = loaded.data.profile;
+      }
+
+      const local = this.getLocalProfile();
+      const merged = remote ? mergeProfiles(local, remote) : local;
+      this.writeLocalProfile(local, merged);
+
+      if (remote && isSameProfileData(merged, remote)) {
+        this.saveSyncState(remote);
+        return 'synced';
+      }
+
+      const saved = await api.saveProfile({ profile: merged, baseVersion: remote?.version ?? 0 });
+      if (saved.ok) {
+        this.saveSyncState(saved.data.profile);
+        return 'synced';
+      }
+      // Another device saved first: merge its profile in and try again
+      if (saved.error.code !== 'conflict') return this.getFailureStatus(saved.error.code, 'save');
+      remote = saved.error.profile;
+    }
+
+    console.warn('Cloud profile kept changing, will sync again later');
+    return 'offline';
+  }
+
+  private getFailureStatus(code: ApiErrorCode, action: 'load' | 'save'): ProfileSyncStatus {
+    if (code === 'unauthorized') return 'signed-out';
+    console.warn(`Failed to ${action} cloud profile (${code}), keeping local progress`);
+    return 'offline';
+  }
+
+  /**
+   * Write whatever `merged` adds to `local` back to the managers' storage.
+   * Only the parts the managers store are touched.
+   */
+  private writeLocalProfile(local: PlayerProfile, merged: PlayerProfile): void {
+    if (isSameProfileData(local, merged)) return;
+
+    try {
+      const progress = this.readJson<StoredProgress>(PROGRESS_KEY) ?? {};
+      const storedLevels = new Map(progress.levelProgress ?? []);
+      const storedWorlds = new Map(progress.worldProgress ?? []);
+
+      const updated: StoredProgress = {
+        ...progress,
+        levelProgress: Object.entries(merged.levels).map(([key, level]) => {
+          const globalLevel = Number(key);
+          return [globalLevel, {
+            ...storedLevels.get(globalLevel),
+            currentLevel: globalLevel,
+            stars: level.stars,
+            isCompleted: level.completed,
+            unlocked: level.unlocked,
+            score: level.bestScore
+          }];
+        }),
+        worldProgress: Object.entries(merged.worlds).map(([world, record]) => [world, {
+          ...storedWorlds.get(world),
+          isUnlocked: record.unlocked,
+          levelsCompleted: record.levelsCompleted,
+          totalStars: record.totalStars,
+          bestScore: record.bestScore
+        }]),
+        unlockedPowerUps: merged.powerUps
+      };
+      localStorage.setItem(PROGRESS_KEY, JSON.stringify(updated));
+
+      const achievements: AchievementProgress[] = Object.entries(merged.achievements).map(([achievementId, record]) => ({
+        achievementId,
+        progress: record.progress,
+        unlocked: record.unlocked,
+        ...(record.unlockedAt !== null && { unlockedAt: record.unlockedAt })
+      }));
+      localStorage.setItem(ACHIEVEMENTS_KEY, JSON.stringify(achievements));
+
+      if (merged.settings && merged.settings !== local.settings) {
+        localStorage.setItem(SETTINGS_KEY, JSON.stringify(merged.settings.values));
+      }
+    } catch (error) {
+      console.warn('Failed to apply cloud profile:', error);
+    }
+  }
+
+  // Null until this device has synced once
+  private loadSyncState(): SyncState | null {
+    return this.readJson<SyncState>(SYNC_STATE_KEY);
+  }
+
+  private saveSyncState(profile: PlayerProfile): void {
+    const state: SyncState = {
+      version: profile.version,
+      settingsJson: localStorage.getItem(SETTINGS_KEY),
+      settingsUpdatedAt: profile.settings?.updatedAt ?? 0
+    };
+    localStorage.setItem(SYNC_STATE_KEY, JSON.stringify(state));
+  }
+
+  private readJson<T>(key: string): T | null {
+    try {
+      const stored = localStorage.getItem(key);
+      return stored ? JSON.parse(stored) as T : null;
+    } catch {
+      return null;
+    }
+  }
+}
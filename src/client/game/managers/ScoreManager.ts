@@ -1,31 +1,22 @@
 import { ScoreEntry } from '../types/GameTypes';
-
-export interface ScoreCalculationData {
-  linesCleared: number;
-  level: number;
-  dropBonus?: number;
-  softDropDistance?: number;
-  hardDropDistance?: number;
-  isTetris?: boolean;
-  scoreMultiplier?: number;
-  levelBonus?: number;
-}
-
-export interface ScoreFormulas {
-  singleLine: number;
-  doubleLine: number;
-  tripleLine: number;
-  tetris: number;
-  softDrop: number;
-  hardDrop: number;
-  levelMultiplier: number;
-}
+import {
+  ScoreCalculationData,
+  ScoreFormulas,
+  DEFAULT_SCORE_FORMULAS,
+  calculateScore,
+  getPerfectClearBonus
+} from '../../../shared/game/Scoring';
+import { LeaderboardPeriod } from '../../../shared/types/api';
+import { getPeriodStart } from '../../../shared/leaderboard/Periods';
+
+export type { ScoreCalculationData, ScoreFormulas };
 
 export interface LeaderboardOptions {
   limit?: number;
   offset?: number;
   sortBy?: 'score' | 'timestamp';
   sortOrder?: 'asc' | 'desc';
+  period?: LeaderboardPeriod;
 }
 
 export class ScoreManager {
@@ -36,13 +27,7 @@ export class ScoreManager {
 
   constructor(scoreFormulas?: Partial<ScoreFormulas>) {
     this.scoreFormulas = {
-      singleLine: 100,
-      doubleLine: 300,
-      tripleLine: 500,
-      tetris: 800,
-      softDrop: 1,
-      hardDrop: 2,
-      levelMultiplier: 1,
+      ...DEFAULT_SCORE_FORMULAS,
       ...scoreFormulas
     };
 
@@ -54,65 +39,14 @@ export class ScoreManager {
    * Calculate score based on game actions
    */
   public calculateScore(data: ScoreCalculationData): number {
-    let score = 0;
-
-    // Line clear scoring
-    if (data.linesCleared > 0) {
-      let baseScore = 0;
-      
-      switch (data.linesCleared) {
-        case 1:
-          baseScore = this.scoreFormulas.singleLine;
-          break;
-        case 2:
-          baseScore = this.scoreFormulas.doubleLine;
-          break;
-        case 3:
-          baseScore = this.scoreFormulas.tripleLine;
-          break;
-        case 4:
-          baseScore = this.scoreFormulas.tetris;
-          break;
-        default:
-          // For more than 4 lines (shouldn't happen in standard Tetris)
-          baseScore = this.scoreFormulas.tetris * Math.floor(data.linesCleared / 4);
-          break;
-      }
-
-      // Apply level multiplier
-      score += baseScore * (data.level * this.scoreFormulas.levelMultiplier);
-
-      // Apply difficulty score multiplier if provided
-      if (data.scoreMultiplier && data.scoreMultiplier > 1) {
-        score *= data.scoreMultiplier;
-      }
-
-      // Bonus for Tetris (4 lines at once)
-      if (data.linesCleared === 4 || data.isTetris) {
-        score += baseScore * 0.5; // 50% bonus for Tetris
-      }
-    }
-
-    // Drop bonuses
-    if (data.softDropDistance) {
-      score += data.softDropDistance * this.scoreFormulas.softDrop;
-    }
-
-    if (data.hardDropDistance) {
-      score += data.hardDropDistance * this.scoreFormulas.hardDrop;
-    }
-
-    // General drop bonus
-    if (data.dropBonus) {
-      score += data.dropBonus;
-    }
-
-    // Level completion bonus
-    if (data.levelBonus) {
-      score += data.levelBonus;
-    }
+    return calculateScore(data, this.scoreFormulas);
+  }
 
-    return Math.floor(score);
+  /**
+   * Bonus for emptying the whole board, on top of the clear itself
+   */
+  public getPerfectClearBonus(linesCleared: number, level: number): number {
+    return getPerfectClearBonus(linesCleared, level, this.scoreFormulas);
   }
 
   /**
@@ -149,7 +83,8 @@ export class ScoreManager {
       limit = 10,
       offset = 0,
       sortBy = 'score',
-      sortOrder = 'desc'
+      sortOrder = 'desc',
+      period = 'alltime'
     } = options;
 
     try {
@@ -172,6 +107,10 @@ export class ScoreManager {
         }
       }
 
+      // Keep only scores from the current period
+      const periodStart = getPeriodStart(period, Date.now());
+      scores = scores.filter(score => score.timestamp >= periodStart);
+
       // Sort scores
       scores.sort((a, b) => {
         const aValue = sortBy === 'score' ? a.score : a.timestamp;
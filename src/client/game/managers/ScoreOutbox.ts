@@ -0,0 +1,120 @@
+import { ApiErrorCode, SubmitScoreRequest } from '../../../shared/types/api';
+
+export type QueuedScore = {
+  id: string; // The request's submissionId, so a retry is only recorded once
+  request: SubmitScoreRequest;
+  anonymous: boolean;
+  queuedAt: number;
+  attempts: number;
+  nextAttemptAt: number;
+};
+
+/** Give up on a queued score after this long */
+const MAX_QUEUED_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+/** Replays make entries large, so only the newest are kept */
+const MAX_QUEUED_SCORES = 20;
+const RETRY_BASE_MS = 5000;
+const RETRY_MAX_MS = 10 * 60 * 1000;
+
+/**
+ * Failures a later attempt can get past: the request never arrived, the
+ * server had a problem or the player was rate limited
+ */
+export const isRetryableError = (code: ApiErrorCode): boolean =>
+  code === 'network_error' || code === 'server_error' || code === 'rate_limited';
+
+/** The entry without its replay; the score still goes in, just unverified */
+const withoutReplay = (entry: QueuedScore): QueuedScore => {
+  const request = { ...entry.request };
+  delete request.replay;
+  return { ...entry, request };
+};
+
+/** Exponential backoff after `attempts` failed sends */
+export const getRetryDelay = (attempts: number): number =>
+  Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1));
+
+/**
+ * Score submissions that couldn't be sent, kept in local storage so they
+ * survive the app being closed
+ */
+export class ScoreOutbox {
+  private readonly STORAGE_KEY = 'dam-attack-score-outbox';
+
+  /** Queued scores, oldest first; expired ones are dropped */
+  public getAll(now: number = Date.now()): QueuedScore[] {
+    const entries = this.load();
+    const fresh = entries.filter((entry) => now - entry.queuedAt < MAX_QUEUED_AGE_MS);
+    if (fresh.length !== entries.length) {
+      console.warn(`Dropped ${entries.length - fresh.length} queued scores that were never submitted`);
+      this.save(fresh);
+    }
+    return fresh;
+  }
+
+  public getDue(now: number = Date.now()): QueuedScore[] {
+    return this.getAll(now).filter((entry) => entry.nextAttemptAt <= now);
+  }
+
+  /** When the next queued score is due, or null if there are none */
+  public getNextAttemptAt(): number | null {
+    const entries = this.getAll();
+    return entries.length > 0 ? Math.min(...entries.map((entry) => entry.nextAttemptAt)) : null;
+  }
+
+  /**
+   * Whether the score could be stored. When local storage is too full for
+   * the replays, the queued scores are kept without them.
+   */
+  public add(request: SubmitScoreRequest & { submissionId: string }, anonymous: boolean, retryAfterMs?: number): boolean {
+    const now = Date.now();
+    const entry: QueuedScore = {
+      id: request.submissionId,
+      request,
+      anonymous,
+      queuedAt: now,
+      attempts: 1,
+      nextAttemptAt: now + (retryAfterMs ?? getRetryDelay(1))
+    };
+    const entries = [...this.getAll(now), entry].slice(-MAX_QUEUED_SCORES);
+    return this.save(entries) || this.save(entries.map(withoutReplay));
+  }
+
+  public remove(id: string): void {
+    this.save(this.load().filter((entry) => entry.id !== id));
+  }
+
+  /** Count a failed attempt and back off before the next one */
+  public reschedule(id: string, retryAfterMs?: number): void {
+    const now = Date.now();
+    this.save(this.load().map((entry) => {
+      if (entry.id !== id) return entry;
+      const attempts = entry.attempts + 1;
+      return { ...entry, attempts, nextAttemptAt: now + (retryAfterMs ?? getRetryDelay(attempts)) };
+    }));
+  }
+
+  private load(): QueuedScore[] {
+    try {
+      const stored = localStorage.getItem(this.STORAGE_KEY);
+      const entries: unknown = stored ? JSON.parse(stored) : [];
+      return Array.isArray(entries) ? entries as QueuedScore[] : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private save(entries: QueuedScore[]): boolean {
+    try {
+      if (entries.length === 0) {
+        localStorage.removeItem(this.STORAGE_KEY);
+      } else {
+        localStorage.setItem(this.STORAGE_KEY, JSON.stringify(entries));
+      }
+      return true;
+    } catch (error) {
+      console.warn('Could not save the score outbox:', error);
+      return false;
+    }
+  }
+}
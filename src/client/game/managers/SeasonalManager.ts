@@ -20,6 +20,7 @@ import {
   Emotion,
   AnimationType
 } from '../types/EnvironmentalTypes';
+import { LEVEL_TARGET_LINES } from '../../../shared/leaderboard/Modes';
 
 export class SeasonalManager {
   private scene: Phaser.Scene;
@@ -44,7 +45,7 @@ export class SeasonalManager {
       season: Season.SPRING,
       name: "First Thaw",
       description: "The ice begins to melt, and you must start building your first dam",
-      targetLines: 10,
+      targetLines: LEVEL_TARGET_LINES[1],
       waterRiseRate: 0.0006, // Moderate speed - 0.06% per second (1667 seconds = ~2.8 minutes to fill)
       gracePeriod: 30000, // 30 seconds grace period
       baseDropTime: 1200, // Reverted to original speed
@@ -78,7 +79,7 @@ export class SeasonalManager {
       season: Season.SPRING,
       name: "Cherry Blossom Falls",
       description: "Pink petals drift down as the water rises faster",
-      targetLines: 15,
+      targetLines: LEVEL_TARGET_LINES[2],
       waterRiseRate: 0.0007, // Slightly faster - 0.07% per second (1429 seconds = ~2.4 minutes to fill)
       gracePeriod: 25000, // 25 seconds grace period
       baseDropTime: 1100, // Reverted to original speed
@@ -127,7 +128,7 @@ export class SeasonalManager {
       season: Season.SPRING,
       name: "Beaver's First Helper",
       description: "A friendly beaver appears to help with your dam construction",
-      targetLines: 20,
+      targetLines: LEVEL_TARGET_LINES[3],
       waterRiseRate: 0.0008, // Faster - 0.08% per second (1250 seconds = ~2.1 minutes to fill)
       gracePeriod: 20000, // 20 seconds grace period
       baseDropTime: 1000, // Reverted to original speed
@@ -162,7 +163,7 @@ export class SeasonalManager {
       season: Season.SPRING,
       name: "Morning Mist",
       description: "Gentle mist rises from the warming water",
-      targetLines: 25,
+      targetLines: LEVEL_TARGET_LINES[4],
       waterRiseRate: 0.4, // Still manageable - 0.4% per second
       gracePeriod: 15000, // 15 seconds grace period
       baseDropTime: 950,
@@ -204,7 +205,7 @@ export class SeasonalManager {
       season: Season.SPRING,
       name: "Spring's End",
       description: "The season transitions as summer approaches",
-      targetLines: 30,
+      targetLines: LEVEL_TARGET_LINES[5],
       waterRiseRate: 0.5, // Moderate increase - 0.5% per second
       gracePeriod: 10000, // 10 seconds grace period
       baseDropTime: 900,
@@ -247,7 +248,7 @@ export class SeasonalManager {
       season: Season.SUMMER,
       name: "Summer's Arrival",
       description: "Warm sunshine and steady water flow challenge your building skills",
-      targetLines: 35,
+      targetLines: LEVEL_TARGET_LINES[6],
       waterRiseRate: 1.5,
       baseDropTime: 850,
       environmentalHazards: [
@@ -297,7 +298,7 @@ export class SeasonalManager {
       season: Season.SUMMER,
       name: "Dragonfly Dance",
       description: "Dragonflies perform aerial acrobatics above the water",
-      targetLines: 40,
+      targetLines: LEVEL_TARGET_LINES[7],
       waterRiseRate: 1.7,
       baseDropTime: 800,
       environmentalHazards: [],
@@ -332,7 +333,7 @@ export class SeasonalManager {
       season: Season.AUTUMN,
       name: "Autumn's Arrival",
       description: "Leaves begin to fall as the water flows faster",
-      targetLines: 60,
+      targetLines: LEVEL_TARGET_LINES[11],
       waterRiseRate: 2.5,
       baseDropTime: 650,
       environmentalHazards: [
@@ -381,7 +382,7 @@ export class SeasonalManager {
       season: Season.WINTER,
       name: "First Frost",
       description: "Ice begins to form as winter arrives",
-      targetLines: 80,
+      targetLines: LEVEL_TARGET_LINES[16],
       waterRiseRate: 2.0, // Slower due to ice
       baseDropTime: 500,
       environmentalHazards: [
@@ -440,7 +441,7 @@ export class SeasonalManager {
       season: Season.WINTER,
       name: "Eternal Winter",
       description: "The ultimate test - survive the harshest winter conditions",
-      targetLines: 100,
+      targetLines: LEVEL_TARGET_LINES[20],
       waterRiseRate: 3.0,
       baseDropTime: 300,
       environmentalHazards: [
@@ -876,6 +877,10 @@ export class SeasonalManager {
     return hazard ? hazard.currentIntensity : 0;
   }
 
+  public isWildlifeInteractionActive(interaction: WildlifeInteraction): boolean {
+    return this.environmentalState.activeWildlife.some(w => w.wildlife.interactionType === interaction);
+  }
+
   public addStateListener(listener: (state: EnvironmentalState) => void): void {
     this.listeners.push(listener);
   }
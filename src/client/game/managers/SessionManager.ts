@@ -0,0 +1,38 @@
+import { InitResponse } from '../../../shared/types/api';
+import { api } from '../utils/ApiClient';
+
+/**
+ * The session bootstrap from /api/init: the player, this post's challenge,
+ * their cloud save version and the feature flags. Fetched once, starting in
+ * Boot so it loads alongside the assets; a failed load is retried on the
+ * next call.
+ */
+export class SessionManager {
+  private static instance: SessionManager;
+  private loading: Promise<InitResponse | null> | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): SessionManager {
+    if (!SessionManager.instance) {
+      SessionManager.instance = new SessionManager();
+    }
+    return SessionManager.instance;
+  }
+
+  public loadSession(): Promise<InitResponse | null> {
+    this.loading ??= this.fetchSession();
+    return this.loading;
+  }
+
+  private async fetchSession(): Promise<InitResponse | null> {
+    const response = await api.init();
+    if (!response.ok) {
+      console.warn(`Session bootstrap failed (${response.error.code}): ${response.error.message}`);
+      this.loading = null;
+      return null;
+    }
+
+    return response.data;
+  }
+}
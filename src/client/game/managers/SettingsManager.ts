@@ -27,6 +27,7 @@ export interface GameSettings {
     showNextPieces: number;
     holdPiece: boolean;
     instantDrop: boolean;
+    rotation180: boolean;
   };
   
   // Control Settings
@@ -38,6 +39,7 @@ export interface GameSettings {
       hardDrop: string[];
       rotateLeft: string[];
       rotateRight: string[];
+      rotate180: string[];
       hold: string[];
       pause: string[];
     };
@@ -130,7 +132,8 @@ export class SettingsManager {
         lockDelay: 500,
         showNextPieces: 3,
         holdPiece: true,
-        instantDrop: false
+        instantDrop: false,
+        rotation180: false
       },
       controls: {
         keyboard: {
@@ -140,6 +143,7 @@ export class SettingsManager {
           hardDrop: ['Space'],
           rotateLeft: ['KeyZ', 'KeyQ'],
           rotateRight: ['ArrowUp', 'KeyW', 'KeyX'],
+          rotate180: ['KeyE'],
           hold: ['KeyC', 'Shift'],
           pause: ['KeyP', 'Escape']
         },
@@ -615,7 +619,8 @@ export class SettingsManager {
         lockDelay: { type: 'number', label: 'Lock Delay (ms)', min: 0, max: 2000, step: 100 },
         showNextPieces: { type: 'number', label: 'Next Pieces to Show', min: 1, max: 6, step: 1 },
         holdPiece: { type: 'boolean', label: 'Enable Hold Piece' },
-        instantDrop: { type: 'boolean', label: 'Instant Hard Drop' }
+        instantDrop: { type: 'boolean', label: 'Instant Hard Drop' },
+        rotation180: { type: 'boolean', label: 'Enable 180° Rotation' }
       },
       controls: {
         'touch.enabled': { type: 'boolean', label: 'Touch Controls' },
@@ -16,6 +16,9 @@ export class WaterLevelManager {
   private gracePeriodStartTime: number = 0;
   private gracePeriodElapsed: number = 0;
 
+  // When false the level is driven from outside (the game engine) via setLevel()
+  private autoRise: boolean = true;
+
   constructor(scene: Phaser.Scene, gameWidth: number = 800, gameHeight: number = 600) {
     this.scene = scene;
     this.gameWidth = gameWidth;
@@ -85,7 +88,7 @@ export class WaterLevelManager {
     }
     
     // Only update water level if grace period has ended
-    if (!this.gracePeriodActive) {
+    if (this.autoRise && !this.gracePeriodActive) {
       // DEBUG: Log every frame for first 5 seconds after grace period
       const timeSinceGraceEnded = this.gracePeriodElapsed - this.gracePeriodMs;
       if (timeSinceGraceEnded >= 0 && timeSinceGraceEnded <= 5000) {
@@ -249,6 +252,15 @@ export class WaterLevelManager {
     this.waterLevel.visualHeight = this.waterLevel.currentLevel * this.gameHeight;
   }
 
+  public setLevel(level: number): void {
+    this.waterLevel.currentLevel = Math.max(0, Math.min(this.waterLevel.maxLevel, level));
+    this.waterLevel.visualHeight = this.waterLevel.currentLevel * this.gameHeight;
+  }
+
+  public setAutoRise(enabled: boolean): void {
+    this.autoRise = enabled;
+  }
+
   public raiseWater(amount: number): void {
     this.waterLevel.currentLevel = Math.min(this.waterLevel.maxLevel, 
       this.waterLevel.currentLevel + amount);
@@ -54,4 +54,25 @@ describe('BoardManager', () => {
       expect(result.clearedLineIndices).toEqual([18, 19]);
     });
   });
+
+  describe('perfect clear', () => {
+    it('should detect an empty board after the last lines clear', () => {
+      const manager = new BoardManager(10, 20);
+      const board = manager.createEmptyBoard();
+      board[18] = Array(10).fill(0xFF0000);
+      board[19] = Array(10).fill(0x00FF00);
+
+      expect(manager.isPerfectClear(board)).toBe(false);
+      expect(manager.isPerfectClear(manager.clearLines(board).newBoard)).toBe(true);
+    });
+
+    it('should not count a board with leftover cells', () => {
+      const manager = new BoardManager(10, 20);
+      const board = manager.createEmptyBoard();
+      board[19] = Array(10).fill(0xFF0000);
+      board[18]![3] = 0x00FF00;
+
+      expect(manager.isPerfectClear(manager.clearLines(board).newBoard)).toBe(false);
+    });
+  });
 });
\ No newline at end of file
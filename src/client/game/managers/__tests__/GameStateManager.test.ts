@@ -23,7 +23,7 @@ describe('GameStateManager', () => {
       expect(state.dropTime).toBe(1000);
       expect(state.lastDrop).toBe(0);
       expect(state.currentPiece).toBeNull();
-      expect(state.nextPiece).toBeNull();
+      expect(state.nextQueue).toEqual([]);
     });
 
     it('should create board with custom dimensions', () => {
@@ -112,6 +112,100 @@ describe('GameStateManager', () => {
     });
   });
 
+  describe('hold slot', () => {
+    const heldPiece: GamePiece = {
+      shape: [[0, 1, 0], [1, 1, 1]],
+      x: 0,
+      y: 0,
+      color: 0xDEB887,
+      type: PieceType.T
+    };
+
+    it('should start with an empty hold slot', () => {
+      const state = gameStateManager.getState();
+
+      expect(state.heldPiece).toBeNull();
+      expect(state.holdUsed).toBe(false);
+    });
+
+    it('should store a held piece and hold-used flag', () => {
+      gameStateManager.updateState({ heldPiece, holdUsed: true });
+      const state = gameStateManager.getState();
+
+      expect(state.heldPiece).toEqual(heldPiece);
+      expect(state.holdUsed).toBe(true);
+    });
+
+    it('should reject invalid hold updates', () => {
+      const consoleSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      gameStateManager.updateState({ heldPiece: { shape: 'bad' } as any, holdUsed: 'yes' as any });
+      const state = gameStateManager.getState();
+
+      expect(state.heldPiece).toBeNull();
+      expect(state.holdUsed).toBe(false);
+      expect(consoleSpy).toHaveBeenCalledTimes(2);
+
+      consoleSpy.mockRestore();
+    });
+
+    it('should notify listeners when the hold slot changes', () => {
+      let notificationCount = 0;
+
+      gameStateManager.addStateListener(() => {
+        notificationCount++;
+      });
+      gameStateManager.updateState({ heldPiece });
+      gameStateManager.updateState({ holdUsed: true });
+
+      expect(notificationCount).toBe(2);
+    });
+  });
+
+  describe('next queue', () => {
+    const queuedPiece: GamePiece = {
+      shape: [[1, 1], [1, 1]],
+      x: 0,
+      y: 0,
+      color: 0xA0522D,
+      type: PieceType.O
+    };
+
+    it('should store queued pieces in order', () => {
+      const second = { ...queuedPiece, type: PieceType.T, shape: [[0, 1, 0], [1, 1, 1]] };
+      gameStateManager.updateState({ nextQueue: [queuedPiece, second] });
+      const state = gameStateManager.getState();
+
+      expect(state.nextQueue).toHaveLength(2);
+      expect(state.nextQueue[0]?.type).toBe(PieceType.O);
+      expect(state.nextQueue[1]?.type).toBe(PieceType.T);
+    });
+
+    it('should reject a queue containing invalid pieces', () => {
+      const consoleSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      gameStateManager.updateState({ nextQueue: [queuedPiece, { shape: 'bad' } as any] });
+
+      expect(gameStateManager.getState().nextQueue).toEqual([]);
+      expect(consoleSpy).toHaveBeenCalledTimes(1);
+
+      consoleSpy.mockRestore();
+    });
+
+    it('should notify listeners only when queue contents change', () => {
+      let notificationCount = 0;
+
+      gameStateManager.updateState({ nextQueue: [queuedPiece] });
+      gameStateManager.addStateListener(() => {
+        notificationCount++;
+      });
+      gameStateManager.updateState({ nextQueue: [{ ...queuedPiece }] });
+      gameStateManager.updateState({ nextQueue: [queuedPiece, queuedPiece] });
+
+      expect(notificationCount).toBe(1);
+    });
+  });
+
   describe('state listeners', () => {
     it('should notify listeners on state change', () => {
       let notificationCount = 0;
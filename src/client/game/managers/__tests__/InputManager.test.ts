@@ -64,8 +64,11 @@ describe('InputManager', () => {
       [InputAction.MOVE_LEFT]: vi.fn(),
       [InputAction.MOVE_RIGHT]: vi.fn(),
       [InputAction.ROTATE]: vi.fn(),
+      [InputAction.ROTATE_CCW]: vi.fn(),
+      [InputAction.ROTATE_180]: vi.fn(),
       [InputAction.SOFT_DROP]: vi.fn(),
       [InputAction.HARD_DROP]: vi.fn(),
+      [InputAction.HOLD]: vi.fn(),
       [InputAction.PAUSE]: vi.fn()
     };
 
@@ -119,6 +122,30 @@ describe('InputManager', () => {
       expect(mockCallbacks[InputAction.SOFT_DROP]).toHaveBeenCalledWith(InputAction.SOFT_DROP, undefined);
     });
 
+    it('should trigger hold action for hold keys', () => {
+      const keydownHandler = mockScene.mockKeyboard.on.mock.calls.find(
+        call => call[0] === 'keydown'
+      )[1];
+
+      keydownHandler({ code: 'KeyC', preventDefault: vi.fn() });
+      expect(mockCallbacks[InputAction.HOLD]).toHaveBeenCalledWith(InputAction.HOLD, undefined);
+
+      keydownHandler({ code: 'ShiftLeft', preventDefault: vi.fn() });
+      expect(mockCallbacks[InputAction.HOLD]).toHaveBeenCalledTimes(2);
+    });
+
+    it('should trigger counter-clockwise and 180 rotations', () => {
+      const keydownHandler = mockScene.mockKeyboard.on.mock.calls.find(
+        call => call[0] === 'keydown'
+      )[1];
+
+      keydownHandler({ code: 'KeyZ', preventDefault: vi.fn() });
+      expect(mockCallbacks[InputAction.ROTATE_CCW]).toHaveBeenCalledWith(InputAction.ROTATE_CCW, undefined);
+
+      keydownHandler({ code: 'KeyE', preventDefault: vi.fn() });
+      expect(mockCallbacks[InputAction.ROTATE_180]).toHaveBeenCalledWith(InputAction.ROTATE_180, undefined);
+    });
+
     it('should handle key repeat for movement actions', () => {
       const keydownHandler = mockScene.mockKeyboard.on.mock.calls.find(
         call => call[0] === 'keydown'
@@ -0,0 +1,390 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { LeaderboardManager } from '../LeaderboardManager';
+import { LeaderboardEntry, LeaderboardScope } from '../../../../shared/types/api';
+import { ReplayData } from '../../../../shared/game/Replay';
+import { MAX_REPLAY_DURATION_MS } from '../../../../shared/game/ReplayVerification';
+
+const entry = (username: string, score: number): LeaderboardEntry => ({
+  username,
+  score,
+  level: 1,
+  lines: 0,
+  timestamp: 0
+});
+
+// Rows as a top page shows them once renumbered
+const ranked = (...entries: LeaderboardEntry[]): LeaderboardEntry[] => entries.map((row, index) => ({ ...row, rank: index + 1 }));
+
+const fetchMock = vi.fn();
+vi.stubGlobal('fetch', fetchMock);
+
+function respondWith(scope: LeaderboardScope, entries: LeaderboardEntry[]) {
+  fetchMock.mockResolvedValueOnce({
+    ok: true,
+    status: 200,
+    json: async () => ({ type: 'leaderboard', scope, entries })
+  });
+}
+
+describe('LeaderboardManager', () => {
+  let leaderboardManager: LeaderboardManager;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    leaderboardManager = LeaderboardManager.getInstance();
+    leaderboardManager.clearCache();
+  });
+
+  describe('scopes', () => {
+    it('should request the given scope and default to subreddit', async () => {
+      respondWith('subreddit', [entry('u/a', 10)]);
+      respondWith('post', [entry('u/b', 20)]);
+
+      await leaderboardManager.getLeaderboard();
+      const post = await leaderboardManager.getLeaderboard(false, { scope: 'post' });
+
+      expect(fetchMock).toHaveBeenNthCalledWith(1, '/api/leaderboard?scope=subreddit&period=alltime&previous=false&mode=classic');
+      expect(fetchMock).toHaveBeenNthCalledWith(2, '/api/leaderboard?scope=post&period=alltime&previous=false&mode=classic');
+      expect(post).toEqual([entry('u/b', 20)]);
+    });
+
+    it('should cache each scope separately', async () => {
+      respondWith('subreddit', [entry('u/a', 10)]);
+      respondWith('post', [entry('u/c', 30)]);
+      respondWith('global', [entry('u/d', 40)]);
+
+      await leaderboardManager.getLeaderboard(false, { scope: 'subreddit' });
+      await leaderboardManager.getLeaderboard(false, { scope: 'post' });
+      await leaderboardManager.getLeaderboard(false, { scope: 'global' });
+      const subreddit = await leaderboardManager.getLeaderboard(false, { scope: 'subreddit' });
+      const global = await leaderboardManager.getLeaderboard(false, { scope: 'global' });
+
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+      expect(fetchMock).toHaveBeenNthCalledWith(3, '/api/leaderboard?scope=global&period=alltime&previous=false&mode=classic');
+      expect(subreddit).toEqual([entry('u/a', 10)]);
+      expect(global).toEqual([entry('u/d', 40)]);
+    });
+
+    it('should add a submitted score to every cached scope', async () => {
+      respondWith('subreddit', [entry('u/a', 10)]);
+      respondWith('post', [entry('u/b', 20)]);
+      await leaderboardManager.getLeaderboard(false, { scope: 'subreddit' });
+      await leaderboardManager.getLeaderboard(false, { scope: 'post' });
+
+      leaderboardManager.addScoreToCache(entry('u/me', 15));
+
+      expect(await leaderboardManager.getLeaderboard(false, { scope: 'subreddit' })).toEqual(ranked(entry('u/me', 15), entry('u/a', 10)));
+      expect(await leaderboardManager.getLeaderboard(false, { scope: 'post' })).toEqual(ranked(entry('u/b', 20), entry('u/me', 15)));
+    });
+
+    it('should leave cached scopes the score was not recorded in alone', async () => {
+      respondWith('subreddit', [entry('u/a', 10)]);
+      respondWith('post', [entry('u/b', 20)]);
+      await leaderboardManager.getLeaderboard(false, { scope: 'subreddit' });
+      await leaderboardManager.getLeaderboard(false, { scope: 'post' });
+
+      leaderboardManager.addScoreToCache(entry('u/me', 15), 'classic', ['subreddit', 'global']);
+
+      expect(await leaderboardManager.getLeaderboard(false, { scope: 'subreddit' })).toEqual(ranked(entry('u/me', 15), entry('u/a', 10)));
+      expect(await leaderboardManager.getLeaderboard(false, { scope: 'post' })).toEqual([entry('u/b', 20)]);
+    });
+
+    it('should replace the player\'s own row only with a better result', async () => {
+      const mine = (score: number): LeaderboardEntry => ({ ...entry('u/me', score), isCurrentUser: true });
+      respondWith('subreddit', ranked(entry('u/a', 30), mine(20), entry('u/b', 10)));
+      await leaderboardManager.getLeaderboard(false, { scope: 'subreddit' });
+
+      leaderboardManager.addScoreToCache(mine(15));
+      expect(await leaderboardManager.getLeaderboard(false, { scope: 'subreddit' })).toEqual(ranked(entry('u/a', 30), mine(20), entry('u/b', 10)));
+
+      leaderboardManager.addScoreToCache(mine(40));
+      expect(await leaderboardManager.getLeaderboard(false, { scope: 'subreddit' })).toEqual(ranked(mine(40), entry('u/a', 30), entry('u/b', 10)));
+    });
+  });
+
+  describe('periods', () => {
+    it('should request the period and whether to show last period\'s winners', async () => {
+      respondWith('subreddit', [entry('u/a', 10)]);
+      respondWith('subreddit', [entry('u/b', 20)]);
+
+      await leaderboardManager.getLeaderboard(false, { period: 'daily' });
+      await leaderboardManager.getLeaderboard(false, { scope: 'post', period: 'weekly', previous: true });
+
+      expect(fetchMock).toHaveBeenNthCalledWith(1, '/api/leaderboard?scope=subreddit&period=daily&previous=false&mode=classic');
+      expect(fetchMock).toHaveBeenNthCalledWith(2, '/api/leaderboard?scope=post&period=weekly&previous=true&mode=classic');
+    });
+
+    it('should not add a submitted score to an archived board', async () => {
+      respondWith('subreddit', [entry('u/a', 10)]);
+      respondWith('subreddit', [entry('u/b', 20)]);
+      await leaderboardManager.getLeaderboard(false, { period: 'daily' });
+      await leaderboardManager.getLeaderboard(false, { period: 'daily', previous: true });
+
+      leaderboardManager.addScoreToCache(entry('u/me', 15));
+
+      expect(await leaderboardManager.getLeaderboard(false, { period: 'daily' })).toEqual(ranked(entry('u/me', 15), entry('u/a', 10)));
+      expect(await leaderboardManager.getLeaderboard(false, { period: 'daily', previous: true })).toEqual([entry('u/b', 20)]);
+    });
+  });
+
+  describe('modes', () => {
+    it('should request a mode board, or a campaign level\'s stars board', async () => {
+      respondWith('subreddit', []);
+      respondWith('subreddit', []);
+
+      await leaderboardManager.getLeaderboard(false, { mode: 'sprint' });
+      await leaderboardManager.getLeaderboard(false, { level: 7 });
+
+      expect(fetchMock).toHaveBeenNthCalledWith(1, '/api/leaderboard?scope=subreddit&period=alltime&previous=false&mode=sprint');
+      expect(fetchMock).toHaveBeenNthCalledWith(2, '/api/leaderboard?scope=subreddit&period=alltime&previous=false&mode=campaign&level=7');
+    });
+
+    it('should only add a submitted score to boards of its mode', async () => {
+      respondWith('subreddit', [entry('u/a', 10)]);
+      respondWith('subreddit', [entry('u/b', 20)]);
+      await leaderboardManager.getLeaderboard(false, { mode: 'classic' });
+      await leaderboardManager.getLeaderboard(false, { mode: 'marathon' });
+
+      leaderboardManager.addScoreToCache(entry('u/me', 15), 'marathon');
+
+      expect(await leaderboardManager.getLeaderboard(false, { mode: 'classic' })).toEqual([entry('u/a', 10)]);
+      expect(await leaderboardManager.getLeaderboard(false, { mode: 'marathon' })).toEqual(ranked(entry('u/b', 20), entry('u/me', 15)));
+    });
+
+    it('should rank Sprint times fastest first', async () => {
+      const sprint = (username: string, time: number) => ({ ...entry(username, 0), time });
+      respondWith('subreddit', [sprint('u/a', 50000), sprint('u/b', 90000)]);
+      await leaderboardManager.getLeaderboard(false, { mode: 'sprint' });
+
+      leaderboardManager.addScoreToCache(sprint('u/me', 60000), 'sprint');
+
+      const board = await leaderboardManager.getLeaderboard(false, { mode: 'sprint' });
+      expect(board.map(e => e.username)).toEqual(['u/a', 'u/me', 'u/b']);
+    });
+  });
+
+  describe('paging', () => {
+    it('should request a page and report where it sits on the board', async () => {
+      fetchMock.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({ type: 'leaderboard', scope: 'subreddit', entries: [entry('u/k', 5)], offset: 10, total: 42, playerRank: 11 })
+      });
+
+      const page = await leaderboardManager.getLeaderboardPage(false, { offset: 10, limit: 10 });
+
+      expect(fetchMock).toHaveBeenCalledWith('/api/leaderboard?scope=subreddit&period=alltime&previous=false&mode=classic&offset=10&limit=10');
+      expect(page).toMatchObject({ offset: 10, total: 42, playerRank: 11, entries: [entry('u/k', 5)] });
+    });
+
+    it('should ask for the window around the current user', async () => {
+      respondWith('subreddit', []);
+
+      await leaderboardManager.getLeaderboardPage(false, { aroundMe: true, radius: 3 });
+
+      expect(fetchMock).toHaveBeenCalledWith('/api/leaderboard?scope=subreddit&period=alltime&previous=false&mode=classic&aroundMe=true&radius=3');
+    });
+
+    it('should only add a submitted score to top pages, keeping them to their size', async () => {
+      respondWith('subreddit', [entry('u/a', 30), entry('u/b', 20)]);
+      respondWith('subreddit', [entry('u/c', 10)]);
+      await leaderboardManager.getLeaderboardPage(false, { limit: 2 });
+      await leaderboardManager.getLeaderboardPage(false, { offset: 2, limit: 2 });
+
+      leaderboardManager.addScoreToCache(entry('u/me', 25));
+
+      expect((await leaderboardManager.getLeaderboardPage(false, { limit: 2 })).entries).toEqual(ranked(entry('u/a', 30), entry('u/me', 25)));
+      expect((await leaderboardManager.getLeaderboardPage(false, { offset: 2, limit: 2 })).entries).toEqual([entry('u/c', 10)]);
+    });
+  });
+
+  describe('anonymous identity', () => {
+    const respondJson = (body: unknown, ok: boolean = true) => {
+      fetchMock.mockResolvedValueOnce({ ok, status: ok ? 200 : 401, json: async () => body });
+    };
+    const requestBody = (call: number) => JSON.parse(fetchMock.mock.calls[call]![1].body);
+
+    beforeEach(() => {
+      localStorage.clear();
+    });
+
+    it('should submit every anonymous score under the same stored id', async () => {
+      respondJson({ type: 'submitScore', success: true });
+      respondJson({}, false); // Not logged in
+      respondJson({ type: 'submitScore', success: true });
+      respondJson({}, false);
+
+      await leaderboardManager.submitScore(100, 1, 2, true);
+      await leaderboardManager.submitScore(200, 1, 4, true);
+
+      const id = requestBody(0).anonymousId;
+      expect(id).toMatch(/^[A-Za-z0-9_-]{16,64}$/);
+      expect(requestBody(2).anonymousId).toBe(id);
+      expect(localStorage.getItem('dam-attack-anonymous-id')).toBe(id);
+    });
+
+    it('should merge guest scores into the account on login and start a new identity', async () => {
+      respondJson({ type: 'submitScore', success: true });
+      respondJson({}, false);
+      await leaderboardManager.submitScore(100, 1, 2, true);
+      const id = requestBody(0).anonymousId;
+
+      respondJson({ username: 'u/beaver', authenticated: true });
+      respondJson({ type: 'mergeIdentity', success: true, improved: 1 });
+      await leaderboardManager.getRedditUserData();
+      await leaderboardManager.mergeAnonymousHistory();
+
+      expect(fetchMock).toHaveBeenNthCalledWith(4, '/api/identity/merge', expect.objectContaining({ method: 'POST' }));
+      expect(requestBody(3)).toEqual({ anonymousId: id });
+      expect(localStorage.getItem('dam-attack-anonymous-id')).toBeNull();
+    });
+
+    it('should keep scores a logged-in player submitted anonymously out of their account', async () => {
+      respondJson({ type: 'submitScore', success: true });
+      respondJson({ username: 'u/beaver', authenticated: true });
+
+      await leaderboardManager.submitScore(100, 1, 2, true);
+      await leaderboardManager.mergeAnonymousHistory();
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(localStorage.getItem('dam-attack-anonymous-id')).not.toBeNull();
+    });
+
+    it('should send a logged-out score under the stored id and merge it on login', async () => {
+      respondJson({ type: 'submitScore', success: true });
+      respondJson({}, false);
+      await leaderboardManager.submitScore(100, 1, 2);
+      const id = requestBody(0).anonymousId;
+
+      expect(fetchMock).toHaveBeenNthCalledWith(1, '/api/submit-score', expect.objectContaining({ method: 'POST' }));
+      expect(id).toBe(localStorage.getItem('dam-attack-anonymous-id'));
+
+      respondJson({ username: 'u/beaver', authenticated: true });
+      respondJson({ type: 'mergeIdentity', success: true, improved: 1 });
+      await leaderboardManager.getRedditUserData();
+      await leaderboardManager.mergeAnonymousHistory();
+
+      expect(requestBody(3)).toEqual({ anonymousId: id });
+    });
+  });
+
+  describe('offline outbox', () => {
+    const requestBody = (call: number) => JSON.parse(fetchMock.mock.calls[call]![1].body);
+
+    beforeEach(() => {
+      localStorage.clear();
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should queue a score that could not be sent and retry it under the same submission id', async () => {
+      fetchMock.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+      const result = await leaderboardManager.submitScore(100, 1, 2);
+
+      expect(result).toMatchObject({ success: false, queued: true, error: { code: 'network_error' } });
+      expect(leaderboardManager.getPendingScores()).toHaveLength(1);
+
+      fetchMock.mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({ type: 'submitScore', success: true }) });
+      fetchMock.mockResolvedValueOnce({ ok: false, status: 401, json: async () => ({}) }); // Not logged in
+      await vi.advanceTimersByTimeAsync(5000);
+      await leaderboardManager.flushPendingScores();
+
+      expect(fetchMock).toHaveBeenNthCalledWith(2, '/api/submit-score', expect.objectContaining({ method: 'POST' }));
+      expect(requestBody(1).submissionId).toBe(requestBody(0).submissionId);
+      expect(requestBody(1).playedAt).toBe(requestBody(0).playedAt);
+      expect(leaderboardManager.getPendingScores()).toHaveLength(0);
+    });
+
+    it('should queue the score without its replay when storage is too full for it', async () => {
+      const setItem = Storage.prototype.setItem;
+      const storage = vi.spyOn(Storage.prototype, 'setItem').mockImplementation(function (this: Storage, key: string, value: string) {
+        if (value.includes('"replay"')) throw new DOMException('Quota exceeded', 'QuotaExceededError');
+        setItem.call(this, key, value);
+      });
+      fetchMock.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+
+      const result = await leaderboardManager.submitScore(100, 1, 2, false, { seed: 1, duration: 60000 } as unknown as ReplayData);
+      storage.mockRestore();
+
+      expect(result).toMatchObject({ success: false, queued: true });
+      const [queued] = leaderboardManager.getPendingScores();
+      expect(queued?.request).toMatchObject({ score: 100 });
+      expect(queued?.request.replay).toBeUndefined();
+    });
+
+    it('should send a run too long to re-simulate without its replay', async () => {
+      fetchMock.mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({ type: 'submitScore', success: true }) });
+      fetchMock.mockResolvedValueOnce({ ok: false, status: 401, json: async () => ({}) }); // Not logged in
+
+      await leaderboardManager.submitScore(100, 1, 2, false, { seed: 1, duration: MAX_REPLAY_DURATION_MS + 1 } as unknown as ReplayData);
+
+      const request = JSON.parse(fetchMock.mock.calls[0]![1].body);
+      expect(request).toMatchObject({ score: 100 });
+      expect(request.replay).toBeUndefined();
+    });
+
+    it('should say so when there is no room to keep the score for later', async () => {
+      const storage = vi.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+        throw new DOMException('Quota exceeded', 'QuotaExceededError');
+      });
+      fetchMock.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+
+      const result = await leaderboardManager.submitScore(100, 1, 2);
+      storage.mockRestore();
+
+      expect(result.queued).toBeUndefined();
+      expect(result.message).toBe('No connection, and there is no room on this device to save your score for later.');
+      expect(leaderboardManager.getPendingScores()).toHaveLength(0);
+    });
+
+    it('should drop a queued score the server rejects and tell listeners', async () => {
+      const listener = vi.fn();
+      const stopListening = leaderboardManager.onPendingScoresChange(listener);
+      fetchMock.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+      await leaderboardManager.submitScore(100, 1, 2);
+
+      const error = { code: 'implausible_score', message: 'Score is not plausible' };
+      fetchMock.mockResolvedValueOnce({ ok: false, status: 422, json: async () => ({ type: 'error', error }) });
+      await vi.advanceTimersByTimeAsync(5000);
+      await leaderboardManager.flushPendingScores();
+      stopListening();
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(leaderboardManager.getPendingScores()).toHaveLength(0);
+      expect(listener).toHaveBeenCalledTimes(2);
+      expect(listener).toHaveBeenLastCalledWith([]);
+    });
+  });
+
+  it('should return structured rejections instead of throwing', async () => {
+    const error = {
+      code: 'rate_limited',
+      message: 'Too many scores submitted. Please wait a moment and try again.',
+      retryAfterMs: 30000
+    };
+    fetchMock.mockResolvedValueOnce({ ok: false, status: 429, json: async () => ({ type: 'error', error }) });
+
+    const result = await leaderboardManager.submitScore(100, 1, 2);
+
+    expect(result).toEqual({ type: 'submitScore', success: false, message: error.message, error });
+  });
+
+  it('should not send submissions that fail the request schema', async () => {
+    const result = await leaderboardManager.submitScore(Number.NaN, 1, 2);
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(result.error).toMatchObject({ code: 'invalid_request', fields: ['score'] });
+  });
+
+  it('should report a network error when the request fails', async () => {
+    fetchMock.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+
+    const result = await leaderboardManager.submitScore(100, 1, 2);
+
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe('network_error');
+  });
+});
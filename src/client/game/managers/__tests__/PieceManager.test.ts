@@ -1,6 +1,40 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { PieceManager } from '../PieceManager';
 import { GamePiece, PieceType } from '../../types/GameTypes';
+import { RotationDirection, RotationState } from '../../../../shared/game/Rotation';
+
+// SRS kick tests converted to board coordinates (y down)
+const JLSTZ_KICKS_Y_DOWN: Record<string, [number, number][]> = {
+  '0>1': [[0, 0], [-1, 0], [-1, -1], [0, 2], [-1, 2]],
+  '1>0': [[0, 0], [1, 0], [1, 1], [0, -2], [1, -2]],
+  '1>2': [[0, 0], [1, 0], [1, 1], [0, -2], [1, -2]],
+  '2>1': [[0, 0], [-1, 0], [-1, -1], [0, 2], [-1, 2]],
+  '2>3': [[0, 0], [1, 0], [1, -1], [0, 2], [1, 2]],
+  '3>2': [[0, 0], [-1, 0], [-1, 1], [0, -2], [-1, -2]],
+  '3>0': [[0, 0], [-1, 0], [-1, 1], [0, -2], [-1, -2]],
+  '0>3': [[0, 0], [1, 0], [1, -1], [0, 2], [1, 2]]
+};
+
+const I_KICKS_Y_DOWN: Record<string, [number, number][]> = {
+  '0>1': [[0, 0], [-2, 0], [1, 0], [-2, 1], [1, -2]],
+  '1>0': [[0, 0], [2, 0], [-1, 0], [2, -1], [-1, 2]],
+  '1>2': [[0, 0], [-1, 0], [2, 0], [-1, -2], [2, 1]],
+  '2>1': [[0, 0], [1, 0], [-2, 0], [1, 2], [-2, -1]],
+  '2>3': [[0, 0], [2, 0], [-1, 0], [2, -1], [-1, 2]],
+  '3>2': [[0, 0], [-2, 0], [1, 0], [-2, 1], [1, -2]],
+  '3>0': [[0, 0], [1, 0], [-2, 0], [1, 2], [-2, -1]],
+  '0>3': [[0, 0], [-1, 0], [2, 0], [-1, -2], [2, 1]]
+};
+
+const ROTATE_180_KICKS_Y_DOWN: Record<string, [number, number][]> = {
+  '0>2': [[0, 0], [0, -1], [1, -1], [-1, -1], [1, 0], [-1, 0]],
+  '2>0': [[0, 0], [0, 1], [-1, 1], [1, 1], [-1, 0], [1, 0]],
+  '1>3': [[0, 0], [1, 0], [1, -2], [1, -1], [0, -2], [0, -1]],
+  '3>1': [[0, 0], [-1, 0], [-1, -2], [-1, -1], [0, -2], [0, -1]]
+};
+
+const directionFor = (from: number, to: number): RotationDirection =>
+  (from + 1) % 4 === to ? 'cw' : (from + 3) % 4 === to ? 'ccw' : '180';
 
 describe('PieceManager', () => {
   let pieceManager: PieceManager;
@@ -20,6 +54,35 @@ describe('PieceManager', () => {
       expect(piece.y).toBe(0);
     });
 
+    it('should repeat the same piece sequence for the same seed', () => {
+      const first = new PieceManager(1234);
+      const second = new PieceManager(1234);
+
+      const firstTypes = Array.from({ length: 21 }, () => first.createRandomPiece().type);
+      const secondTypes = Array.from({ length: 21 }, () => second.createRandomPiece().type);
+
+      expect(firstTypes).toEqual(secondTypes);
+    });
+
+    it('should peek upcoming pieces without consuming them', () => {
+      const seeded = new PieceManager(99);
+      const preview = seeded.peekNextTypes(5);
+
+      expect(seeded.peekNextTypes(5)).toEqual(preview);
+      expect(Array.from({ length: 5 }, () => seeded.createRandomPiece().type)).toEqual(preview);
+    });
+
+    it('should restart the sequence on reset', () => {
+      const seeded = new PieceManager(77, 'history');
+      const firstRun = Array.from({ length: 10 }, () => seeded.createRandomPiece().type);
+
+      seeded.reset();
+
+      expect(Array.from({ length: 10 }, () => seeded.createRandomPiece().type)).toEqual(firstRun);
+      expect(seeded.getSeed()).toBe(77);
+      expect(seeded.getRandomizerType()).toBe('history');
+    });
+
     it('should create specific piece types', () => {
       const iPiece = pieceManager.createPiece(PieceType.I, 5, 10);
       
@@ -186,38 +249,114 @@ describe('PieceManager', () => {
     });
   });
 
-  describe('wall kick functionality', () => {
-    let board: number[][];
+  describe('SRS rotation', () => {
+    const pieceInState = (type: PieceType, state: number, x = 4, y = 4): GamePiece => {
+      let piece = pieceManager.createPiece(type, x, y);
+      for (let i = 0; i < state; i++) {
+        piece = pieceManager.rotatePiece(piece)!;
+      }
+      return piece;
+    };
+
+    const cellsOf = (piece: GamePiece): [number, number][] =>
+      piece.shape.flatMap((row, y) => row.flatMap((cell, x) => (cell ? [[piece.x + x, piece.y + y] as [number, number]] : [])));
+
+    // Fill the board except where the kick under test would put the piece, so every earlier test collides
+    const boardOnlyFitting = (piece: GamePiece): number[][] => {
+      const board = Array(12).fill(null).map(() => Array(12).fill(1));
+      cellsOf(piece).forEach(([x, y]) => {
+        board[y]![x] = 0;
+      });
+      return board;
+    };
+
+    const expectEveryKick = (type: PieceType, table: Record<string, [number, number][]>) => {
+      Object.entries(table).forEach(([key, kicks]) => {
+        const [from, to] = key.split('>').map(Number) as [RotationState, RotationState];
+        const direction = directionFor(from, to);
+        const start = pieceInState(type, from);
+        const unkicked = direction === '180'
+          ? pieceManager.rotatePiece(pieceManager.rotatePiece(start)!)!
+          : pieceManager.rotatePiece(start, direction === 'cw')!;
+
+        kicks.forEach(([dx, dy], kickIndex) => {
+          const expected = pieceManager.movePiece(unkicked, dx, dy);
+          const result = pieceManager.tryRotate(start, boardOnlyFitting(expected), direction);
+
+          expect(result, `${type} ${key} kick ${kickIndex}`).not.toBeNull();
+          expect(result!.kickIndex).toBe(kickIndex);
+          expect(result!.piece).toEqual({ ...expected, rotation: to });
+        });
+      });
+    };
+
+    it('should track the rotation state index', () => {
+      const piece = pieceManager.createPiece(PieceType.T);
 
-    beforeEach(() => {
-      board = Array(20).fill(null).map(() => Array(14).fill(0));
+      expect(piece.rotation).toBe(0);
+      expect(pieceManager.rotatePiece(piece)!.rotation).toBe(1);
+      expect(pieceManager.rotatePiece(piece, false)!.rotation).toBe(3);
     });
 
-    it('should perform wall kick when rotation would cause collision', () => {
-      const piece = pieceManager.createPiece(PieceType.I, 0, 5);
-      const rotated = pieceManager.rotatePiece(piece);
-      
-      if (rotated) {
-        const wallKicked = pieceManager.tryWallKick(piece, board, rotated);
-        expect(wallKicked).toBeDefined();
-      }
+    it('should tell symmetric states apart by index, not by shape', () => {
+      const spawn = pieceManager.createPiece(PieceType.S, 4, 4);
+      const flipped = pieceInState(PieceType.S, 2);
+
+      expect(flipped.shape).toEqual(spawn.shape);
+      expect(flipped.rotation).toBe(2);
+      expect(flipped.y).toBe(5);
     });
 
-    it('should return null if wall kick is not possible', () => {
-      // Create a scenario where wall kick is impossible
-      for (let x = 0; x < 10; x++) {
-        for (let y = 0; y < 10; y++) {
-          board[y][x] = 0xFF0000;
-        }
-      }
-      
-      const piece = pieceManager.createPiece(PieceType.I, 0, 0);
-      const rotated = pieceManager.rotatePiece(piece);
-      
-      if (rotated) {
-        const wallKicked = pieceManager.tryWallKick(piece, board, rotated);
-        expect(wallKicked).toBeNull();
-      }
+    it('should turn about the SRS bounding box', () => {
+      const tPiece = pieceManager.createPiece(PieceType.T, 4, 4);
+      const iPiece = pieceManager.createPiece(PieceType.I, 4, 4);
+
+      expect(pieceManager.rotatePiece(tPiece)).toMatchObject({ x: 5, y: 4 });
+      expect(pieceManager.rotatePiece(iPiece)).toMatchObject({ x: 6, y: 3 });
+    });
+
+    it('should return to the spawn position after four rotations', () => {
+      Object.values(PieceType).forEach(type => {
+        const spawn = pieceManager.createPiece(type, 4, 4);
+        expect(pieceInState(type, 4)).toEqual(spawn);
+      });
+    });
+
+    it('should never move the O piece', () => {
+      const board = Array(12).fill(null).map(() => Array(12).fill(0));
+      const result = pieceManager.tryRotate(pieceManager.createPiece(PieceType.O, 4, 4), board);
+
+      expect(result).toMatchObject({ kickIndex: 0, piece: { x: 4, y: 4, rotation: 1 } });
+    });
+
+    it.each([PieceType.J, PieceType.L, PieceType.S, PieceType.T, PieceType.Z])(
+      'should apply every JLSTZ kick test to %s',
+      type => expectEveryKick(type, JLSTZ_KICKS_Y_DOWN)
+    );
+
+    it('should apply every I kick test', () => {
+      expectEveryKick(PieceType.I, I_KICKS_Y_DOWN);
+    });
+
+    it.each([PieceType.T, PieceType.I])('should apply every 180 kick test to %s', type => {
+      expectEveryKick(type, ROTATE_180_KICKS_Y_DOWN);
+    });
+
+    it('should return null when every kick test collides', () => {
+      const board = Array(12).fill(null).map(() => Array(12).fill(1));
+
+      expect(pieceManager.tryRotate(pieceManager.createPiece(PieceType.T, 4, 4), board)).toBeNull();
+    });
+
+    it('should kick off the wall instead of failing', () => {
+      const board = Array(20).fill(null).map(() => Array(14).fill(0));
+      const vertical = pieceInState(PieceType.I, 1, 0, 5);
+      const atWall = pieceManager.movePiece(vertical, -vertical.x, 0);
+      const result = pieceManager.tryRotate(atWall, board);
+
+      expect(result).not.toBeNull();
+      expect(result!.kickIndex).toBeGreaterThan(0);
+      expect(pieceManager.checkCollision(result!.piece, board)).toBe(false);
     });
   });
 
@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ProfileSyncManager } from '../ProfileSyncManager';
+import { PlayerProfile, createEmptyProfile } from '../../../../shared/profile/Profile';
+
+const fetchMock = vi.fn();
+vi.stubGlobal('fetch', fetchMock);
+
+function respondWith(status: number, body: unknown) {
+  fetchMock.mockResolvedValueOnce({
+    ok: status >= 200 && status < 300,
+    status,
+    json: async () => body
+  });
+}
+
+const storeProgress = (levels: [number, { stars: number; isCompleted: boolean; unlocked: boolean; score: number }][]) =>
+  localStorage.setItem('dam_attack_progress', JSON.stringify({ levelProgress: levels, worldProgress: [], unlockedPowerUps: [] }));
+
+const cloudProfile = (overrides: Partial<PlayerProfile>): PlayerProfile => ({ ...createEmptyProfile(), version: 3, updatedAt: 1, ...overrides });
+
+describe('ProfileSyncManager', () => {
+  const syncManager = ProfileSyncManager.getInstance();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    localStorage.clear();
+  });
+
+  it('should merge the cloud profile into local storage and save the result', async () => {
+    storeProgress([[1, { stars: 1, isCompleted: true, unlocked: true, score: 900 }]]);
+    respondWith(200, {
+      type: 'profile',
+      profile: cloudProfile({ levels: { '1': { stars: 3, completed: true, unlocked: true, bestScore: 500 } } })
+    });
+    respondWith(200, { type: 'saveProfile', profile: cloudProfile({ version: 4 }) });
+
+    expect(await syncManager.sync()).toBe('synced');
+
+    const stored = JSON.parse(localStorage.getItem('dam_attack_progress')!);
+    expect(stored.levelProgress[0][1]).toMatchObject({ stars: 3, isCompleted: true, score: 900 });
+
+    const [, request] = fetchMock.mock.calls[1]!;
+    expect(request.method).toBe('PUT');
+    expect(JSON.parse(request.body)).toMatchObject({ baseVersion: 3, profile: { levels: { '1': { stars: 3, bestScore: 900 } } } });
+  });
+
+  it('should not save when the cloud already has everything', async () => {
+    storeProgress([[1, { stars: 2, isCompleted: true, unlocked: true, score: 700 }]]);
+    respondWith(200, {
+      type: 'profile',
+      profile: cloudProfile({ levels: { '1': { stars: 2, completed: true, unlocked: true, bestScore: 700 } } })
+    });
+
+    expect(await syncManager.sync()).toBe('synced');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should merge in the profile a conflicting save returns', async () => {
+    storeProgress([[1, { stars: 1, isCompleted: true, unlocked: true, score: 100 }]]);
+    respondWith(200, { type: 'profile', profile: null });
+    respondWith(409, {
+      type: 'error',
+      error: { code: 'conflict', message: 'Profile was changed on another device', profile: cloudProfile({ powerUps: ['log_bomb'] }) }
+    });
+    respondWith(200, { type: 'saveProfile', profile: cloudProfile({ version: 4 }) });
+
+    expect(await syncManager.sync()).toBe('synced');
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+
+    const [, retry] = fetchMock.mock.calls[2]!;
+    expect(JSON.parse(retry.body)).toMatchObject({ baseVersion: 3, profile: { powerUps: ['log_bomb'] } });
+  });
+
+  it('should fetch the cloud profile when a conflict does not include it', async () => {
+    storeProgress([[1, { stars: 1, isCompleted: true, unlocked: true, score: 100 }]]);
+    respondWith(200, { type: 'profile', profile: null });
+    respondWith(409, { type: 'error', error: { code: 'conflict', message: 'Profile was changed on another device' } });
+    respondWith(200, { type: 'profile', profile: cloudProfile({ powerUps: ['log_bomb'] }) });
+    respondWith(200, { type: 'saveProfile', profile: cloudProfile({ version: 4 }) });
+
+    expect(await syncManager.sync()).toBe('synced');
+
+    const [, retry] = fetchMock.mock.calls[3]!;
+    expect(JSON.parse(retry.body)).toMatchObject({ baseVersion: 3, profile: { powerUps: ['log_bomb'] } });
+  });
+
+  it('should keep playing from local storage while offline', async () => {
+    storeProgress([[1, { stars: 2, isCompleted: true, unlocked: true, score: 700 }]]);
+    const before = localStorage.getItem('dam_attack_progress');
+    fetchMock.mockRejectedValueOnce(new Error('offline'));
+
+    expect(await syncManager.sync()).toBe('offline');
+    expect(localStorage.getItem('dam_attack_progress')).toBe(before);
+  });
+
+  it('should not sync players who are not signed in', async () => {
+    respondWith(401, { type: 'error', error: { code: 'unauthorized', message: 'User not authenticated' } });
+
+    expect(await syncManager.sync()).toBe('signed-out');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
@@ -199,6 +199,34 @@ describe('ScoreManager', () => {
       const score = scoreManager.calculateScore(data);
       expect(Number.isInteger(score)).toBe(true);
     });
+
+    it('should score T-spins with their own formulas', () => {
+      expect(scoreManager.calculateScore({ linesCleared: 2, level: 1, tSpin: 'full' })).toBe(1200);
+      expect(scoreManager.calculateScore({ linesCleared: 3, level: 2, tSpin: 'full' })).toBe(3200);
+      expect(scoreManager.calculateScore({ linesCleared: 1, level: 1, tSpin: 'mini' })).toBe(200);
+    });
+
+    it('should score T-spins that clear no lines', () => {
+      expect(scoreManager.calculateScore({ linesCleared: 0, level: 1, tSpin: 'full' })).toBe(400);
+      expect(scoreManager.calculateScore({ linesCleared: 0, level: 3, tSpin: 'mini' })).toBe(300);
+      expect(scoreManager.calculateScore({ linesCleared: 0, level: 1, tSpin: 'none' })).toBe(0);
+    });
+
+    it('should add a combo bonus from the second consecutive clear', () => {
+      expect(scoreManager.calculateScore({ linesCleared: 1, level: 1, combo: 1 })).toBe(100);
+      expect(scoreManager.calculateScore({ linesCleared: 1, level: 2, combo: 3 })).toBe(400);
+    });
+
+    it('should multiply back-to-back difficult clears', () => {
+      expect(scoreManager.calculateScore({ linesCleared: 4, level: 1, backToBack: true })).toBe(1800);
+      expect(scoreManager.calculateScore({ linesCleared: 2, level: 1, tSpin: 'full', backToBack: true })).toBe(1800);
+    });
+
+    it('should add a perfect clear bonus scaled by lines and level', () => {
+      expect(scoreManager.calculateScore({ linesCleared: 1, level: 1, perfectClear: true })).toBe(900);
+      expect(scoreManager.getPerfectClearBonus(4, 2)).toBe(4000);
+      expect(scoreManager.getPerfectClearBonus(0, 1)).toBe(0);
+    });
   });
 
   describe('Local Storage Operations', () => {
@@ -0,0 +1,34 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { SessionManager } from '../SessionManager';
+import { InitResponse } from '../../../../shared/types/api';
+
+const fetchMock = vi.fn();
+vi.stubGlobal('fetch', fetchMock);
+
+const session: InitResponse = {
+  type: 'init',
+  postId: 't3_post',
+  user: { username: 'u/beaver', authenticated: true, bestScore: 1200, currentRank: 4 },
+  challenge: null,
+  profileVersion: 7,
+  features: { cloudSave: true, dailyChallenge: true }
+};
+
+describe('SessionManager', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should retry a failed bootstrap and then keep the session', async () => {
+    fetchMock.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+    fetchMock.mockResolvedValueOnce({ ok: true, status: 200, json: async () => session });
+    const sessionManager = SessionManager.getInstance();
+
+    expect(await sessionManager.loadSession()).toBeNull();
+    expect(await sessionManager.loadSession()).toEqual(session);
+    expect(await sessionManager.loadSession()).toEqual(session);
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(fetchMock).toHaveBeenCalledWith('/api/init');
+  });
+});
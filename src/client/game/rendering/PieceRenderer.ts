@@ -21,6 +21,11 @@ export interface PieceRenderData {
   tint?: number;
 }
 
+export interface GhostRenderOptions {
+  blockSize: number;
+  highContrast: boolean;
+}
+
 export class PieceRenderer {
   private scene: Phaser.Scene;
   private themeManager: ThemeManager;
@@ -115,6 +120,61 @@ export class PieceRenderer {
     return container;
   }
 
+  /**
+   * Render a ghost (landing preview) outline of a piece at board pixel coordinates
+   */
+  public renderGhostPiece(
+    piece: GamePiece,
+    x: number,
+    y: number,
+    options: Partial<GhostRenderOptions> = {},
+    containerId: string = 'ghost'
+  ): Phaser.GameObjects.Container {
+    let container = this.pieceContainers.get(containerId);
+    if (!container) {
+      container = this.scene.add.container(0, 0);
+      this.pieceContainers.set(containerId, container);
+    } else {
+      container.removeAll(true);
+    }
+
+    const blockSize = options.blockSize ?? this.config.blockSize;
+    const highContrast = options.highContrast ?? false;
+    const colors = this.themeManager.getColors();
+
+    // High contrast: bold white outline on dark fill so the ghost never blends into the board
+    const outlineColor = highContrast
+      ? 0xFFFFFF
+      : this.themeManager.hexToNumber(colors.neon.cyan);
+    const fillColor = highContrast
+      ? 0x000000
+      : this.themeManager.hexToNumber(this.themeManager.getPieceColors(piece.type || PieceType.I)[0] ?? colors.wood[0] ?? '#8B4513');
+    const fillAlpha = highContrast ? 0.6 : 0.2;
+    const outlineAlpha = highContrast ? 1.0 : 0.6;
+    const outlineWidth = highContrast ? 3 : 2;
+
+    const graphics = this.scene.add.graphics();
+    piece.shape.forEach((row, rowIndex) => {
+      row.forEach((cell, colIndex) => {
+        if (cell !== 0) {
+          const blockX = colIndex * blockSize;
+          const blockY = rowIndex * blockSize;
+
+          graphics.fillStyle(fillColor, fillAlpha);
+          graphics.fillRect(blockX + 2, blockY + 2, blockSize - 4, blockSize - 4);
+          graphics.lineStyle(outlineWidth, outlineColor, outlineAlpha);
+          graphics.strokeRect(blockX + 2, blockY + 2, blockSize - 4, blockSize - 4);
+        }
+      });
+    });
+
+    container.add(graphics);
+    container.setPosition(x, y);
+    container.setVisible(true);
+
+    return container;
+  }
+
   /**
    * Create a single log block with authentic wood styling
    */
@@ -1,4 +1,5 @@
 import { Scene } from 'phaser';
+import { SessionManager } from '../managers/SessionManager';
 
 export class Boot extends Scene {
   constructor() {
@@ -13,6 +14,9 @@ export class Boot extends Scene {
   }
 
   create() {
+    // Fetch the session while the Preloader loads the assets
+    void SessionManager.getInstance().loadSession();
+
     this.scene.start('Preloader');
   }
 }
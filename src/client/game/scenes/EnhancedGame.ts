@@ -4,26 +4,41 @@ import { MobileFirstLayoutSystem } from '../managers/MobileFirstLayoutSystem';
 import { MobileControlsUI } from '../ui/MobileControlsUI';
 import { FuturisticTimer } from '../ui/FuturisticTimer';
 import { InputAction } from '../managers/InputManager';
-import { GameStateManager } from '../managers/GameStateManager';
+import { GameStateManager, GameState } from '../managers/GameStateManager';
 import { PieceManager } from '../managers/PieceManager';
 import { BoardManager } from '../managers/BoardManager';
 import { SeasonalManager } from '../managers/SeasonalManager';
 import { WaterLevelManager } from '../managers/WaterLevelManager';
 import { LevelProgressionManager } from '../managers/LevelProgressionManager';
+import { SettingsManager } from '../managers/SettingsManager';
+import { DifficultyManager } from '../managers/DifficultyManager';
 import { EnvironmentalRenderer } from '../rendering/EnvironmentalRenderer';
 import { PieceRenderer } from '../rendering/PieceRenderer';
 import { ThemeManager } from '../themes/ThemeManager';
 import { 
   EnvironmentalState, 
   HazardType, 
+  WildlifeInteraction,
   PowerUpType,
   StoryElement,
   StoryType,
   Character,
   Emotion,
-  AnimationType
+  AnimationType,
+  SeasonalLevel
 } from '../types/EnvironmentalTypes';
 import { GamePiece, PieceType } from '../types/GameTypes';
+import { RandomizerType, createSeed } from '../../../shared/game/Randomizer';
+import { DEFAULT_LOCK_DELAY_CONFIG } from '../../../shared/game/LockDelay';
+import { getSpinLabel, SpinType } from '../../../shared/game/TSpin';
+import { GameEngine, EngineEvent, EngineOptions, EnginePiece, LockEvent, isEngineInput } from '../../../shared/game/GameEngine';
+import { ReplayData, createReplay } from '../../../shared/game/Replay';
+import { ReplaySceneData } from './Replay';
+import { RunDetails } from '../managers/LeaderboardManager';
+import { getStarRating, parseLeaderboardMode } from '../../../shared/leaderboard/Modes';
+import { AchievementManager } from '../managers/AchievementManager';
+import { ProfileSyncManager } from '../managers/ProfileSyncManager';
+import { EffectsManager } from '../effects/EffectsManager';
 
 export class EnhancedGame extends Scene {
   // Core managers
@@ -34,6 +49,13 @@ export class EnhancedGame extends Scene {
   private waterLevelManager!: WaterLevelManager;
   private levelProgressionManager!: LevelProgressionManager;
   private themeManager!: ThemeManager;
+  private settingsManager!: SettingsManager;
+  private difficultyManager!: DifficultyManager;
+  private achievementManager!: AchievementManager;
+  private effectsManager!: EffectsManager;
+  
+  // Headless rules engine: owns the board, pieces, score and water level
+  private engine!: GameEngine;
   
   // Rendering systems
   private environmentalRenderer!: EnvironmentalRenderer;
@@ -48,6 +70,13 @@ export class EnhancedGame extends Scene {
   private isPaused: boolean = false;
   private currentLevel: number = 1;
   private gameMode: 'campaign' | 'endless' = 'campaign';
+  private modeId: string | null = null;
+  // The seasonal level a campaign run plays, when SeasonalManager defines it
+  private campaignLevel: SeasonalLevel | null = null;
+  // Season a non-campaign run is played in (daily challenges pick one)
+  private seasonalLevel: number | null = null;
+  private seed: number = 0;
+  private randomizerType: RandomizerType = '7-bag';
   private hasShownWelcome: boolean = false;
   
   // Visual elements
@@ -72,18 +101,12 @@ export class EnhancedGame extends Scene {
   
   // OPTIMIZED: Proper timing system
   private lastTime: number = 0;
-  private dropCounter: number = 0;
-  private dropInterval: number = 1000; // Base 1 second drop interval
+  // Tetrises cleared in a row, for the consecutiveTetrises stat
+  private tetrisStreak: number = 0;
   
   // NEW: Seasonal effect properties
   private seasonalDropSpeedMultiplier: number = 1.0;
   private inputDelayMs: number = 0;
-  private seasonalScoreMultiplier: number = 1.0;
-  
-  // Enhanced scoring system
-  private gameStartTime: number = 0;
-  private lastSurvivalBonus: number = 0;
-  private survivalBonusInterval: number = 30000; // 30 seconds
   
   // Debug frame counter
   private frameCount: number = 0;
@@ -100,20 +123,41 @@ export class EnhancedGame extends Scene {
   // Next piece preview positioning
   private nextPieceX: number = 0;
   private nextPieceY: number = 0;
+  
+  // Hold piece box positioning (only used when hold is enabled)
+  private holdPieceX: number = 0;
+  private holdPieceY: number = 0;
+  
+  // Last rendered ghost position/shape, so the ghost is only rebuilt when it moves
+  private ghostKey: string | null = null;
 
   constructor() {
     super('EnhancedGame');
   }
 
-  init(data: { level?: number; mode?: 'campaign' | 'endless' } = {}) {
+  init(data: {
+    level?: number;
+    mode?: 'campaign' | 'endless';
+    modeId?: string;
+    seasonalLevel?: number;
+    seed?: number;
+    randomizer?: RandomizerType;
+  } = {}) {
     this.currentLevel = data.level || 1;
     this.gameMode = data.mode || 'campaign';
+    this.modeId = data.modeId || null;
+    this.seasonalLevel = data.seasonalLevel ?? null;
+    // Same seed + randomizer = same piece sequence, so a run can be rebuilt later
+    this.seed = data.seed ?? createSeed();
+    this.randomizerType = data.randomizer || '7-bag';
     this.isGameOver = false;
     this.isPaused = false;
     this.lastUpdateTime = 0;
     this.dropTimer = 0;
     this.activePowerUps.clear();
     this.hasShownWelcome = false;
+    this.ghostKey = null;
+    this.tetrisStreak = 0;
   }
 
   preload() {
@@ -129,10 +173,6 @@ export class EnhancedGame extends Scene {
     this.initializeManagers();
     console.log('✅ Managers initialized');
     
-    // Initialize enhanced scoring system
-    this.gameStartTime = Date.now();
-    this.lastSurvivalBonus = 0;
-    
     // Create visual containers
     this.createContainers();
     console.log('✅ Containers created');
@@ -164,12 +204,28 @@ export class EnhancedGame extends Scene {
   private initializeManagers(): void {
     // Core game managers
     this.gameStateManager = new GameStateManager(14, 20);
-    this.pieceManager = new PieceManager();
+    this.pieceManager = new PieceManager(this.seed, this.randomizerType);
     this.boardManager = new BoardManager(14, 20);
+    console.log(`🎲 Piece sequence seed: ${this.seed} (${this.randomizerType})`);
     this.themeManager = new ThemeManager(this);
+    this.settingsManager = new SettingsManager();
+    this.achievementManager = new AchievementManager();
+    this.effectsManager = new EffectsManager(this, this.themeManager);
+    
+    // Apply the requested game mode so its special rules (hold, ghost, ...) are enforced
+    this.difficultyManager = new DifficultyManager();
+    if (this.modeId && this.difficultyManager.setGameMode(this.modeId)) {
+      this.gameStateManager.updateState({ gameMode: this.difficultyManager.getCurrentMode() });
+    }
     
     // Environmental systems (simplified)
     this.seasonalManager = new SeasonalManager(this);
+    this.campaignLevel = this.gameMode === 'campaign' && !this.modeId && this.seasonalManager.setLevel(this.currentLevel)
+      ? this.seasonalManager.getCurrentLevel()
+      : null;
+    if (!this.campaignLevel && this.seasonalLevel !== null) {
+      this.seasonalManager.setLevel(this.seasonalLevel);
+    }
     this.waterLevelManager = new WaterLevelManager(this, 800, 600);
     
     // Initialize grace period from seasonal manager
@@ -180,6 +236,8 @@ export class EnhancedGame extends Scene {
     const initialRiseRate = this.seasonalManager.getCurrentWaterRiseRate();
     this.waterLevelManager.setRiseRate(initialRiseRate);
     
+    this.engine = this.createEngine();
+    
     // Layout system with minimal UI
     this.layoutSystem = new MobileFirstLayoutSystem(this, {
       enableResponsiveLayout: false,
@@ -189,6 +247,28 @@ export class EnhancedGame extends Scene {
     });
   }
 
+  /**
+   * Build the rules engine from the run's seed, the player's settings and the mode's special rules
+   */
+  private createEngine(): GameEngine {
+    const gameplay = this.settingsManager.getSettings().gameplay;
+    const modeLimit = this.gameStateManager.getState().gameMode?.specialRules?.lockResetLimit;
+    
+    return new GameEngine({
+      seed: this.seed,
+      randomizer: this.randomizerType,
+      width: 14,
+      height: 20,
+      previewCount: this.getNextPreviewCount(),
+      holdEnabled: this.isHoldEnabled(),
+      rotation180: gameplay.rotation180,
+      lockDelay: gameplay.lockDelay,
+      lockResetLimit: modeLimit ?? DEFAULT_LOCK_DELAY_CONFIG.maxResets,
+      waterGracePeriod: this.seasonalManager.getCurrentGracePeriod(),
+      waterRiseRate: this.seasonalManager.getCurrentWaterRiseRate()
+    });
+  }
+
   private createTimerParticleTexture(): void {
     // Create a simple white circle texture for timer particle effects
     const graphics = this.add.graphics();
@@ -258,7 +338,8 @@ export class EnhancedGame extends Scene {
         hapticFeedback: true,
         visualFeedback: true,
         layout: 'wood-dpad', // Use our new wood D-Pad layout
-        neonStyle: false // Use wood theme instead
+        neonStyle: false, // Use wood theme instead
+        showHoldButton: this.isHoldEnabled()
       });
       this.mobileControlsUI.create((action: InputAction) => {
         this.handleInput(action);
@@ -396,6 +477,33 @@ export class EnhancedGame extends Scene {
       nextPiecePanel,
       nextPieceTitle
     ]);
+    
+    // Hold box sits directly left of the next piece preview, same size
+    if (this.isHoldEnabled()) {
+      const holdPieceX = nextPieceX - nextPieceWidth - (isMobile ? 6 : 10);
+      const holdPieceY = nextPieceY;
+      
+      this.holdPieceX = holdPieceX + 8;
+      this.holdPieceY = holdPieceY + 25;
+      
+      const holdPiecePanel = this.add.graphics();
+      holdPiecePanel.lineStyle(3, 0x00FFFF, 0.3);
+      holdPiecePanel.strokeRoundedRect(holdPieceX - 2, holdPieceY - 2, nextPieceWidth + 4, nextPieceHeight + 4, 6);
+      
+      holdPiecePanel.fillStyle(0x0a1428, 0.95);
+      holdPiecePanel.lineStyle(2, 0x00FFFF, 0.8);
+      holdPiecePanel.fillRoundedRect(holdPieceX, holdPieceY, nextPieceWidth, nextPieceHeight, 4);
+      holdPiecePanel.strokeRoundedRect(holdPieceX, holdPieceY, nextPieceWidth, nextPieceHeight, 4);
+      
+      const holdPieceTitle = this.add.text(holdPieceX + nextPieceWidth/2, holdPieceY + 8, 'HOLD', {
+        fontSize: isMobile ? '10px' : '12px',
+        color: '#FFFF00',
+        fontFamily: 'Arial Black',
+        align: 'center'
+      }).setOrigin(0.5);
+      
+      this.uiContainer.add([holdPiecePanel, holdPieceTitle]);
+    }
   }
 
   private createFuturisticTimer(): void {
@@ -471,10 +579,27 @@ export class EnhancedGame extends Scene {
     const cursors = this.input.keyboard?.createCursorKeys();
     const wasd = this.input.keyboard?.addKeys('W,S,A,D,SPACE,UP,DOWN,LEFT,RIGHT');
     
+    // Hold and extra rotation keys come from the player's key bindings (e.g. 'KeyC' code or 'Shift' key name)
+    const keyBindings = this.settingsManager.getSettings().controls.keyboard;
+    const matches = (keys: string[], event: KeyboardEvent) => keys.includes(event.code) || keys.includes(event.key);
+    
     // Input handling
     this.input.keyboard?.on('keydown', (event: KeyboardEvent) => {
       if (this.isGameOver || this.isPaused) return;
       
+      if (matches(keyBindings.hold, event)) {
+        this.handleInput(InputAction.HOLD);
+        return;
+      }
+      if (matches(keyBindings.rotateLeft, event)) {
+        this.handleInput(InputAction.ROTATE_CCW);
+        return;
+      }
+      if (matches(keyBindings.rotate180, event)) {
+        this.handleInput(InputAction.ROTATE_180);
+        return;
+      }
+      
       switch (event.code) {
         case 'ArrowLeft':
         case 'KeyA':
@@ -490,7 +615,6 @@ export class EnhancedGame extends Scene {
           break;
         case 'ArrowUp':
         case 'KeyW':
-        case 'KeyZ':
         case 'KeyX':
           this.handleInput(InputAction.ROTATE);
           break;
@@ -523,6 +647,11 @@ export class EnhancedGame extends Scene {
       this.handleLevelFailure(data);
     });
     
+    // Theme changes alter ghost colors, so force the ghost to rebuild
+    this.events.on('pieces-refresh-needed', () => {
+      this.ghostKey = null;
+    });
+    
     // Listen for window resize to reposition timer
     this.scale.on('resize', this.handleResize, this);
   }
@@ -586,14 +715,6 @@ export class EnhancedGame extends Scene {
       return;
     }
     
-    // Only spawn a new piece if we don't have one
-    if (!currentState.currentPiece) {
-      console.log('🎲 No current piece - spawning new one');
-      this.spawnNewPiece();
-    } else {
-      console.log('✅ Current piece exists - continuing gameplay');
-    }
-    
     // Resume game timing
     this.lastUpdateTime = this.time.now;
     
@@ -616,28 +737,11 @@ export class EnhancedGame extends Scene {
     // This is called ONLY for initial game start - resets everything
     console.log('🎯 Starting actual gameplay (INITIAL START)...');
     
-    // Initialize game state with proper board
-    console.log('🏗️ Creating empty board');
-    const emptyBoard = this.boardManager.createEmptyBoard();
-    console.log('📊 Board created:', emptyBoard.length, 'x', emptyBoard[0].length);
-    
-    console.log('🔄 Updating game state');
-    this.gameStateManager.updateState({
-      board: emptyBoard,
-      currentPiece: null,
-      nextPiece: null,
-      isGameOver: false,
-      isPaused: false,
-      level: 1,
-      score: 0,
-      lines: 0
-    });
-    
-    console.log('✅ Game state initialized with board:', emptyBoard.length, 'x', emptyBoard[0].length);
-    
-    // Spawn first piece
+    // The engine owns the rules from here on; the state manager mirrors it for rendering
+    this.gameStateManager.updateState({ isGameOver: false, isPaused: false });
+    this.waterLevelManager.setAutoRise(false);
     console.log('🎲 Spawning first piece...');
-    this.spawnNewPiece();
+    this.handleEngineEvents(this.engine.start());
     
     // Start game loop
     console.log('⏰ Setting up game timing');
@@ -708,283 +812,189 @@ export class EnhancedGame extends Scene {
   }
 
   private handleInput(action: InputAction): void {
-    const state = this.gameStateManager.getState();
-    if (!state.currentPiece) return;
-    
-    let newPiece: GamePiece | null = null;
-    
-    switch (action) {
-      case InputAction.MOVE_LEFT:
-        newPiece = this.pieceManager.movePiece(state.currentPiece, -1, 0);
-        break;
-      case InputAction.MOVE_RIGHT:
-        newPiece = this.pieceManager.movePiece(state.currentPiece, 1, 0);
-        break;
-      case InputAction.SOFT_DROP:
-        newPiece = this.pieceManager.movePiece(state.currentPiece, 0, 1);
-        // Add soft drop efficiency bonus
-        const softDropBonus = 1; // 1 point per soft drop
-        this.gameStateManager.updateState({
-          score: state.score + softDropBonus
-        });
-        break;
-      case InputAction.ROTATE:
-        newPiece = this.pieceManager.rotatePiece(state.currentPiece);
-        break;
-      case InputAction.HARD_DROP:
-        this.hardDropPiece();
-        return;
-    }
-    
-    // Check if move is valid
-    if (newPiece && !this.pieceManager.checkCollision(newPiece, state.board)) {
-      this.gameStateManager.updateState({ currentPiece: newPiece });
-    }
+    if (!isEngineInput(action)) return;
+    this.handleEngineEvents(this.engine.step([action], 0));
   }
 
-  private spawnNewPiece(): void {
-    console.log('🎲 spawnNewPiece() called');
-    try {
-      const state = this.gameStateManager.getState();
-      console.log('📊 Current state:', { 
-        hasBoard: !!state.board, 
-        boardSize: state.board ? `${state.board.length}x${state.board[0]?.length}` : 'none',
-        hasCurrentPiece: !!state.currentPiece,
-        hasNextPiece: !!state.nextPiece
-      });
-      
-      // Ensure board exists and is valid
-      if (!state.board || state.board.length === 0) {
-        console.error('❌ Invalid board state');
-        return;
-      }
-      
-      // Use next piece or create new one
-      console.log('🎯 Creating new piece...');
-      let newPiece = state.nextPiece || this.pieceManager.createRandomPiece();
-      
-      // Ensure piece was created successfully
-      if (!newPiece) {
-        console.error('❌ Failed to create piece');
-        return;
-      }
-      
-      console.log('✅ Piece created:', newPiece.type);
-      
-      // Position piece at top center
-      newPiece.x = Math.floor(state.board[0].length / 2) - 1;
-      newPiece.y = 0;
-      console.log('📍 Positioned piece at:', newPiece.x, newPiece.y);
-      
-      // Check if spawn position is valid
-      if (this.pieceManager.checkCollision(newPiece, state.board)) {
-        console.log('💀 Game over - spawn position blocked');
-        this.handleGameOver('spawn_blocked');
-        return;
-      }
-      
-      // Create next piece
-      console.log('🔮 Creating next piece...');
-      const nextPiece = this.pieceManager.createRandomPiece();
-      
-      // Update state with error handling
-      console.log('🔄 Updating game state with new pieces');
-      this.gameStateManager.updateState({
-        currentPiece: newPiece,
-        nextPiece: nextPiece
-      });
-      
-      console.log('✅ Piece spawned successfully:', newPiece.type);
-    } catch (error) {
-      console.error('❌ Error spawning piece:', error);
+  /**
+   * Whether hold is available: a mode's special rule wins over the player's setting
+   */
+  private isHoldEnabled(): boolean {
+    const modeRule = this.gameStateManager.getState().gameMode?.specialRules?.holdPiece;
+    if (modeRule !== undefined) {
+      return modeRule;
     }
+    return this.settingsManager.getSetting('gameplay', 'holdPiece') as boolean;
   }
 
-  private hardDropPiece(): void {
-    const state = this.gameStateManager.getState();
-    if (!state.currentPiece) return;
-    
-    let dropDistance = 0;
-    let testPiece = { ...state.currentPiece };
-    
-    // Find lowest valid position
-    while (!this.pieceManager.checkCollision(testPiece, state.board)) {
-      dropDistance++;
-      testPiece = this.pieceManager.movePiece(testPiece, 0, 1);
-    }
-    
-    // Move to final position
-    const finalPiece = this.pieceManager.movePiece(state.currentPiece, 0, dropDistance - 1);
-    this.gameStateManager.updateState({ currentPiece: finalPiece });
+  /**
+   * Mirror the engine state into the state manager (rendering, UI) and the water display
+   */
+  private syncFromEngine(): void {
+    const engineState = this.engine.getState();
     
-    // Add hard drop efficiency bonus
-    const hardDropBonus = dropDistance * 2; // 2 points per row dropped
     this.gameStateManager.updateState({
-      score: state.score + hardDropBonus
+      board: engineState.board,
+      currentPiece: engineState.current ? this.toGamePiece(engineState.current) : null,
+      nextQueue: engineState.queue.map(kind => this.pieceManager.createPiece(kind as PieceType)),
+      heldPiece: engineState.hold ? this.pieceManager.createPiece(engineState.hold as PieceType) : null,
+      holdUsed: engineState.holdUsed,
+      score: engineState.score,
+      lines: engineState.lines,
+      level: engineState.level,
+      combo: engineState.combo,
+      backToBack: engineState.backToBack
     });
-    
-    console.log(`Hard Drop Bonus: +${hardDropBonus} points!`);
-    
-    // Place piece immediately
-    this.placePiece();
+    this.waterLevelManager.setLevel(engineState.water);
   }
 
-  private placePiece(): void {
-    const state = this.gameStateManager.getState();
-    if (!state.currentPiece) return;
-    
-    console.log('Placing piece. Current board valid:', !!state.board);
-    
-    // Place piece on board
-    const newBoard = this.pieceManager.placePiece(state.currentPiece, state.board);
-    console.log('New board after placing piece:', !!newBoard);
-    
-    // Check for line clears with error handling
-    let clearedBoard = newBoard;
-    let linesCleared = 0;
-    
-    console.log('Board before line clearing - bottom 5 rows:');
-    for (let i = Math.max(0, newBoard.length - 5); i < newBoard.length; i++) {
-      console.log(`Row ${i}:`, newBoard[i]);
-    }
+  private toGamePiece(piece: EnginePiece): GamePiece {
+    return {
+      shape: piece.shape,
+      x: piece.x,
+      y: piece.y,
+      color: piece.color,
+      type: piece.kind as PieceType,
+      rotation: piece.rotation
+    };
+  }
+
+  /**
+   * React to what the engine did this step: effects, messages, stats and game over
+   */
+  private handleEngineEvents(events: EngineEvent[]): void {
+    this.syncFromEngine();
     
-    try {
-      if (this.boardManager && this.boardManager.clearLines) {
-        const result = this.boardManager.clearLines(newBoard);
-        if (result && result.newBoard) {
-          clearedBoard = result.newBoard;
-          linesCleared = result.clearedLines || 0;
-          console.log('BoardManager cleared lines:', linesCleared);
-        }
-      } else {
-        console.warn('BoardManager not available, using simple line clearing');
-        // Simple line clearing fallback
-        const result = this.simpleLineClear(newBoard);
-        clearedBoard = result.board;
-        linesCleared = result.linesCleared;
+    for (const event of events) {
+      switch (event.type) {
+        case 'lock':
+          this.handlePieceLocked(event);
+          break;
+        case 'survivalBonus':
+          console.log(`Survival Bonus: +${event.points} points! (${event.minutes} minutes)`);
+          this.createSurvivalBonusEffect(event.points);
+          break;
+        case 'gameOver':
+          if (event.reason === 'water_level') {
+            this.triggerGameOver('water_level');
+          } else {
+            console.log('💀 Game over - spawn position blocked');
+            this.handleGameOver('spawn_blocked');
+          }
+          break;
       }
-    } catch (error) {
-      console.error('Error in line clearing:', error);
-      // Use the board as-is if line clearing fails
-      clearedBoard = newBoard;
-      linesCleared = 0;
     }
-    
-    console.log('Final board after line clearing:', !!clearedBoard);
-    console.log('Lines cleared result:', linesCleared);
-    
-    // Update score
-    const points = this.calculateScore(linesCleared);
-    const newScore = state.score + points;
-    const newLines = state.lines + linesCleared;
+  }
+
+  private handlePieceLocked(lock: LockEvent): void {
+    const state = this.gameStateManager.getState();
+    const previousLines = state.lines - lock.linesCleared;
     
     // Create placement effects
-    this.createPlacementEffects(state.currentPiece);
-    
-    // Update game state
-    this.gameStateManager.updateState({
-      board: clearedBoard,
-      currentPiece: null,
-      score: newScore,
-      lines: newLines
-    });
+    this.createPlacementEffects(this.toGamePiece(lock.piece));
+    if (lock.tSpin !== 'none') {
+      this.recordTSpin(lock.tSpin, lock.linesCleared, state.board);
+    }
+    this.recordChainStats(lock.combo, lock.linesCleared);
     
     // FIXED: Mark board as dirty so it gets redrawn
     this.boardDirty = true;
+    this.updateGameUI(state);
     
-    // Update UI with new score and lines
-    const updatedState = this.gameStateManager.getState();
-    this.updateGameUI(updatedState);
-    
-    // Trigger line clear events
-    if (linesCleared > 0) {
-      console.log('Lines cleared:', linesCleared);
-      
-      // NEW: Lower water level when lines are cleared
-      // Each cleared line reduces water level by 10% (main defense!)
-      const waterReduction = linesCleared * 0.1; // 10% per line cleared
-      this.waterLevelManager.lowerWater(waterReduction);
+    if (lock.linesCleared > 0) {
+      console.log('Lines cleared:', lock.linesCleared);
       
       // Create celebration splash effect
-      this.waterLevelManager.createSplash(400, 300, linesCleared * 0.5);
+      this.waterLevelManager.createSplash(400, 300, lock.linesCleared * 0.5);
+      
+      if (lock.perfectClear) {
+        this.celebratePerfectClear(state.board);
+      }
       
-      const message = this.getBeaverMessage(linesCleared);
-      console.log('Beaver message:', message);
-      this.events.emit('lines-cleared', linesCleared);
+      const message = this.getBeaverMessage(lock.linesCleared);
+      this.events.emit('lines-cleared', lock.linesCleared);
       this.showBeaverMessage(message);
       
       // Show story elements at milestones (check if we've reached or passed the milestone)
-      if (newLines >= 10 && state.lines < 10) {
+      if (state.lines >= 10 && previousLines < 10) {
         this.showMilestoneStory(10);
-      } else if (newLines >= 25 && state.lines < 25) {
+      } else if (state.lines >= 25 && previousLines < 25) {
         this.showMilestoneStory(25);
       }
       
-      console.log('Water reduced by:', waterReduction, 'Current water level:', this.waterLevelManager.getCurrentLevel());
+      const targetLines = this.getTargetLines();
+      if (targetLines !== null && state.lines >= targetLines && previousLines < targetLines) {
+        this.completeRun(state.lines, targetLines);
+      }
     }
-    
-    // Spawn next piece
-    this.spawnNewPiece();
   }
 
+  /**
+   * Lines that finish the run: Sprint's target, or the campaign level's
+   */
+  private getTargetLines(): number | null {
+    const modeTarget = this.gameStateManager.getState().gameMode?.specialRules?.targetLines;
+    return modeTarget ?? this.campaignLevel?.targetLines ?? null;
+  }
 
-  private simpleLineClear(board: number[][]): { board: number[][], linesCleared: number } {
-    const newBoard = board.map(row => [...row]);
-    let linesCleared = 0;
-    
-    console.log('Checking for line clears...');
-    console.log('Board dimensions:', newBoard.length, 'x', newBoard[0]?.length);
-    
-    // Check each row from bottom to top
-    for (let y = newBoard.length - 1; y >= 0; y--) {
-      const row = newBoard[y];
-      const nonZeroCells = row.filter(cell => cell !== 0).length;
-      const isFull = row.every(cell => cell !== 0);
-      
-      console.log(`Row ${y}:`, row.slice(0, 5), '...', `Non-zero cells: ${nonZeroCells}/${row.length}`, 'Full:', isFull);
-      
-      // Check if row is full
-      if (isFull) {
-        console.log(`Clearing full row ${y}`);
-        // Remove the full row
-        newBoard.splice(y, 1);
-        // Add empty row at top
-        newBoard.unshift(Array(newBoard[0]?.length || 10).fill(0));
-        linesCleared++;
-        y++; // Check the same row again since we shifted everything down
-      }
+  /**
+   * End a run that reached its line target; a campaign level is rated in stars
+   */
+  private completeRun(lines: number, targetLines: number): void {
+    if (this.campaignLevel) {
+      const stars = getStarRating(this.engine.getState().elapsed, lines, targetLines);
+      this.handleGameOver('level_complete', { globalLevel: this.campaignLevel.globalLevel, stars });
+    } else {
+      this.handleGameOver('target_reached');
     }
-    
-    console.log('Lines cleared:', linesCleared);
-    return { board: newBoard, linesCleared };
   }
 
-  private calculateScore(linesCleared: number): number {
-    // Enhanced line clear scoring - much more rewarding!
-    const enhancedBasePoints = [0, 200, 600, 1200, 2000]; // Doubled base points
-    const levelMultiplier = this.gameStateManager.getState().level;
-    
-    let score = (enhancedBasePoints[linesCleared] || 0) * levelMultiplier;
-    
-    // Apply seasonal score multiplier
-    score *= this.seasonalScoreMultiplier;
-    
-    // Water level risk/reward bonus - higher water = more points!
-    const waterLevel = this.waterLevelManager.getCurrentLevel();
-    let waterBonus = 0;
-    if (waterLevel > 0.25) waterBonus += 50;  // 26-50% water
-    if (waterLevel > 0.50) waterBonus += 100; // 51-75% water  
-    if (waterLevel > 0.75) waterBonus += 200; // 76-90% water
-    if (waterLevel > 0.90) waterBonus += 500; // 91-99% water (danger zone!)
+
+  /**
+   * Count a T-spin towards achievements and show its callout over the board
+   */
+  private recordTSpin(tSpin: Exclude<SpinType, 'none'>, linesCleared: number, board: number[][]): void {
+    const stats = this.achievementManager.getGameStats();
+    this.achievementManager.updateStats(
+      tSpin === 'full' ? { tSpins: stats.tSpins + 1 } : { miniTSpins: stats.miniTSpins + 1 }
+    );
     
-    score += waterBonus * linesCleared; // Bonus per line cleared
+    const centerX = this.boardX + ((board[0]?.length ?? 0) * this.blockSize) / 2;
+    const centerY = this.boardY + (board.length * this.blockSize) / 3;
+    this.effectsManager.createSpinCallout(getSpinLabel(tSpin, linesCleared), centerX, centerY);
+  }
+
+  /**
+   * Empty board: count it and throw the biggest celebration (the engine drains the extra water)
+   */
+  private celebratePerfectClear(board: number[][]): void {
+    const stats = this.achievementManager.getGameStats();
+    this.achievementManager.updateStats({ perfectClears: stats.perfectClears + 1 });
     
-    // Tetris bonus (4 lines at once)
-    if (linesCleared === 4) {
-      score += 1000; // Massive Tetris bonus!
+    const centerX = this.boardX + ((board[0]?.length ?? 0) * this.blockSize) / 2;
+    const centerY = this.boardY + (board.length * this.blockSize) / 2;
+    this.effectsManager.createCelebration({ type: 'perfect-clear', intensity: 'high' }, centerX, centerY);
+  }
+
+  /**
+   * Persist the best combo and tetris streak reached so far
+   */
+  private recordChainStats(combo: number, linesCleared: number): void {
+    if (linesCleared > 0) {
+      this.tetrisStreak = linesCleared === 4 ? this.tetrisStreak + 1 : 0;
     }
     
-    return Math.floor(score);
+    const stats = this.achievementManager.getGameStats();
+    const updates: { maxCombo?: number; consecutiveTetrises?: number } = {};
+    if (combo > stats.maxCombo) {
+      updates.maxCombo = combo;
+    }
+    if (this.tetrisStreak > stats.consecutiveTetrises) {
+      updates.consecutiveTetrises = this.tetrisStreak;
+    }
+    if (Object.keys(updates).length > 0) {
+      this.achievementManager.updateStats(updates);
+    }
   }
 
   private createPlacementEffects(piece: GamePiece): void {
@@ -1124,16 +1134,15 @@ export class EnhancedGame extends Scene {
       this.inputDelayMs = modifiers.controlDelayMs;
     }
     
-    // Apply score multipliers
+    // Score multiplier, water speed and preview length are engine rules
+    const engineOptions: EngineOptions = { previewCount: this.getNextPreviewCount() };
     if (modifiers.scoreMultiplier) {
-      this.seasonalScoreMultiplier = modifiers.scoreMultiplier;
+      engineOptions.scoreMultiplier = modifiers.scoreMultiplier;
     }
-    
-    // Apply water rise rate changes
     if (modifiers.waterRiseMultiplier) {
-      const currentRiseRate = this.seasonalManager.getCurrentWaterRiseRate();
-      this.waterLevelManager.setRiseRate(currentRiseRate * modifiers.waterRiseMultiplier);
+      engineOptions.waterRiseRate = this.seasonalManager.getCurrentWaterRiseRate() * modifiers.waterRiseMultiplier;
     }
+    this.engine.setConfig(engineOptions);
     
     // Update input delay timer
     if (this.inputDelayMs > 0) {
@@ -1144,52 +1153,6 @@ export class EnhancedGame extends Scene {
     }
   }
 
-  /**
-   * Check if water level has reached game over condition
-   */
-  private checkWaterLevelGameOver(): void {
-    const waterLevel = this.waterLevelManager.getCurrentLevel();
-    if (waterLevel >= 1.0) {
-      this.triggerGameOver('water_level');
-    }
-  }
-
-  /**
-   * Update survival bonuses - reward players for staying alive
-   */
-  private updateSurvivalBonuses(): void {
-    const currentTime = Date.now();
-    const gameTime = currentTime - this.gameStartTime;
-    
-    // Check if enough time has passed for a survival bonus
-    if (gameTime - this.lastSurvivalBonus >= this.survivalBonusInterval) {
-      this.lastSurvivalBonus = gameTime;
-      
-      // Calculate survival bonus based on time survived
-      let survivalBonus = 0;
-      const minutesSurvived = Math.floor(gameTime / 60000);
-      
-      if (minutesSurvived >= 1) survivalBonus += 100;  // 1 minute
-      if (minutesSurvived >= 2) survivalBonus += 250;  // 2 minutes  
-      if (minutesSurvived >= 5) survivalBonus += 500;   // 5 minutes
-      if (minutesSurvived >= 10) survivalBonus += 1000; // 10 minutes
-      
-      if (survivalBonus > 0) {
-        // Add bonus to score
-        const state = this.gameStateManager.getState();
-        this.gameStateManager.updateState({
-          score: state.score + survivalBonus
-        });
-        
-        // Show survival bonus message
-        console.log(`Survival Bonus: +${survivalBonus} points! (${minutesSurvived} minutes)`);
-        
-        // Create visual effect for survival bonus
-        this.createSurvivalBonusEffect(survivalBonus);
-      }
-    }
-  }
-
   /**
    * Trigger game over with specific reason
    */
@@ -1290,6 +1253,39 @@ export class EnhancedGame extends Scene {
     restartButton.on('pointerout', () => {
       restartButton.setColor('#00FFFF');
     });
+
+    const replayButton = this.add.text(width / 2, height / 2 + 180, '🎬 Watch Replay', {
+      fontSize: '18px',
+      color: '#CE93D8',
+      fontFamily: 'Arial Black',
+      stroke: '#000000',
+      strokeThickness: 2
+    }).setOrigin(0.5);
+    replayButton.setDepth(201);
+    replayButton.setInteractive();
+
+    replayButton.on('pointerdown', () => {
+      const data: ReplaySceneData = {
+        replay: this.buildReplay(),
+        returnTo: { scene: 'LevelSelect' }
+      };
+      this.scene.start('Replay', data);
+    });
+
+    replayButton.on('pointerover', () => {
+      replayButton.setColor('#FFFFFF');
+    });
+
+    replayButton.on('pointerout', () => {
+      replayButton.setColor('#CE93D8');
+    });
+  }
+
+  /**
+   * Snapshot the engine's journal so the run can be watched back
+   */
+  private buildReplay(): ReplayData {
+    return createReplay(this.engine, { mode: this.modeId ?? this.gameMode, level: this.currentLevel });
   }
 
   update(time: number, delta: number): void {
@@ -1319,19 +1315,13 @@ export class EnhancedGame extends Scene {
     //   console.log(`🔄 MAIN UPDATE: Frame ${this.frameCount}, delta=${frameDelta.toFixed(2)}, time=${time}`);
     // }
     
-    // OPTIMIZED: Core game logic only
-    this.updatePieceDrop(frameDelta);
+    // Core game logic: gravity, lock delay, water and bonuses all live in the engine
+    this.handleEngineEvents(this.engine.step([], frameDelta));
     
     // OPTIMIZED: Reduce environmental updates (every 3rd frame)
     if (this.frameCount % 3 === 0) {
       this.updateEnvironmentalSystems(frameDelta);
       this.applySeasonalEffects(frameDelta);
-      this.updateSurvivalBonuses();
-    }
-    
-    // OPTIMIZED: Check game over conditions less frequently
-    if (this.frameCount % 10 === 0) {
-      this.checkWaterLevelGameOver();
     }
     
     // Update timer
@@ -1347,35 +1337,6 @@ export class EnhancedGame extends Scene {
     }
   }
 
-  private updatePieceDrop(delta: number): void {
-    const state = this.gameStateManager.getState();
-    if (!state.currentPiece) {
-      return;
-    }
-    
-    // OPTIMIZED: Simple, efficient timing system
-    this.dropCounter += delta;
-    
-    // Calculate drop interval based on level (simplified)
-    const levelDropInterval = Math.max(200, this.dropInterval - (state.level * 50));
-    
-    if (this.dropCounter >= levelDropInterval) {
-      this.dropCounter = 0;
-      
-      // Move piece down
-      const newPiece = this.pieceManager.movePiece(state.currentPiece, 0, 1);
-      
-      // Check collision
-      if (this.pieceManager.checkCollision(newPiece, state.board)) {
-        // Piece can't move down, place it
-        this.placePiece();
-      } else {
-        // Update piece position
-        this.gameStateManager.updateState({ currentPiece: newPiece });
-      }
-    }
-  }
-
   // REMOVED: updatePowerUps method to reduce performance overhead
 
   private updateEnvironmentalEffects(): void {
@@ -1392,14 +1353,7 @@ export class EnhancedGame extends Scene {
         break;
       case HazardType.WIND_GUST:
         // Slightly push current piece
-        const state = this.gameStateManager.getState();
-        if (state.currentPiece) {
-          const direction = Math.random() < 0.5 ? -1 : 1;
-          const pushedPiece = this.pieceManager.movePiece(state.currentPiece, direction, 0);
-          if (!this.pieceManager.checkCollision(pushedPiece, state.board)) {
-            this.gameStateManager.updateState({ currentPiece: pushedPiece });
-          }
-        }
+        this.handleEngineEvents(this.engine.step([Math.random() < 0.5 ? 'MOVE_LEFT' : 'MOVE_RIGHT'], 0));
         break;
     }
   }
@@ -1431,7 +1385,7 @@ export class EnhancedGame extends Scene {
     
     switch (type) {
       case PowerUpType.WATER_PUMP:
-        this.waterLevelManager.lowerWater(0.2); // Lower by 20%
+        this.engine.lowerWater(0.2); // Lower by 20%
         break;
       case PowerUpType.BEAVER_HELPER:
         // Auto-place next few pieces optimally
@@ -1850,6 +1804,14 @@ export class EnhancedGame extends Scene {
     this.scoreText.setText(`SCORE: ${formattedScore}`);
     this.levelText.setText(`LEVEL: ${formattedLevel}`);
     this.linesText.setText(`LINES: ${formattedLines}`);
+    
+    this.layoutSystem.updateGameInfo({
+      score: state.score,
+      level: state.level,
+      lines: state.lines,
+      combo: state.combo,
+      backToBack: state.backToBack
+    });
   }
 
   private updateSeasonalUI(envState: EnvironmentalState): void {
@@ -1928,17 +1890,29 @@ export class EnhancedGame extends Scene {
     this.handleGameOver(data.reason);
   }
 
-  private handleGameOver(reason: string): void {
+  private handleGameOver(reason: string, details: RunDetails = {}): void {
     this.isGameOver = true;
     
     const state = this.gameStateManager.getState();
+    const modeId = parseLeaderboardMode(this.modeId ?? this.gameMode);
+    const run: RunDetails = {
+      ...(modeId && { modeId }),
+      time: this.engine.getState().elapsed,
+      ...details
+    };
     
-    // Show game over screen
+    // Back up the run's progress and achievements to the cloud profile
+    void ProfileSyncManager.getInstance().sync();
+    
+    // Show game over screen. The level submitted is the speed level reached; a completed
+    // campaign level goes with the run details
     this.scene.start('GameOver', {
       score: state.score,
-      level: this.currentLevel,
+      level: state.level,
       lines: state.lines,
-      reason: reason
+      reason: reason,
+      replay: this.buildReplay(),
+      run
     });
   }
 
@@ -2214,8 +2188,13 @@ export class EnhancedGame extends Scene {
       }
     }
     
-    // Render next piece preview
+    // Landing preview for the falling piece
+    this.renderGhostPiece(state);
+    
+    // Render next piece preview and hold box (both share the UI graphics layer)
+    this.uiGraphics.clear();
     this.renderNextPiecePreview(state);
+    this.renderHoldPiecePreview(state);
   }
 
   /**
@@ -2309,38 +2288,126 @@ export class EnhancedGame extends Scene {
     }
   }
 
-  private renderNextPiecePreview(state: any): void {
-    if (!state.nextPiece) return;
-    
-    // Clear the UI graphics to prevent outdated preview blocks from accumulating
-    this.uiGraphics.clear();
+  /**
+   * How many upcoming pieces to show: the player's setting, plus one while an extra-preview critter is around
+   */
+  private getNextPreviewCount(): number {
+    const setting = this.settingsManager.getSettings().gameplay.showNextPieces;
+    const bonus = this.seasonalManager.isWildlifeInteractionActive(WildlifeInteraction.EXTRA_PREVIEW) ? 1 : 0;
+    return Math.max(1, Math.min(6, setting + bonus));
+  }
+
+  private renderNextPiecePreview(state: Readonly<GameState>): void {
+    const [firstPiece, ...queuedPieces] = state.nextQueue.slice(0, this.getNextPreviewCount());
+    if (!firstPiece) return;
     
-    const { width } = this.scale;
+    const { width, height } = this.scale;
     const isMobile = width < 600;
-    const previewBlockSize = isMobile ? 12 : 15; // Smaller blocks for preview
+    const areaWidth = isMobile ? 80 : 90;
+    const areaHeight = isMobile ? 40 : 50;
+    const layout = this.layoutSystem.getUIComponents().layoutManager
+      .calculateNextQueueLayout(width, height, state.nextQueue.length);
+    
+    this.drawPreviewPiece(firstPiece, this.nextPieceX, this.nextPieceY, areaWidth, areaHeight, layout.firstBlockSize);
+    
+    // Later pieces hang below the NEXT panel in a tray sized to the queue
+    const trayY = this.nextPieceY + areaHeight + 12;
+    const trayHeight = queuedPieces.length * layout.slotHeight;
+    if (queuedPieces.length > 0) {
+      this.uiGraphics.fillStyle(0x0a1428, 0.95);
+      this.uiGraphics.lineStyle(2, 0x00FFFF, 0.8);
+      this.uiGraphics.fillRoundedRect(this.nextPieceX - 8, trayY - 4, areaWidth + 16, trayHeight + 8, 4);
+      this.uiGraphics.strokeRoundedRect(this.nextPieceX - 8, trayY - 4, areaWidth + 16, trayHeight + 8, 4);
+    }
+    queuedPieces.forEach((piece, index) => {
+      this.drawPreviewPiece(piece, this.nextPieceX, trayY + index * layout.slotHeight, areaWidth, layout.slotHeight, layout.queueBlockSize);
+    });
     
-    const piece = state.nextPiece;
+    // Falling leaves pile over the whole preview while the hazard lasts
+    if (this.seasonalManager.isHazardActive(HazardType.FALLING_LEAVES)) {
+      const intensity = this.seasonalManager.getActiveHazardIntensity(HazardType.FALLING_LEAVES);
+      const coverHeight = (queuedPieces.length > 0 ? trayY + trayHeight + 4 : this.nextPieceY + areaHeight) - this.nextPieceY;
+      this.uiGraphics.fillStyle(0x8B4513, Math.min(0.95, 0.55 + intensity));
+      this.uiGraphics.fillRect(this.nextPieceX - 4, this.nextPieceY - 4, areaWidth + 8, coverHeight + 8);
+      this.uiGraphics.fillStyle(0xFF6347, 0.8);
+      for (let leafY = this.nextPieceY + 6; leafY < this.nextPieceY + coverHeight; leafY += 18) {
+        this.uiGraphics.fillEllipse(this.nextPieceX + ((leafY * 37) % areaWidth), leafY, 10, 6);
+      }
+    }
+  }
+
+  private drawPreviewPiece(piece: GamePiece, areaX: number, areaY: number, areaWidth: number, areaHeight: number, blockSize: number): void {
+    // Center the piece in its preview slot
+    const offsetX = (areaWidth - (piece.shape[0]?.length ?? 0) * blockSize) / 2;
+    const offsetY = (areaHeight - piece.shape.length * blockSize) / 2;
+    
+    piece.shape.forEach((row, y) => {
+      row.forEach((cell, x) => {
+        if (cell !== 0) {
+          this.drawWoodBlock(this.uiGraphics, areaX + offsetX + x * blockSize, areaY + offsetY + y * blockSize, blockSize, 'preview');
+        }
+      });
+    });
+  }
+
+  /**
+   * Whether the ghost piece is shown: a mode's special rule wins over the player's setting
+   */
+  private isGhostEnabled(): boolean {
+    const modeRule = this.gameStateManager.getState().gameMode?.specialRules?.ghostPieces;
+    if (modeRule !== undefined) {
+      return modeRule;
+    }
+    return this.settingsManager.getSetting('visual', 'showGhost') as boolean;
+  }
+
+  private renderGhostPiece(state: Readonly<GameState>): void {
+    const piece = state.currentPiece;
+    
+    if (!piece || !this.isGhostEnabled()) {
+      this.pieceRenderer.getPieceContainer('ghost')?.setVisible(false);
+      this.ghostKey = null;
+      return;
+    }
     
-    // Calculate centering offset
-    const pieceWidth = piece.shape[0].length * previewBlockSize;
-    const pieceHeight = piece.shape.length * previewBlockSize;
+    const dropY = this.boardManager.findDropPosition(piece, state.board);
+    const highContrast = this.settingsManager.getSetting('accessibility', 'highContrast') as boolean;
+    const ghostKey = `${piece.x},${dropY},${highContrast},${JSON.stringify(piece.shape)}`;
+    
+    // Only rebuild the ghost when the piece moved, rotated or the landing spot changed
+    if (ghostKey === this.ghostKey) {
+      return;
+    }
+    this.ghostKey = ghostKey;
+    
+    const ghost = this.pieceRenderer.renderGhostPiece(
+      piece,
+      this.boardX + piece.x * this.blockSize,
+      this.boardY + dropY * this.blockSize,
+      { blockSize: this.blockSize, highContrast }
+    );
+    
+    // Keep the ghost between the placed blocks and the falling piece
+    if (ghost.parentContainer !== this.gameContainer) {
+      this.gameContainer.addAt(ghost, this.gameContainer.getIndex(this.pieceGraphics));
+    }
+  }
+
+  private renderHoldPiecePreview(state: Readonly<GameState>): void {
+    if (!state.heldPiece || !this.isHoldEnabled()) return;
+    
+    const { width } = this.scale;
+    const isMobile = width < 600;
+    const previewBlockSize = isMobile ? 12 : 15;
     const areaWidth = isMobile ? 80 : 90;
     const areaHeight = isMobile ? 40 : 50;
-    const offsetX = (areaWidth - pieceWidth) / 2;
-    const offsetY = (areaHeight - pieceHeight) / 2;
-    
-    for (let y = 0; y < piece.shape.length; y++) {
-      for (let x = 0; x < piece.shape[y].length; x++) {
-        if (piece.shape[y][x] !== 0) {
-          this.drawWoodBlock(
-            this.uiGraphics,
-            this.nextPieceX + offsetX + x * previewBlockSize,
-            this.nextPieceY + offsetY + y * previewBlockSize,
-            previewBlockSize,
-            'preview'
-          );
-        }
-      }
+    
+    this.drawPreviewPiece(state.heldPiece, this.holdPieceX, this.holdPieceY, areaWidth, areaHeight, previewBlockSize);
+    
+    // Dim the held piece until the next placement re-enables hold
+    if (state.holdUsed) {
+      this.uiGraphics.fillStyle(0x0a1428, 0.6);
+      this.uiGraphics.fillRect(this.holdPieceX, this.holdPieceY, areaWidth, areaHeight);
     }
   }
 
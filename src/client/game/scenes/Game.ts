@@ -3,6 +3,10 @@ import * as Phaser from 'phaser';
 import { MobileFirstLayoutSystem } from '../managers/MobileFirstLayoutSystem';
 import { MobileControlsUI } from '../ui/MobileControlsUI';
 import { InputAction } from '../managers/InputManager';
+import { SettingsManager } from '../managers/SettingsManager';
+import { createSeed } from '../../../shared/game/Randomizer';
+import { GameEngine, EngineEvent, LockEvent, CLASSIC_ENGINE_RULES, isEngineInput } from '../../../shared/game/GameEngine';
+import { createReplay } from '../../../shared/game/Replay';
 
 // Tetris piece shapes (tetrominos) as wood logs and branches
 const PIECES = {
@@ -99,10 +103,11 @@ export class Game extends Scene {
   private nextPiece: Piece | null = null;
   
   // Game timing
-  private dropTimer = 0;
-  private dropInterval = 800; // milliseconds
   private lastTime = 0;
   
+  // Rules engine; the board and piece fields above mirror its state for rendering
+  private engine!: GameEngine;
+  
   // Beaver character
   private beaver!: Phaser.GameObjects.Image;
   private beaverContainer!: Phaser.GameObjects.Container;
@@ -154,8 +159,8 @@ export class Game extends Scene {
     this.nextPiece = null;
     this.currentX = 0;
     this.currentY = 0;
-    this.dropTimer = 0;
     this.lastTime = 0;
+    this.engine = this.createEngine();
     this.lastEncouragementTime = 0;
     this.piecesPlaced = 0;
     
@@ -178,6 +183,28 @@ export class Game extends Scene {
     console.log('🎮 Game state reset for new game');
   }
 
+  /**
+   * Classic rules: pure random pieces, no hold, no water and plain line clear scoring
+   */
+  private createEngine(): GameEngine {
+    return new GameEngine({
+      ...CLASSIC_ENGINE_RULES,
+      seed: createSeed(),
+      width: this.boardWidth,
+      height: this.boardHeight,
+      lockDelay: new SettingsManager().getSettings().gameplay.lockDelay,
+      colors: {
+        I: PIECES.I.color,
+        O: PIECES.O.color,
+        T: PIECES.T.color,
+        S: PIECES.S.color,
+        Z: PIECES.Z.color,
+        J: PIECES.J.color,
+        L: PIECES.L.color
+      }
+    });
+  }
+
   create() {
     // Detect mobile device
     this.isMobileDevice = this.sys.game.device.os.android || 
@@ -204,20 +231,10 @@ export class Game extends Scene {
     
     // Start the game
     console.log('🎮 Starting new game - spawning first piece');
-    this.spawnNewPiece();
+    this.handleEngineEvents(this.engine.start());
     this.lastTime = this.time.now;
     this.lastEncouragementTime = this.time.now;
     
-    // Ensure we have a current piece
-    if (!this.currentPiece) {
-      console.log('⚠️ No current piece after spawn, retrying...');
-      this.time.delayedCall(100, () => {
-        this.spawnNewPiece();
-      });
-    } else {
-      console.log('✅ First piece spawned successfully:', this.currentPiece.name);
-    }
-    
     // Initial welcome message from beaver
     this.time.delayedCall(1000, () => {
       this.showRandomEncouragement("Welcome! Let's build a dam together!");
@@ -677,25 +694,8 @@ export class Game extends Scene {
   // Removed separate beaver display - using main beaver with messages instead
 
   private handleGameAction(action: InputAction): void {
-    if (this.isGameOver) return;
-    
-    switch (action) {
-      case InputAction.MOVE_LEFT:
-        this.movePiece(-1, 0);
-        break;
-      case InputAction.MOVE_RIGHT:
-        this.movePiece(1, 0);
-        break;
-      case InputAction.SOFT_DROP:
-        this.movePiece(0, 1);
-        break;
-      case InputAction.ROTATE:
-        this.rotatePiece();
-        break;
-      case InputAction.HARD_DROP:
-        this.hardDrop();
-        break;
-    }
+    if (this.isGameOver || !isEngineInput(action)) return;
+    this.handleEngineEvents(this.engine.step([action], 0));
   }
 
   private applyMobileFirstLayout(): void {
@@ -723,53 +723,43 @@ export class Game extends Scene {
 
   // Old mobile controls methods removed - using enhanced mobile controls instead
 
-  private spawnNewPiece() {
-    console.log('🎯 Spawning new piece...');
-    const pieceKeys = Object.keys(PIECES) as (keyof typeof PIECES)[];
-    console.log('📦 Available pieces:', pieceKeys.length);
-    
-    if (pieceKeys.length === 0) {
-      console.log('❌ No pieces available!');
-      return;
-    }
+  /**
+   * Copy the engine state into the fields the renderer and UI read
+   */
+  private syncFromEngine(): void {
+    const state = this.engine.getState();
+    const next = state.queue[0];
+    
+    this.board = state.board;
+    this.currentPiece = state.current
+      ? { shape: state.current.shape, color: state.current.color, name: PIECES[state.current.kind].name }
+      : null;
+    this.currentX = state.current?.x ?? 0;
+    this.currentY = state.current?.y ?? 0;
+    this.nextPiece = next ? { ...PIECES[next] } : null;
+    this.gameState = { score: state.score, level: state.level, lines: state.lines };
+  }
+
+  private handleEngineEvents(events: EngineEvent[]): void {
+    this.syncFromEngine();
     
-    const randomIndex = Math.floor(Math.random() * pieceKeys.length);
-    const randomKey = pieceKeys[randomIndex];
-    console.log('🎲 Selected piece:', randomKey);
-    
-    if (!this.nextPiece && randomKey) {
-      this.currentPiece = { ...PIECES[randomKey] };
-      console.log('🆕 Created first piece:', this.currentPiece.name);
-      const nextIndex = Math.floor(Math.random() * pieceKeys.length);
-      const nextKey = pieceKeys[nextIndex];
-      if (nextKey) {
-        this.nextPiece = { ...PIECES[nextKey] };
-        console.log('🔮 Created next piece:', this.nextPiece.name);
-      }
-    } else {
-      this.currentPiece = this.nextPiece;
-      console.log('🔄 Using next piece as current:', this.currentPiece?.name);
-      const nextIndex = Math.floor(Math.random() * pieceKeys.length);
-      const nextKey = pieceKeys[nextIndex];
-      if (nextKey) {
-        this.nextPiece = { ...PIECES[nextKey] };
-        console.log('🔮 Created new next piece:', this.nextPiece.name);
+    for (const event of events) {
+      switch (event.type) {
+        case 'spawn':
+          this.updateNextPieceDisplay();
+          break;
+        case 'lock':
+          this.handlePieceLocked(event);
+          break;
+        case 'levelUp':
+          this.layoutSystem?.animateLevelUp();
+          break;
+        case 'gameOver':
+          console.log('💀 Game over - piece collides at spawn position');
+          this.gameOver();
+          break;
       }
     }
-    
-    this.currentX = Math.floor(this.boardWidth / 2) - 1;
-    this.currentY = 0;
-    console.log('📍 Positioned piece at:', this.currentX, this.currentY);
-    
-    // Check for game over
-    if (this.currentPiece && this.checkCollision(this.currentPiece.shape, this.currentX, this.currentY)) {
-      console.log('💀 Game over - piece collides at spawn position');
-      this.gameOver();
-      return;
-    }
-    
-    console.log('✅ Piece spawned successfully');
-    this.updateNextPieceDisplay();
   }
 
   private updateNextPieceDisplay() {
@@ -778,92 +768,21 @@ export class Game extends Scene {
     }
   }
 
-  private checkCollision(shape: number[][], x: number, y: number): boolean {
-    for (let py = 0; py < shape.length; py++) {
-      for (let px = 0; px < shape[py].length; px++) {
-        if (shape[py][px]) {
-          const newX = x + px;
-          const newY = y + py;
-          
-          if (newX < 0 || newX >= this.boardWidth || 
-              newY >= this.boardHeight || 
-              (newY >= 0 && this.board[newY][newX])) {
-            return true;
-          }
-        }
-      }
-    }
-    return false;
-  }
-
-  private placePiece() {
-    if (!this.currentPiece) return;
-    
-    for (let py = 0; py < this.currentPiece.shape.length; py++) {
-      for (let px = 0; px < this.currentPiece.shape[py].length; px++) {
-        if (this.currentPiece.shape[py][px]) {
-          const boardX = this.currentX + px;
-          const boardY = this.currentY + py;
-          if (boardY >= 0) {
-            this.board[boardY][boardX] = this.currentPiece.color;
-          }
-        }
-      }
-    }
-    
+  private handlePieceLocked(lock: LockEvent): void {
     this.piecesPlaced++;
-    this.clearLines();
-    this.spawnNewPiece();
     
     // Show encouragement for pieces placed (not just line clears)
     if (this.piecesPlaced % 5 === 0) {
       this.showRandomEncouragement();
     }
-  }
-
-  private clearLines() {
-    let linesCleared = 0;
-    
-    for (let y = this.boardHeight - 1; y >= 0; y--) {
-      let fullLine = true;
-      for (let x = 0; x < this.boardWidth; x++) {
-        if (!this.board[y][x]) {
-          fullLine = false;
-          break;
-        }
-      }
-      
-      if (fullLine) {
-        this.board.splice(y, 1);
-        this.board.unshift(new Array(this.boardWidth).fill(0));
-        linesCleared++;
-        y++; // Check the same line again
-      }
-    }
     
+    const linesCleared = lock.linesCleared;
     if (linesCleared > 0) {
-      const oldLevel = this.gameState.level;
-      
-      this.gameState.lines += linesCleared;
-      this.gameState.score += linesCleared * 100 * this.gameState.level;
-      
-      // Level up every 10 lines
-      const newLevel = Math.floor(this.gameState.lines / 10) + 1;
-      if (newLevel > this.gameState.level) {
-        this.gameState.level = newLevel;
-        this.dropInterval = Math.max(100, 800 - (this.gameState.level - 1) * 50);
-      }
-      
       this.updateScoreDisplay();
       
       // Animate score increase in mobile-first layout
       if (this.layoutSystem) {
         this.layoutSystem.animateScoreIncrease();
-        
-        // Animate level up if level changed
-        if (newLevel > oldLevel) {
-          this.layoutSystem.animateLevelUp();
-        }
       }
       
       // Trigger beaver cheer animation for mobile controls
@@ -1011,62 +930,6 @@ export class Game extends Scene {
     }
   }
 
-  private movePiece(dx: number, dy: number): boolean {
-    if (!this.currentPiece) return false;
-    
-    const newX = this.currentX + dx;
-    const newY = this.currentY + dy;
-    
-    if (!this.checkCollision(this.currentPiece.shape, newX, newY)) {
-      this.currentX = newX;
-      this.currentY = newY;
-      return true;
-    }
-    
-    // If moving down and collision, place the piece
-    if (dy > 0) {
-      this.placePiece();
-    }
-    
-    return false;
-  }
-
-  private rotatePiece(): boolean {
-    if (!this.currentPiece) return false;
-    
-    const rotated = this.rotateMatrix(this.currentPiece.shape);
-    
-    if (!this.checkCollision(rotated, this.currentX, this.currentY)) {
-      this.currentPiece.shape = rotated;
-      return true;
-    }
-    
-    return false;
-  }
-
-  private rotateMatrix(matrix: number[][]): number[][] {
-    const rows = matrix.length;
-    const cols = matrix[0].length;
-    const rotated: number[][] = [];
-    
-    for (let i = 0; i < cols; i++) {
-      rotated[i] = [];
-      for (let j = 0; j < rows; j++) {
-        rotated[i][j] = matrix[rows - 1 - j][i];
-      }
-    }
-    
-    return rotated;
-  }
-
-  private hardDrop() {
-    if (!this.currentPiece) return;
-    
-    while (this.movePiece(0, 1)) {
-      // Keep dropping until collision
-    }
-  }
-
   private gameOver() {
     this.isGameOver = true;
     this.messageText.setText('Victory! Your dam is complete!');
@@ -1079,7 +942,8 @@ export class Game extends Scene {
       this.scene.start('GameOver', { 
         score: this.gameState.score,
         level: this.gameState.level,
-        lines: this.gameState.lines
+        lines: this.gameState.lines,
+        replay: createReplay(this.engine, { mode: 'classic', level: this.gameState.level })
       });
     });
   }
@@ -1090,20 +954,10 @@ export class Game extends Scene {
       return;
     }
     
-    if (!this.currentPiece) {
-      console.log('⚠️ No current piece in update loop, spawning new one');
-      this.spawnNewPiece();
-      return;
-    }
-    
-    // Handle automatic piece dropping
-    this.dropTimer += time - this.lastTime;
+    // Gravity and lock delay run in the engine
+    const delta = time - this.lastTime;
     this.lastTime = time;
-    
-    if (this.dropTimer >= this.dropInterval) {
-      this.movePiece(0, 1);
-      this.dropTimer = 0;
-    }
+    this.handleEngineEvents(this.engine.step([], delta));
     
     // Render the game
     this.renderGame();
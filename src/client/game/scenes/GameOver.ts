@@ -1,6 +1,7 @@
 import { Scene } from 'phaser';
 import * as Phaser from 'phaser';
-import { LeaderboardManager } from '../managers/LeaderboardManager';
+import { LeaderboardManager, RunDetails } from '../managers/LeaderboardManager';
+import { ReplaySceneData } from './Replay';
 
 export class GameOver extends Scene {
   camera: Phaser.Cameras.Scene2D.Camera;
@@ -18,6 +19,7 @@ export class GameOver extends Scene {
   viewLeaderboardButton: Phaser.GameObjects.Container | null = null;
   playAgainButton: Phaser.GameObjects.Container | null = null;
   submitAnonymousButton: Phaser.GameObjects.Container | null = null;
+  watchReplayButton: Phaser.GameObjects.Container | null = null;
   
   // State
   private gameData: any;
@@ -57,6 +59,20 @@ export class GameOver extends Scene {
     }
   }
 
+  /**
+   * Score, plus the stars for a completed campaign level or a finished Sprint's time
+   */
+  private getResultText(): string {
+    const run: RunDetails = this.gameData.run ?? {};
+    let text = `SCORE: ${this.gameData.score}`;
+    if (run.stars !== undefined) {
+      text += `\n${'⭐'.repeat(run.stars)}`;
+    } else if (this.gameData.reason === 'target_reached' && run.time !== undefined) {
+      text += `\nTIME: ${(run.time / 1000).toFixed(2)}s`;
+    }
+    return text;
+  }
+
   private createDamVisualization() {
     const { width, height } = this.scale;
     
@@ -177,6 +193,27 @@ export class GameOver extends Scene {
       '#001122',
       () => this.submitScore(true)
     );
+
+    // Watch Replay Button - only when the run was recorded
+    this.watchReplayButton = null;
+    if (this.gameData.replay) {
+      this.watchReplayButton = this.createButton(
+        width / 2,
+        height * 0.92,
+        '🎬 WATCH REPLAY',
+        '#9C27B0',
+        '#001122',
+        () => this.watchReplay()
+      );
+    }
+  }
+
+  private watchReplay(): void {
+    const data: ReplaySceneData = {
+      replay: this.gameData.replay,
+      returnTo: { scene: 'GameOver', data: this.gameData }
+    };
+    this.scene.start('Replay', data);
   }
 
   private createButton(x: number, y: number, text: string, textColor: string, bgColor: string, callback: () => void): Phaser.GameObjects.Container {
@@ -251,7 +288,9 @@ export class GameOver extends Scene {
         this.gameData.score,
         this.gameData.level,
         this.gameData.lines,
-        anonymous
+        anonymous,
+        this.gameData.replay,
+        this.gameData.run
       );
       
       // Show result message
@@ -281,11 +320,14 @@ export class GameOver extends Scene {
       message = `Rank #${result.rank}!\n${message}`;
     }
     
+    // Queued scores are pending rather than failed
+    const color = result.success ? 0x00FF00 : result.queued ? 0xFFA500 : 0xFF0000;
+
     // Create text first to measure dimensions
     const text = this.add.text(0, 0, message, {
       fontFamily: 'Arial Bold',
       fontSize: isMobile ? '18px' : '16px',
-      color: result.success ? '#00FF00' : '#FF0000',
+      color: `#${color.toString(16).padStart(6, '0')}`,
       stroke: '#000000',
       strokeThickness: 2,
       align: 'center',
@@ -306,7 +348,7 @@ export class GameOver extends Scene {
     const bg = this.add.graphics();
     bg.fillStyle(0x000000, 0.9);
     bg.fillRoundedRect(-boxWidth/2, -boxHeight/2, boxWidth, boxHeight, 10);
-    bg.lineStyle(3, result.success ? 0x00FF00 : 0xFF0000);
+    bg.lineStyle(3, color);
     bg.strokeRoundedRect(-boxWidth/2, -boxHeight/2, boxWidth, boxHeight, 10);
     
     popup.add([bg, text]);
@@ -369,7 +411,7 @@ export class GameOver extends Scene {
     this.createDamVisualization();
 
     // Score display
-    this.finalScore = this.add.text(0, 0, `SCORE: ${this.gameData.score}`, {
+    this.finalScore = this.add.text(0, 0, this.getResultText(), {
       fontFamily: 'Arial Black',
       fontSize: '32px',
       color: '#FFFFFF',
@@ -399,6 +441,10 @@ export class GameOver extends Scene {
     this.input.keyboard?.on('keydown-SPACE', () => {
       this.scene.start('Game');
     });
+
+    if (this.gameData.replay) {
+      this.input.keyboard?.on('keydown-R', () => this.watchReplay());
+    }
   }
 
 
@@ -458,5 +504,10 @@ export class GameOver extends Scene {
       this.submitAnonymousButton.setPosition(startX + buttonSpacing * 3, buttonY);
       this.submitAnonymousButton.setScale(scaleFactor);
     }
+
+    if (this.watchReplayButton) {
+      this.watchReplayButton.setPosition(width / 2, height * 0.92);
+      this.watchReplayButton.setScale(scaleFactor);
+    }
   }
 }
\ No newline at end of file
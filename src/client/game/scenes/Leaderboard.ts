@@ -1,7 +1,54 @@
 import { Scene } from 'phaser';
 import * as Phaser from 'phaser';
 import { LeaderboardManager } from '../managers/LeaderboardManager';
-import { LeaderboardEntry } from '../../../shared/types/api';
+import {
+  LEADERBOARD_MODES,
+  LEADERBOARD_PERIODS,
+  LEADERBOARD_SCOPES,
+  LeaderboardEntry,
+  LeaderboardMetric,
+  LeaderboardMode,
+  LeaderboardPeriod,
+  LeaderboardScope
+} from '../../../shared/types/api';
+import { SEASONAL_LEVEL_COUNT, getLeaderboardMetric } from '../../../shared/leaderboard/Modes';
+import {
+  FIRST_PAGE,
+  LEADERBOARD_PAGE_SIZE,
+  PageView,
+  describePage,
+  getPageQuery,
+  stepPage
+} from '../../../shared/leaderboard/Paging';
+
+const SCOPE_LABELS: Record<LeaderboardScope, string> = {
+  post: 'THIS POST',
+  subreddit: 'SUBREDDIT',
+  global: 'GLOBAL'
+};
+
+const PERIOD_LABELS: Record<LeaderboardPeriod, string> = {
+  daily: 'DAILY',
+  weekly: 'WEEKLY',
+  monthly: 'MONTHLY',
+  alltime: 'ALL-TIME'
+};
+
+const MODE_LABELS: Record<LeaderboardMode, string> = {
+  classic: 'CLASSIC',
+  sprint: 'SPRINT',
+  marathon: 'MARATHON',
+  'time-attack': 'TIME ATTACK',
+  challenge: 'CHALLENGE',
+  campaign: 'CAMPAIGN',
+  endless: 'ENDLESS'
+};
+
+const METRIC_HEADERS: Record<LeaderboardMetric, string> = {
+  score: 'SCORE',
+  time: 'TIME',
+  stars: 'STARS'
+};
 
 export class Leaderboard extends Scene {
   private leaderboardManager: LeaderboardManager;
@@ -9,7 +56,27 @@ export class Leaderboard extends Scene {
   private refreshButton!: Phaser.GameObjects.Text;
   private titleText!: Phaser.GameObjects.Text;
   private loadingText!: Phaser.GameObjects.Text;
+  private pendingText!: Phaser.GameObjects.Text;
   private leaderboardEntries: Phaser.GameObjects.Text[] = [];
+  private scopeTabs: Phaser.GameObjects.Text[] = [];
+  private scope: LeaderboardScope = 'subreddit';
+  private periodTabs: Phaser.GameObjects.Text[] = [];
+  private period: LeaderboardPeriod = 'alltime';
+  private previousToggle!: Phaser.GameObjects.Text;
+  private showPrevious: boolean = false;
+  private modeSelector!: Phaser.GameObjects.Text;
+  private levelSelector!: Phaser.GameObjects.Text;
+  private mode: LeaderboardMode = 'classic';
+  private level: number | null = null; // A campaign level's best-star board
+  private pageView: PageView = FIRST_PAGE;
+  // Where the rows shown start, how many players the board has and where the player ranks
+  private pageOffset: number = 0;
+  private boardTotal: number = 0;
+  private playerRank: number | null = null;
+  private prevPageButton!: Phaser.GameObjects.Text;
+  private nextPageButton!: Phaser.GameObjects.Text;
+  private pageLabel!: Phaser.GameObjects.Text;
+  private aroundMeButton!: Phaser.GameObjects.Text;
   private isLoading: boolean = false;
 
   constructor() {
@@ -17,6 +84,18 @@ export class Leaderboard extends Scene {
     this.leaderboardManager = LeaderboardManager.getInstance();
   }
 
+  init() {
+    this.leaderboardEntries = [];
+    this.scopeTabs = [];
+    this.periodTabs = [];
+    this.showPrevious = false;
+    this.pageView = FIRST_PAGE;
+    this.pageOffset = 0;
+    this.boardTotal = 0;
+    this.playerRank = null;
+    this.isLoading = false;
+  }
+
   async create() {
     const { width, height } = this.scale;
 
@@ -45,8 +124,14 @@ export class Leaderboard extends Scene {
       strokeThickness: 8
     }).setOrigin(0.5).setAlpha(0.3);
 
+    // Scope, period and mode selectors
+    this.createScopeTabs();
+    this.createPeriodTabs();
+    this.createModeSelectors();
+    this.createPagingControls();
+
     // Loading text
-    this.loadingText = this.add.text(width / 2, 200, 'Loading leaderboard...', {
+    this.loadingText = this.add.text(width / 2, 245, 'Loading leaderboard...', {
       fontFamily: 'Arial Bold',
       fontSize: '18px',
       color: '#FFFF00',
@@ -55,6 +140,30 @@ export class Leaderboard extends Scene {
       align: 'center'
     }).setOrigin(0.5);
 
+    // Scores waiting in the offline outbox
+    this.pendingText = this.add.text(width / 2, height - 85, '', {
+      fontFamily: 'Arial Bold',
+      fontSize: '14px',
+      color: '#FFA500',
+      stroke: '#000000',
+      strokeThickness: 2,
+      align: 'center'
+    }).setOrigin(0.5);
+    let pendingCount = this.leaderboardManager.getPendingScores().length;
+    this.updatePendingText(pendingCount);
+
+    // Refresh when a queued score lands, and try sending them now
+    const stopWatchingPending = this.leaderboardManager.onPendingScoresChange((pending) => {
+      const delivered = pending.length < pendingCount;
+      pendingCount = pending.length;
+      this.updatePendingText(pending.length);
+      if (delivered) {
+        void this.displayLeaderboard();
+      }
+    });
+    this.events.once('shutdown', stopWatchingPending);
+    void this.leaderboardManager.flushPendingScores();
+
     // Display leaderboard
     await this.displayLeaderboard();
 
@@ -103,6 +212,13 @@ export class Leaderboard extends Scene {
       this.refreshLeaderboard();
     });
 
+    // Page with the arrow keys or the mouse wheel
+    this.input.keyboard?.on('keydown-LEFT', () => this.stepPage(-1));
+    this.input.keyboard?.on('keydown-RIGHT', () => this.stepPage(1));
+    this.input.on('wheel', (_pointer: Phaser.Input.Pointer, _over: unknown, _deltaX: number, deltaY: number) => {
+      if (deltaY !== 0) void this.stepPage(Math.sign(deltaY));
+    });
+
     // Update layout on resize
     this.scale.on('resize', (gameSize: Phaser.Structs.Size) => {
       this.updateLayout(gameSize.width, gameSize.height);
@@ -128,6 +244,259 @@ export class Leaderboard extends Scene {
     bg.strokePath();
   }
 
+  private createScopeTabs() {
+    this.scopeTabs = LEADERBOARD_SCOPES.map(scope => {
+      const tab = this.add.text(0, 100, SCOPE_LABELS[scope], {
+        fontFamily: 'Arial Bold',
+        fontSize: '14px',
+        color: '#00FFFF',
+        stroke: '#FF00FF',
+        strokeThickness: 1
+      }).setOrigin(0.5);
+
+      tab.setInteractive();
+      tab.on('pointerdown', () => this.selectScope(scope));
+      tab.on('pointerover', () => tab.setScale(1.1));
+      tab.on('pointerout', () => tab.setScale(1.0));
+      return tab;
+    });
+
+    this.layoutScopeTabs(this.scale.width);
+  }
+
+  private layoutScopeTabs(width: number) {
+    this.scopeTabs.forEach((tab, index) => {
+      const scope = LEADERBOARD_SCOPES[index];
+      tab.setPosition(width / 2 + (index - (this.scopeTabs.length - 1) / 2) * 130, 100);
+      tab.setColor(scope === this.scope ? '#FFFF00' : '#00FFFF');
+    });
+  }
+
+  private async selectScope(scope: LeaderboardScope) {
+    if (this.isLoading || scope === this.scope) return;
+
+    this.scope = scope;
+    this.pageView = FIRST_PAGE;
+    this.layoutScopeTabs(this.scale.width);
+    await this.refreshLeaderboard();
+  }
+
+  private createPeriodTabs() {
+    this.periodTabs = LEADERBOARD_PERIODS.map(period => {
+      const tab = this.add.text(0, 125, PERIOD_LABELS[period], {
+        fontFamily: 'Arial Bold',
+        fontSize: '12px',
+        color: '#00FFFF',
+        stroke: '#FF00FF',
+        strokeThickness: 1
+      }).setOrigin(0.5);
+
+      tab.setInteractive();
+      tab.on('pointerdown', () => this.selectPeriod(period));
+      tab.on('pointerover', () => tab.setScale(1.1));
+      tab.on('pointerout', () => tab.setScale(1.0));
+      return tab;
+    });
+
+    // Switches between the running period and the winners of the last one
+    this.previousToggle = this.add.text(0, 175, '', {
+      fontFamily: 'Arial Bold',
+      fontSize: '12px',
+      color: '#FF00FF',
+      stroke: '#000000',
+      strokeThickness: 1
+    }).setOrigin(0.5);
+
+    this.previousToggle.setInteractive();
+    this.previousToggle.on('pointerdown', () => this.togglePrevious());
+    this.previousToggle.on('pointerover', () => this.previousToggle.setScale(1.1));
+    this.previousToggle.on('pointerout', () => this.previousToggle.setScale(1.0));
+
+    this.layoutPeriodTabs(this.scale.width);
+  }
+
+  private layoutPeriodTabs(width: number) {
+    this.periodTabs.forEach((tab, index) => {
+      const period = LEADERBOARD_PERIODS[index];
+      tab.setPosition(width / 2 + (index - 1.5) * 100, 125);
+      tab.setColor(period === this.period ? '#FFFF00' : '#00FFFF');
+    });
+
+    if (this.previousToggle) {
+      // All-time never rolls over, so it has no last period
+      this.previousToggle.setPosition(width / 2, 175);
+      this.previousToggle.setText(this.showPrevious ? '◀ BACK TO CURRENT' : 'LAST PERIOD\'S WINNERS ▶');
+      this.previousToggle.setVisible(this.period !== 'alltime');
+    }
+  }
+
+  private async selectPeriod(period: LeaderboardPeriod) {
+    if (this.isLoading || period === this.period) return;
+
+    this.period = period;
+    this.showPrevious = false;
+    this.pageView = FIRST_PAGE;
+    this.layoutPeriodTabs(this.scale.width);
+    await this.refreshLeaderboard();
+  }
+
+  private async togglePrevious() {
+    if (this.isLoading || this.period === 'alltime') return;
+
+    this.showPrevious = !this.showPrevious;
+    this.pageView = FIRST_PAGE;
+    this.layoutPeriodTabs(this.scale.width);
+    await this.refreshLeaderboard();
+  }
+
+  private createModeSelectors() {
+    const style = {
+      fontFamily: 'Arial Bold',
+      fontSize: '12px',
+      color: '#FFFF00',
+      stroke: '#FF00FF',
+      strokeThickness: 1
+    };
+
+    // Each click moves on to the next mode, or the next campaign level
+    this.modeSelector = this.add.text(0, 150, '', style).setOrigin(0.5);
+    this.modeSelector.setInteractive();
+    this.modeSelector.on('pointerdown', () => this.cycleMode());
+    this.modeSelector.on('pointerover', () => this.modeSelector.setScale(1.1));
+    this.modeSelector.on('pointerout', () => this.modeSelector.setScale(1.0));
+
+    this.levelSelector = this.add.text(0, 150, '', style).setOrigin(0.5);
+    this.levelSelector.setInteractive();
+    this.levelSelector.on('pointerdown', () => this.cycleLevel());
+    this.levelSelector.on('pointerover', () => this.levelSelector.setScale(1.1));
+    this.levelSelector.on('pointerout', () => this.levelSelector.setScale(1.0));
+
+    this.layoutModeSelectors(this.scale.width);
+  }
+
+  private layoutModeSelectors(width: number) {
+    if (!this.modeSelector || !this.levelSelector) return;
+
+    const isCampaign = this.mode === 'campaign';
+    this.modeSelector.setText(`MODE: ◀ ${MODE_LABELS[this.mode]} ▶`);
+    this.modeSelector.setPosition(isCampaign ? width / 2 - 90 : width / 2, 150);
+
+    this.levelSelector.setText(this.level === null ? 'LEVEL: ALL ▶' : `LEVEL ${this.level} ⭐ ▶`);
+    this.levelSelector.setPosition(width / 2 + 90, 150);
+    this.levelSelector.setVisible(isCampaign);
+  }
+
+  private async cycleMode() {
+    if (this.isLoading) return;
+
+    const index = LEADERBOARD_MODES.indexOf(this.mode);
+    this.mode = LEADERBOARD_MODES[(index + 1) % LEADERBOARD_MODES.length] ?? 'classic';
+    this.level = null;
+    this.pageView = FIRST_PAGE;
+    this.layoutModeSelectors(this.scale.width);
+    await this.refreshLeaderboard();
+  }
+
+  private async cycleLevel() {
+    if (this.isLoading || this.mode !== 'campaign') return;
+
+    // All levels (the campaign's score board), then each level's stars board
+    this.level = this.level === null ? 1 : this.level < SEASONAL_LEVEL_COUNT ? this.level + 1 : null;
+    this.pageView = FIRST_PAGE;
+    this.layoutModeSelectors(this.scale.width);
+    await this.refreshLeaderboard();
+  }
+
+  private createPagingControls() {
+    const style = {
+      fontFamily: 'Arial Bold',
+      fontSize: '14px',
+      color: '#00FFFF',
+      stroke: '#FF00FF',
+      strokeThickness: 1
+    };
+
+    this.prevPageButton = this.add.text(0, 0, '◀ PREV', style).setOrigin(0.5);
+    this.nextPageButton = this.add.text(0, 0, 'NEXT ▶', style).setOrigin(0.5);
+    this.pageLabel = this.add.text(0, 0, '', { ...style, color: '#FFFFFF' }).setOrigin(0.5);
+    // Jumps to the player's own row, and back to the top
+    this.aroundMeButton = this.add.text(0, 0, '', { ...style, color: '#00FF00' }).setOrigin(0.5);
+
+    const buttons: [Phaser.GameObjects.Text, () => void][] = [
+      [this.prevPageButton, () => this.stepPage(-1)],
+      [this.nextPageButton, () => this.stepPage(1)],
+      [this.aroundMeButton, () => this.toggleAroundMe()]
+    ];
+    for (const [button, onClick] of buttons) {
+      button.setInteractive();
+      button.on('pointerdown', onClick);
+      button.on('pointerover', () => button.setScale(1.1));
+      button.on('pointerout', () => button.setScale(1.0));
+    }
+
+    this.layoutPagingControls(this.scale.width, this.scale.height);
+  }
+
+  private layoutPagingControls(width: number, height: number) {
+    if (!this.pageLabel) return;
+
+    const y = height - 120;
+    const pageSize = this.getPageSize();
+    const hasRows = this.boardTotal > 0;
+    this.pageLabel.setPosition(width / 2 - 60, y);
+    this.pageLabel.setText(describePage(this.pageView, this.pageOffset, this.boardTotal, pageSize, this.playerRank));
+    this.pageLabel.setVisible(hasRows);
+
+    this.prevPageButton.setPosition(width / 2 - 180, y);
+    this.prevPageButton.setVisible(stepPage(this.pageOffset, -1, this.boardTotal, pageSize) !== null);
+    this.nextPageButton.setPosition(width / 2 + 60, y);
+    this.nextPageButton.setVisible(stepPage(this.pageOffset, 1, this.boardTotal, pageSize) !== null);
+
+    this.aroundMeButton.setPosition(width / 2 + 180, y);
+    this.aroundMeButton.setText(this.pageView.aroundMe ? 'TOP ▲' : `📍 #${this.playerRank}`);
+    this.aroundMeButton.setVisible(this.playerRank !== null);
+  }
+
+  /**
+   * Rows that fit between the column headers and the paging controls
+   */
+  private getPageSize(): number {
+    const isMobile = this.scale.width < 768 || this.scale.height < 600 || ('ontouchstart' in window || navigator.maxTouchPoints > 0);
+    const rowSpacing = isMobile ? 35 : 30;
+    const rows = Math.floor((this.scale.height - 190 - 245) / rowSpacing) + 1;
+    return Math.max(3, Math.min(LEADERBOARD_PAGE_SIZE, rows));
+  }
+
+  private async stepPage(delta: number) {
+    if (this.isLoading) return;
+
+    const view = stepPage(this.pageOffset, delta, this.boardTotal, this.getPageSize());
+    if (!view) return;
+    this.pageView = view;
+    await this.refreshLeaderboard();
+  }
+
+  private async toggleAroundMe() {
+    if (this.isLoading || this.playerRank === null) return;
+
+    this.pageView = this.pageView.aroundMe ? FIRST_PAGE : { page: 0, aroundMe: true };
+    await this.refreshLeaderboard();
+  }
+
+  /**
+   * An entry's value in the column the board is ranked by
+   */
+  private formatRankedValue(entry: LeaderboardEntry, metric: LeaderboardMetric): string {
+    switch (metric) {
+      case 'time':
+        return entry.time === undefined ? '-' : `${(entry.time / 1000).toFixed(2)}s`;
+      case 'stars':
+        return '⭐'.repeat(entry.stars ?? 0);
+      case 'score':
+        return entry.score.toString();
+    }
+  }
+
   private async displayLeaderboard() {
     if (this.isLoading) return;
     
@@ -142,7 +511,20 @@ export class Leaderboard extends Scene {
     this.leaderboardEntries = [];
 
     try {
-      const leaderboard = await this.leaderboardManager.getLeaderboard(true); // Force refresh
+      const page = await this.leaderboardManager.getLeaderboardPage(true, { // Force refresh
+        scope: this.scope,
+        period: this.period,
+        previous: this.showPrevious,
+        mode: this.mode,
+        ...(this.level !== null && { level: this.level }),
+        ...getPageQuery(this.pageView, this.getPageSize())
+      });
+      const leaderboard = page.entries;
+      this.pageOffset = page.offset;
+      this.boardTotal = page.total;
+      this.playerRank = page.playerRank;
+      this.layoutPagingControls(width, this.scale.height);
+      const metric = getLeaderboardMetric(this.mode, this.level);
       
       // Hide loading text
       if (this.loadingText) {
@@ -150,7 +532,10 @@ export class Leaderboard extends Scene {
       }
 
       if (leaderboard.length === 0) {
-        const noDataText = this.add.text(width / 2, 200, 'No scores available yet!\n\nYour score was submitted successfully!\nTry refreshing or check back later.', {
+        const emptyMessage = this.showPrevious
+          ? 'No winners recorded for the last period.'
+          : `No scores available yet!\n\n${this.getSubmissionNote()}\nTry refreshing or check back later.`;
+        const noDataText = this.add.text(width / 2, 245, emptyMessage, {
           fontFamily: 'Arial Bold',
           fontSize: isMobile ? '18px' : '16px',
           color: '#FFFF00',
@@ -187,7 +572,7 @@ export class Leaderboard extends Scene {
       columnConfig.LINES.x = tableStartX + columnConfig.RANK.width + columnSpacing + columnConfig.USER.width + columnSpacing + columnConfig.SCORE.width + columnSpacing + columnConfig.LEVEL.width + columnSpacing + columnConfig.LINES.width / 2;
 
       // Header with mobile-responsive font size
-      const headerY = 120;
+      const headerY = 205;
       const headerFontSize = isMobile ? '18px' : '16px';
       
       // Create individual header texts for each column
@@ -209,7 +594,7 @@ export class Leaderboard extends Scene {
         align: 'center'
       }).setOrigin(0.5);
       
-      const scoreHeader = this.add.text(columnConfig.SCORE.x, headerY, 'SCORE', {
+      const scoreHeader = this.add.text(columnConfig.SCORE.x, headerY, METRIC_HEADERS[metric], {
         fontFamily: 'Courier New',
         fontSize: headerFontSize,
         color: '#00FFFF',
@@ -245,7 +630,8 @@ export class Leaderboard extends Scene {
       
       leaderboard.forEach((entry, index) => {
         const y = headerY + 40 + (index * rowSpacing);
-        const rank = (index + 1).toString();
+        const place = entry.rank ?? this.pageOffset + index + 1;
+        const rank = place.toString();
         
         let displayName;
         if (entry.username === 'Anonymous') {
@@ -262,9 +648,9 @@ export class Leaderboard extends Scene {
           displayName.substring(0, maxUsernameLength) + '...' : 
           displayName;
         
-        const color = index === 0 ? '#FFD700' : // Gold for 1st
-                     index === 1 ? '#C0C0C0' : // Silver for 2nd  
-                     index === 2 ? '#CD7F32' : // Bronze for 3rd
+        const color = place === 1 ? '#FFD700' : // Gold for 1st
+                     place === 2 ? '#C0C0C0' : // Silver for 2nd  
+                     place === 3 ? '#CD7F32' : // Bronze for 3rd
                      '#FFFFFF'; // White for others
 
         // Create individual text elements for each column
@@ -280,13 +666,13 @@ export class Leaderboard extends Scene {
         const userText = this.add.text(columnConfig.USER.x, y, username, {
           fontFamily: 'Courier New',
           fontSize: entryFontSize,
-          color: '#FFFFFF',
+          color: entry.isCurrentUser ? '#00FF00' : '#FFFFFF', // Your own row stands out
           stroke: '#000000',
           strokeThickness: 1,
           align: 'center'
         }).setOrigin(0.5);
         
-        const scoreText = this.add.text(columnConfig.SCORE.x, y, entry.score.toString(), {
+        const scoreText = this.add.text(columnConfig.SCORE.x, y, this.formatRankedValue(entry, metric), {
           fontFamily: 'Courier New',
           fontSize: entryFontSize,
           color: color,
@@ -316,7 +702,7 @@ export class Leaderboard extends Scene {
         this.leaderboardEntries.push(rankText, userText, scoreText, levelText, linesText);
 
         // Add crown for first place
-        if (index === 0) {
+        if (place === 1) {
           const crown = this.add.text(columnConfig.RANK.x - 25, y, '👑', {
             fontSize: entryFontSize
           }).setOrigin(0.5);
@@ -339,13 +725,16 @@ export class Leaderboard extends Scene {
 
     } catch (error) {
       console.error('Error displaying leaderboard:', error);
+      this.boardTotal = 0;
+      this.playerRank = null;
+      this.layoutPagingControls(width, this.scale.height);
       
       // Hide loading text
       if (this.loadingText) {
         this.loadingText.setVisible(false);
       }
 
-      const errorText = this.add.text(width / 2, 200, 'Failed to load leaderboard.\n\nYour score was submitted successfully!\nPress R to retry or refresh the page.', {
+      const errorText = this.add.text(width / 2, 245, `Failed to load leaderboard.\n\n${this.getSubmissionNote()}\nPress R to retry or refresh the page.`, {
         fontFamily: 'Arial Bold',
         fontSize: isMobile ? '18px' : '14px',
         color: '#FF0000',
@@ -360,6 +749,17 @@ export class Leaderboard extends Scene {
     this.isLoading = false;
   }
 
+  private updatePendingText(count: number) {
+    this.pendingText.setText(count > 0 ? `⏳ ${count} score${count === 1 ? '' : 's'} waiting to be submitted` : '');
+  }
+
+  /** What to tell the player about their latest submission under an empty or failed board */
+  private getSubmissionNote(): string {
+    return this.leaderboardManager.getPendingScores().length > 0
+      ? 'Your score is saved and will be submitted when you are back online.'
+      : 'Your score was submitted successfully!';
+  }
+
   private async refreshLeaderboard() {
     if (this.isLoading) return;
 
@@ -374,6 +774,11 @@ export class Leaderboard extends Scene {
     if (this.titleText) {
       this.titleText.setPosition(width / 2, 60);
     }
+
+    this.layoutScopeTabs(width);
+    this.layoutPeriodTabs(width);
+    this.layoutModeSelectors(width);
+    this.layoutPagingControls(width, height);
     
     if (this.refreshButton) {
       this.refreshButton.setPosition(width / 2 - 100, height - 50);
@@ -384,7 +789,11 @@ export class Leaderboard extends Scene {
     }
     
     if (this.loadingText) {
-      this.loadingText.setPosition(width / 2, 200);
+      this.loadingText.setPosition(width / 2, 245);
+    }
+
+    if (this.pendingText) {
+      this.pendingText.setPosition(width / 2, height - 85);
     }
     
     // Redisplay leaderboard with new layout
@@ -1,4 +1,6 @@
 import { Scene, GameObjects } from 'phaser';
+import { DailyChallengeConfig } from '../../../shared/types/api';
+import { DailyChallengeManager } from '../managers/DailyChallengeManager';
 
 export class MainMenu extends Scene {
   private background: GameObjects.Graphics | null = null;
@@ -7,6 +9,9 @@ export class MainMenu extends Scene {
   private subtitle: GameObjects.Text | null = null;
   private campaignButton: GameObjects.Container | null = null;
   private classicButton: GameObjects.Container | null = null;
+  // Only on daily challenge posts
+  private challengeButton: GameObjects.Container | null = null;
+  private challenge: DailyChallengeConfig | null = null;
   private instructionsPanel: GameObjects.Graphics | null = null;
   private instructionsText: GameObjects.Text | null = null;
 
@@ -22,6 +27,8 @@ export class MainMenu extends Scene {
     this.subtitle = null;
     this.campaignButton = null;
     this.classicButton = null;
+    this.challengeButton = null;
+    this.challenge = null;
     this.instructionsPanel = null;
     this.instructionsText = null;
   }
@@ -40,6 +47,7 @@ export class MainMenu extends Scene {
     this.createInstructions();
     this.setupKeyboard();
     this.setupGlobalClickTest();
+    this.loadChallenge();
 
     // Handle resize
     this.scale.on('resize', () => {
@@ -313,6 +321,67 @@ export class MainMenu extends Scene {
     console.log('Buttons created successfully');
   }
 
+  private loadChallenge(): void {
+    void DailyChallengeManager.getInstance().loadChallenge().then((challenge) => {
+      // The player may have left the menu while the post config loaded
+      if (!challenge || !this.sys.isActive()) return;
+      this.challenge = challenge;
+      this.createChallengeButton();
+    });
+  }
+
+  private createChallengeButton(): void {
+    if (!this.challenge) return;
+    const { width, height } = this.scale;
+
+    // Between the mode buttons and the instructions panel
+    const challengeY = height >= 900 ? height * 0.67 : height * 0.755;
+    this.challengeButton = this.add.container(width / 2, challengeY);
+
+    const challengeWidth = this.getResponsiveSize(260);
+    const challengeHeight = this.getResponsiveSize(36);
+
+    const challengeBg = this.add.graphics();
+    const drawBackground = (hovered: boolean) => {
+      challengeBg.clear();
+      challengeBg.fillStyle(hovered ? 0x2A0F5F : 0x0A2E1A, 0.9);
+      challengeBg.fillRoundedRect(-challengeWidth/2, -challengeHeight/2, challengeWidth, challengeHeight, 10);
+      challengeBg.lineStyle(hovered ? 3 : 2, 0x00FF88, 1);
+      challengeBg.strokeRoundedRect(-challengeWidth/2, -challengeHeight/2, challengeWidth, challengeHeight, 10);
+    };
+    drawBackground(false);
+
+    const challengeText = this.add.text(0, 0, `📅 DAILY CHALLENGE ${this.challenge.date}`, {
+      fontFamily: 'Arial Black',
+      fontSize: this.getResponsiveFontSize(14),
+      color: '#00FF88',
+      stroke: '#000000',
+      strokeThickness: 2,
+      align: 'center'
+    }).setOrigin(0.5);
+
+    this.challengeButton.add([challengeBg, challengeText]);
+    this.challengeButton.setSize(challengeWidth, challengeHeight);
+    this.challengeButton.setInteractive();
+
+    this.challengeButton.on('pointerover', () => {
+      drawBackground(true);
+      challengeText.setColor('#FFFFFF');
+      this.challengeButton?.setScale(1.05);
+    });
+
+    this.challengeButton.on('pointerout', () => {
+      drawBackground(false);
+      challengeText.setColor('#00FF88');
+      this.challengeButton?.setScale(1.0);
+    });
+
+    this.challengeButton.on('pointerdown', () => {
+      console.log('Daily challenge button clicked!');
+      this.startDailyChallenge();
+    });
+  }
+
   private createInstructions(): void {
     const { width, height } = this.scale;
 
@@ -372,6 +441,10 @@ export class MainMenu extends Scene {
           console.log('L key - Opening Leaderboard');
           this.scene.start('Leaderboard');
           break;
+        case 'KeyD':
+          console.log('D key - Starting Daily Challenge');
+          this.startDailyChallenge();
+          break;
       }
     });
   }
@@ -396,6 +469,15 @@ export class MainMenu extends Scene {
     }
   }
 
+  /**
+   * Same seed, mode and level as everyone else on this post
+   */
+  private startDailyChallenge(): void {
+    if (!this.challenge) return;
+    console.log(`Starting daily challenge ${this.challenge.date} (${this.challenge.mode}, level ${this.challenge.level})`);
+    this.scene.start('EnhancedGame', DailyChallengeManager.getStartData(this.challenge));
+  }
+
   private startClassicMode(): void {
     console.log('Attempting to start Classic Mode');
     try {
@@ -447,6 +529,7 @@ export class MainMenu extends Scene {
     if (this.beaver) this.beaver.destroy();
     if (this.campaignButton) this.campaignButton.destroy();
     if (this.classicButton) this.classicButton.destroy();
+    if (this.challengeButton) this.challengeButton.destroy();
     if (this.instructionsPanel) this.instructionsPanel.destroy();
     if (this.instructionsText) this.instructionsText.destroy();
 
@@ -455,6 +538,7 @@ export class MainMenu extends Scene {
     this.createTitle();
     this.createBeaver();
     this.createButtons();
+    this.createChallengeButton();
     this.createInstructions();
   }
 }
\ No newline at end of file
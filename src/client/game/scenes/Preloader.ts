@@ -1,4 +1,10 @@
 import { Scene } from 'phaser';
+import { LeaderboardManager } from '../managers/LeaderboardManager';
+import { ProfileSyncManager } from '../managers/ProfileSyncManager';
+import { SessionManager } from '../managers/SessionManager';
+
+// Longest the loading screen waits for the cloud profile before opening the menu
+const PROFILE_SYNC_TIMEOUT_MS = 3000;
 
 export class Preloader extends Scene {
   constructor() {
@@ -31,10 +37,33 @@ export class Preloader extends Scene {
   }
 
   create() {
+    // The session Boot started loading: who the player is and whether they have a cloud save
+    const ready = SessionManager.getInstance().loadSession().then(async (session) => {
+      if (session?.user) {
+        LeaderboardManager.getInstance().setRedditUserData(session.user);
+      }
+
+      // Send scores left in the outbox by an earlier launch
+      void LeaderboardManager.getInstance().flushPendingScores();
+
+      // Bring in progress saved on other devices before the menu opens. Without a session
+      // the player is offline, and the sync is retried once they are back
+      if (!session) {
+        await ProfileSyncManager.getInstance().sync();
+      } else if (session.user && session.features.cloudSave) {
+        await ProfileSyncManager.getInstance().sync(session.profileVersion);
+      }
+    });
+
     //  When all the assets have loaded, it's often worth creating global objects here that the rest of the game can use.
     //  For example, you can define global animations here, so we can use them in other scenes.
 
+    // A slow connection doesn't hold up the game; the sync then finishes in the background
+    const timeout = new Promise<void>((resolve) => this.time.delayedCall(PROFILE_SYNC_TIMEOUT_MS, resolve));
+
     //  Move to the MainMenu. You could also swap this for a Scene Transition, such as a camera fade.
-    this.scene.start('MainMenu');
+    void Promise.race([ready, timeout])
+      .catch((error) => console.warn('Profile sync before the menu failed:', error))
+      .then(() => this.scene.start('MainMenu'));
   }
 }
@@ -0,0 +1,261 @@
+import { Scene } from 'phaser';
+import * as Phaser from 'phaser';
+import { ReplayData, ReplayPlayer } from '../../../shared/game/Replay';
+
+/** Playback speeds offered by the speed buttons */
+const REPLAY_SPEEDS = [0.5, 1, 2, 4];
+const SEEK_STEP_MS = 5000;
+
+export interface ReplaySceneData {
+  replay: ReplayData;
+  /** Scene (and its data) to go back to when playback is closed */
+  returnTo?: { scene: string; data?: object };
+}
+
+export class Replay extends Scene {
+  private replay!: ReplayData;
+  private player!: ReplayPlayer;
+  private returnTo: { scene: string; data?: object } = { scene: 'MainMenu' };
+
+  // Playback state; playbackTime is fractional, the player snaps it to engine ticks
+  private playbackTime: number = 0;
+  private speed: number = 1;
+  private isPlaying: boolean = true;
+  private isScrubbing: boolean = false;
+
+  // Board layout
+  private boardX: number = 0;
+  private boardY: number = 0;
+  private cellSize: number = 24;
+
+  private boardGraphics!: Phaser.GameObjects.Graphics;
+  private scrubGraphics!: Phaser.GameObjects.Graphics;
+  private statsText!: Phaser.GameObjects.Text;
+  private timeText!: Phaser.GameObjects.Text;
+  private playButton!: Phaser.GameObjects.Text;
+  private speedButtons: Phaser.GameObjects.Text[] = [];
+  private scrubBar = new Phaser.Geom.Rectangle();
+
+  constructor() {
+    super('Replay');
+  }
+
+  init(data: ReplaySceneData) {
+    this.replay = data.replay;
+    this.returnTo = data.returnTo ?? { scene: 'MainMenu' };
+    this.player = new ReplayPlayer(this.replay);
+    this.playbackTime = 0;
+    this.speed = 1;
+    this.isPlaying = true;
+    this.isScrubbing = false;
+    this.speedButtons = [];
+  }
+
+  create() {
+    const { width, height } = this.scale;
+    this.cameras.main.setBackgroundColor(0x0A0A0F);
+
+    const { width: columns, height: rows } = this.player.getEngine().getConfig();
+    this.cellSize = Math.floor(Math.min((height - 170) / rows, (width * 0.6) / columns));
+    this.boardX = Math.floor((width - columns * this.cellSize) / 2);
+    this.boardY = 60;
+
+    this.add.text(width / 2, 28, 'REPLAY', {
+      fontFamily: 'Arial Black',
+      fontSize: '26px',
+      color: '#00FFFF',
+      stroke: '#FF00FF',
+      strokeThickness: 4
+    }).setOrigin(0.5);
+
+    this.boardGraphics = this.add.graphics();
+    this.scrubGraphics = this.add.graphics();
+
+    this.statsText = this.add.text(this.boardX + columns * this.cellSize + 20, this.boardY, '', {
+      fontFamily: 'Arial Bold',
+      fontSize: '16px',
+      color: '#FFFF00',
+      lineSpacing: 8
+    });
+
+    this.createControls();
+    this.setupInput();
+    this.render();
+  }
+
+  override update(_time: number, delta: number): void {
+    if (this.isPlaying && !this.isScrubbing) {
+      this.seekTo(this.playbackTime + delta * this.speed);
+      if (this.player.isFinished()) {
+        this.setPlaying(false);
+      }
+    }
+
+    this.render();
+  }
+
+  private createControls(): void {
+    const { width, height } = this.scale;
+    const controlsY = height - 40;
+
+    // Scrub bar spans the width under the board
+    this.scrubBar.setTo(40, height - 85, width - 80, 12);
+    const scrubZone = this.add.zone(this.scrubBar.centerX, this.scrubBar.centerY, this.scrubBar.width, 32)
+      .setInteractive();
+    scrubZone.on('pointerdown', (pointer: Phaser.Input.Pointer) => {
+      this.isScrubbing = true;
+      this.scrubTo(pointer.x);
+    });
+    this.input.on('pointermove', (pointer: Phaser.Input.Pointer) => {
+      if (this.isScrubbing) this.scrubTo(pointer.x);
+    });
+    this.input.on('pointerup', () => {
+      this.isScrubbing = false;
+    });
+
+    this.timeText = this.add.text(width / 2, height - 105, '', {
+      fontFamily: 'Arial Bold',
+      fontSize: '14px',
+      color: '#FFFFFF'
+    }).setOrigin(0.5);
+
+    this.playButton = this.createTextButton(60, controlsY, '', '#00FF00', () => this.togglePlaying());
+    this.setPlaying(true);
+
+    REPLAY_SPEEDS.forEach((speed, index) => {
+      const button = this.createTextButton(width / 2 - 120 + index * 80, controlsY, `${speed}x`, '#00FFFF', () => this.setSpeed(speed));
+      this.speedButtons.push(button);
+    });
+    this.setSpeed(1);
+
+    this.createTextButton(width - 60, controlsY, 'Back', '#FFFF00', () => this.exit());
+  }
+
+  private createTextButton(x: number, y: number, label: string, color: string, onClick: () => void): Phaser.GameObjects.Text {
+    const button = this.add.text(x, y, label, {
+      fontFamily: 'Arial Bold',
+      fontSize: '18px',
+      color,
+      stroke: '#FF00FF',
+      strokeThickness: 2
+    }).setOrigin(0.5);
+
+    button.setInteractive();
+    button.on('pointerdown', onClick);
+    button.on('pointerover', () => button.setScale(1.1));
+    button.on('pointerout', () => button.setScale(1.0));
+    return button;
+  }
+
+  private setupInput(): void {
+    this.input.keyboard?.on('keydown-SPACE', () => this.togglePlaying());
+    this.input.keyboard?.on('keydown-LEFT', () => this.seekTo(this.playbackTime - SEEK_STEP_MS));
+    this.input.keyboard?.on('keydown-RIGHT', () => this.seekTo(this.playbackTime + SEEK_STEP_MS));
+    this.input.keyboard?.once('keydown-ESC', () => this.exit());
+    REPLAY_SPEEDS.forEach((speed, index) => {
+      this.input.keyboard?.on(`keydown-${['ONE', 'TWO', 'THREE', 'FOUR'][index]}`, () => this.setSpeed(speed));
+    });
+  }
+
+  private seekTo(time: number): void {
+    this.playbackTime = Phaser.Math.Clamp(time, 0, this.player.getDuration());
+    this.player.seek(this.playbackTime);
+  }
+
+  private scrubTo(pointerX: number): void {
+    const progress = Phaser.Math.Clamp((pointerX - this.scrubBar.x) / this.scrubBar.width, 0, 1);
+    this.seekTo(progress * this.player.getDuration());
+  }
+
+  private togglePlaying(): void {
+    // Playing again from the end starts over
+    if (!this.isPlaying && this.player.isFinished()) {
+      this.seekTo(0);
+    }
+    this.setPlaying(!this.isPlaying);
+  }
+
+  private setPlaying(playing: boolean): void {
+    this.isPlaying = playing;
+    this.playButton.setText(playing ? 'Pause' : 'Play');
+  }
+
+  private setSpeed(speed: number): void {
+    this.speed = speed;
+    this.speedButtons.forEach((button, index) => {
+      button.setColor(REPLAY_SPEEDS[index] === speed ? '#FFFFFF' : '#00FFFF');
+    });
+  }
+
+  private exit(): void {
+    this.scene.start(this.returnTo.scene, this.returnTo.data);
+  }
+
+  private render(): void {
+    const state = this.player.getEngine().getState();
+    const { cellSize, boardX, boardY } = this;
+    const rows = state.board.length;
+    const columns = state.board[0]?.length ?? 0;
+    const graphics = this.boardGraphics;
+
+    graphics.clear();
+    graphics.fillStyle(0x001122, 0.9);
+    graphics.fillRect(boardX, boardY, columns * cellSize, rows * cellSize);
+    graphics.lineStyle(2, 0x00FFFF, 1);
+    graphics.strokeRect(boardX - 1, boardY - 1, columns * cellSize + 2, rows * cellSize + 2);
+
+    const drawCell = (x: number, y: number, color: number, alpha: number) => {
+      graphics.fillStyle(color, alpha);
+      graphics.fillRect(boardX + x * cellSize + 1, boardY + y * cellSize + 1, cellSize - 2, cellSize - 2);
+    };
+
+    state.board.forEach((row, y) => row.forEach((cell, x) => {
+      if (cell !== 0) drawCell(x, y, cell, 1);
+    }));
+
+    const piece = state.current;
+    if (piece) {
+      piece.shape.forEach((row, y) => row.forEach((cell, x) => {
+        if (cell && piece.y + y >= 0) drawCell(piece.x + x, piece.y + y, piece.color, 1);
+      }));
+    }
+
+    // Water rises from the bottom of the board
+    const waterHeight = state.water * rows * cellSize;
+    graphics.fillStyle(0x4169E1, 0.35);
+    graphics.fillRect(boardX, boardY + rows * cellSize - waterHeight, columns * cellSize, waterHeight);
+
+    this.statsText.setText([
+      `SCORE: ${state.score}`,
+      `LEVEL: ${state.level}`,
+      `LINES: ${state.lines}`,
+      `WATER: ${Math.round(state.water * 100)}%`,
+      state.gameOver ? 'GAME OVER' : ''
+    ].join('\n'));
+
+    this.renderScrubBar();
+  }
+
+  private renderScrubBar(): void {
+    const duration = this.player.getDuration();
+    const progress = duration > 0 ? this.playbackTime / duration : 1;
+    const bar = this.scrubBar;
+
+    this.scrubGraphics.clear();
+    this.scrubGraphics.fillStyle(0x333344, 1);
+    this.scrubGraphics.fillRoundedRect(bar.x, bar.y, bar.width, bar.height, 6);
+    this.scrubGraphics.fillStyle(0xFF00FF, 1);
+    this.scrubGraphics.fillRoundedRect(bar.x, bar.y, Math.max(bar.height, bar.width * progress), bar.height, 6);
+    this.scrubGraphics.fillStyle(0xFFFFFF, 1);
+    this.scrubGraphics.fillCircle(bar.x + bar.width * progress, bar.centerY, 10);
+
+    this.timeText.setText(`${this.formatTime(this.playbackTime)} / ${this.formatTime(duration)}`);
+  }
+
+  private formatTime(ms: number): string {
+    const totalSeconds = Math.floor(ms / 1000);
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+  }
+}
@@ -1,3 +1,5 @@
+import { RotationState } from '../../../shared/game/Rotation';
+
 export enum PieceType {
   I = 'I', // Line piece
   O = 'O', // Square piece  
@@ -14,12 +16,15 @@ export interface GamePiece {
   y: number;
   color: number;
   type?: PieceType;
+  rotation?: RotationState;
 }
 
 export interface PieceDefinition {
   shape: number[][];
   color: number;
   rotationStates: number[][][];
+  /** Where each trimmed rotation state sits inside the SRS bounding box */
+  rotationOffsets: [number, number][];
 }
 
 export interface GameConfig {
@@ -87,6 +92,7 @@ export interface GameMode {
     targetScore?: number;
     ghostPieces?: boolean;
     holdPiece?: boolean;
+    lockResetLimit?: number;
   };
 }
 
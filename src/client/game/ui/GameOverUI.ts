@@ -9,7 +9,8 @@ export interface GameOverData {
 }
 
 export interface GameOverCallbacks {
-  onSubmitScore: (data: GameOverData) => Promise<void>;
+  /** Resolves to 'queued' when the score couldn't be sent and waits in the offline outbox */
+  onSubmitScore: (data: GameOverData) => Promise<void | 'queued'>;
   onViewLeaderboard: () => void;
   onPlayAgain: () => void;
   onClose?: () => void;
@@ -359,7 +360,14 @@ export class GameOverUI {
     text.setText('⏳ Submitting...');
 
     try {
-      await this.callbacks.onSubmitScore(this.gameOverData);
+      const outcome = await this.callbacks.onSubmitScore(this.gameOverData);
+
+      // Saved for later: keep the button disabled so the run isn't queued twice
+      if (outcome === 'queued') {
+        text.setText('🕓 Queued');
+        this.uiManager.showToast('No connection. Your score will be submitted when you are back online.', 3000);
+        return;
+      }
       
       // Show success feedback
       text.setText('✅ Submitted!');
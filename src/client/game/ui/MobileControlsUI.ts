@@ -18,6 +18,7 @@ export interface MobileControlsConfig {
   visualFeedback: boolean;
   layout: 'horizontal' | 'gamepad' | 'enhanced' | 'wood-dpad';
   neonStyle: boolean;
+  showHoldButton: boolean; // Only honored by the wood-dpad layout
 }
 
 export type ButtonPressCallback = (action: InputAction) => void;
@@ -42,6 +43,7 @@ export class MobileControlsUI {
       visualFeedback: true,
       layout: 'enhanced',
       neonStyle: true,
+      showHoldButton: false,
       ...config
     };
   }
@@ -373,6 +375,36 @@ export class MobileControlsUI {
       }
     ).setOrigin(0.5);
     this.container!.add(dropLabel);
+    
+    if (this.config.showHoldButton) {
+      // Hold button sits to the left of the drop button, sharing its row
+      const holdButtonX = dropButtonX - buttonSize * 1.4;
+      const holdButtonConfig: MobileButtonConfig = {
+        action: InputAction.HOLD,
+        symbol: '⇄',
+        color: 0x66D9EF,
+        size: buttonSize,
+        position: { x: holdButtonX, y: dropButtonY }
+      };
+      
+      const holdButton = this.createMobileButton(holdButtonConfig, false, false);
+      this.buttons.set(holdButtonConfig.action, holdButton);
+      this.container!.add(holdButton.container);
+      
+      const holdLabel = this.scene.add.text(
+        holdButtonX,
+        dropButtonY + buttonSize * 0.5 + 12,
+        'HOLD',
+        {
+          fontFamily: 'Arial',
+          fontSize: '11px',
+          color: '#FFFFFF',
+          stroke: '#000000',
+          strokeThickness: 1
+        }
+      ).setOrigin(0.5);
+      this.container!.add(holdLabel);
+    }
   }
 
   private createModernDPadBackground(container: Phaser.GameObjects.Container, dPadSize: number): void {
@@ -1102,6 +1134,8 @@ class MobileButton {
           pattern = [15]; // Short, light vibration for movement
           break;
         case InputAction.ROTATE:
+        case InputAction.ROTATE_CCW:
+        case InputAction.ROTATE_180:
           pattern = [25, 10, 25]; // Double pulse for rotation
           break;
         case InputAction.SOFT_DROP:
@@ -1110,6 +1144,9 @@ class MobileButton {
         case InputAction.HARD_DROP:
           pattern = [50, 20, 30]; // Strong pattern for hard drop
           break;
+        case InputAction.HOLD:
+          pattern = [15, 10, 15]; // Light double tap for hold swap
+          break;
         default:
           pattern = [20]; // Default pattern
       }
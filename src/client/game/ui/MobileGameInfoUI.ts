@@ -5,6 +5,8 @@ export interface GameInfoData {
   level: number;
   lines: number;
   nextPiece?: string;
+  combo?: number;
+  backToBack?: boolean;
 }
 
 export interface MobileGameInfoConfig {
@@ -19,6 +21,8 @@ export interface MobileGameInfoConfig {
 }
 
 export class MobileGameInfoUI {
+  private static readonly COMBO_METER_MAX = 10;
+  
   private scene: Phaser.Scene;
   private config: MobileGameInfoConfig;
   private container: Phaser.GameObjects.Container;
@@ -27,7 +31,11 @@ export class MobileGameInfoUI {
   private levelText: Phaser.GameObjects.Text;
   private linesText: Phaser.GameObjects.Text;
   private nextPieceText: Phaser.GameObjects.Text;
+  private comboText: Phaser.GameObjects.Text;
+  private comboMeter: Phaser.GameObjects.Graphics;
   private background: Phaser.GameObjects.Graphics;
+  private combo: number = 0;
+  private backToBack: boolean = false;
 
   constructor(scene: Phaser.Scene, config?: Partial<MobileGameInfoConfig>) {
     this.scene = scene;
@@ -126,7 +134,35 @@ export class MobileGameInfoUI {
       this.nextPieceText = this.scene.add.text(-halfWidth + 10, startY + lineHeight * 3, 'NEXT: -', textStyle);
     }
     
-    this.container.add([this.scoreText, this.levelText, this.linesText, this.nextPieceText]);
+    // Combo meter hangs just below the panel so it never crowds the stats
+    this.comboText = this.scene.add.text(-halfWidth, halfHeight + 6, '', textStyle);
+    this.comboMeter = this.scene.add.graphics();
+    
+    this.container.add([this.scoreText, this.levelText, this.linesText, this.nextPieceText, this.comboText, this.comboMeter]);
+    this.drawComboMeter();
+  }
+
+  /**
+   * Draw the combo label and a bar that fills towards a 10 combo
+   */
+  private drawComboMeter(): void {
+    const { width, borderColor } = this.config;
+    const active = this.combo > 1;
+    
+    this.comboText.setText(active ? `COMBO x${this.combo}${this.backToBack ? ' B2B' : ''}` : (this.backToBack ? 'B2B' : ''));
+    
+    this.comboMeter.clear();
+    if (!active) return;
+    
+    const barWidth = width;
+    const barX = -width / 2;
+    const barY = this.comboText.y + this.comboText.height + 2;
+    const fill = Math.min(1, this.combo / MobileGameInfoUI.COMBO_METER_MAX);
+    
+    this.comboMeter.fillStyle(0xFFFFFF, 0.15);
+    this.comboMeter.fillRect(barX, barY, barWidth, 4);
+    this.comboMeter.fillStyle(this.backToBack ? 0xFF00FF : borderColor, 1.0);
+    this.comboMeter.fillRect(barX, barY, barWidth * fill, 4);
   }
 
   /**
@@ -148,6 +184,31 @@ export class MobileGameInfoUI {
     if (this.nextPieceText && data.nextPiece) {
       this.nextPieceText.setText(`NEXT: ${data.nextPiece}`);
     }
+    
+    if (data.combo !== undefined || data.backToBack !== undefined) {
+      const comboGrew = (data.combo ?? this.combo) > this.combo;
+      this.combo = data.combo ?? this.combo;
+      this.backToBack = data.backToBack ?? this.backToBack;
+      this.drawComboMeter();
+      
+      if (comboGrew && this.combo > 1) {
+        this.animateCombo();
+      }
+    }
+  }
+
+  /**
+   * Pop the combo label when the chain grows
+   */
+  private animateCombo(): void {
+    this.scene.tweens.add({
+      targets: this.comboText,
+      scaleX: 1.3,
+      scaleY: 1.3,
+      duration: 120,
+      ease: 'Power2',
+      yoyo: true
+    });
   }
 
   /**
@@ -170,11 +231,13 @@ export class MobileGameInfoUI {
     this.drawBackground();
     
     // Recreate texts with new config
-    this.container.remove([this.scoreText, this.levelText, this.linesText, this.nextPieceText]);
+    this.container.remove([this.scoreText, this.levelText, this.linesText, this.nextPieceText, this.comboText, this.comboMeter]);
     this.scoreText.destroy();
     this.levelText.destroy();
     this.linesText.destroy();
     this.nextPieceText.destroy();
+    this.comboText.destroy();
+    this.comboMeter.destroy();
     
     this.createTexts();
   }
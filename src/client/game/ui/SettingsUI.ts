@@ -1,4 +1,5 @@
 import { SettingsManager, SettingsCategory, GameSettings } from '../managers/SettingsManager';
+import { ProfileSyncManager } from '../managers/ProfileSyncManager';
 
 export interface SettingsUIConfig {
   width: number;
@@ -46,6 +47,8 @@ export class SettingsUI {
       this.container.destroy();
       this.container = null;
       this.scrollContainer = null;
+      // Carry the changed settings to the player's other devices
+      void ProfileSyncManager.getInstance().sync();
     }
   }
 
@@ -384,6 +384,24 @@ describe('GameOverUI', () => {
         expect(mockScene.time.delayedCall).toHaveBeenCalledWith(2000, expect.any(Function));
       }
     });
+
+    it('should show a queued score as pending without leaving the screen', async () => {
+      callbacks.onSubmitScore = vi.fn().mockResolvedValue('queued');
+
+      const submitCall = mockScene.mockContainer.on.mock.calls.find(
+        call => call[0] === 'pointerdown'
+      );
+
+      if (submitCall) {
+        await submitCall[1]();
+        expect(mockUIManager.showToast).toHaveBeenCalledWith(
+          'No connection. Your score will be submitted when you are back online.',
+          3000
+        );
+        expect(mockScene.time.delayedCall).not.toHaveBeenCalled();
+        expect(callbacks.onViewLeaderboard).not.toHaveBeenCalled();
+      }
+    });
   });
 
   describe('Responsive Design', () => {
@@ -0,0 +1,113 @@
+import {
+  API_ENDPOINTS,
+  ApiEndpoints,
+  ApiError,
+  ApiErrorCode,
+  isApiErrorResponse
+} from '../../../shared/types/api';
+import { Schema } from '../../../shared/types/schema';
+
+/**
+ * Typed client for the game's API, generated from the shared endpoint table.
+ * Requests are checked against the same schemas the server validates with
+ * before they are sent, and every failure (a rejected request, a server
+ * error or no connection at all) comes back as an ApiError rather than a
+ * thrown exception.
+ */
+
+export type ApiResult<T> =
+  | { ok: true; status: number; data: T }
+  | { ok: false; status: number; error: ApiError }; // status is 0 when nothing was sent or received
+
+type ApiMethod<E extends { request: unknown; response: unknown }> = [E['request']] extends [undefined]
+  ? () => Promise<ApiResult<E['response']>>
+  : (request: E['request']) => Promise<ApiResult<E['response']>>;
+
+export type ApiClient = { [K in keyof ApiEndpoints]: ApiMethod<ApiEndpoints[K]> };
+
+type AnyEndpoint = { method: 'GET' | 'POST' | 'PUT'; path: string; request: Schema<unknown> | null };
+
+/**
+ * A request's fields as a query string, in the order they were given and
+ * leaving out unset ones
+ */
+export const toQueryString = (query: object): string =>
+  new URLSearchParams(Object.entries(query)
+    .filter(([, value]) => value !== undefined && value !== null)
+    .map(([key, value]) => [key, String(value)])).toString();
+
+// For error bodies that aren't the envelope, such as a proxy's error page
+const getErrorCode = (status: number): ApiErrorCode => {
+  switch (status) {
+    case 401: return 'unauthorized';
+    case 403: return 'banned';
+    case 404: return 'not_found';
+    case 409: return 'conflict';
+    case 413: return 'payload_too_large';
+    case 429: return 'rate_limited';
+    default: return status >= 500 ? 'server_error' : 'invalid_request';
+  }
+};
+
+const request = async (endpoint: AnyEndpoint, body?: unknown): Promise<ApiResult<unknown>> => {
+  if (endpoint.request) {
+    const checked = endpoint.request.parse(body);
+    if (!checked.ok) {
+      console.error(`Not sending invalid ${endpoint.method} ${endpoint.path}:`, checked.issues);
+      return {
+        ok: false,
+        status: 0,
+        error: {
+          code: 'invalid_request',
+          message: 'Invalid request',
+          fields: checked.issues.map((issue) => issue.path),
+          details: checked.issues.map((issue) => issue.message)
+        }
+      };
+    }
+  }
+
+  let response: Response;
+  try {
+    if (endpoint.method === 'GET') {
+      const query = endpoint.request && body ? toQueryString(body) : '';
+      response = await fetch(query ? `${endpoint.path}?${query}` : endpoint.path);
+    } else {
+      response = await fetch(endpoint.path, {
+        method: endpoint.method,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+      });
+    }
+  } catch (error) {
+    console.warn(`${endpoint.method} ${endpoint.path} failed:`, error);
+    return {
+      ok: false,
+      status: 0,
+      error: { code: 'network_error', message: 'Network error. Please check your connection and try again.' }
+    };
+  }
+
+  const data: unknown = await response.json().catch(() => null);
+  if (response.ok) {
+    return { ok: true, status: response.status, data };
+  }
+
+  const code = getErrorCode(response.status);
+  return {
+    ok: false,
+    status: response.status,
+    error: isApiErrorResponse(data) ? data.error : {
+      code,
+      message: code === 'server_error' ? 'Server error. Please try again in a moment.' : `Request failed (status ${response.status})`
+    }
+  };
+};
+
+export const createApiClient = (): ApiClient =>
+  Object.fromEntries(Object.entries(API_ENDPOINTS).map(([name, endpoint]) =>
+    [name, (body?: unknown) => request(endpoint as AnyEndpoint, body)])) as ApiClient;
+
+export const api = createApiClient();
@@ -424,8 +424,10 @@ export class ErrorRecovery {
       fixedState.currentPiece = null;
     }
 
-    if (state.nextPiece && !ValidationUtils.validateGamePiece(state.nextPiece).isValid) {
-      fixedState.nextPiece = null;
+    if (Array.isArray(state.nextQueue)) {
+      fixedState.nextQueue = (state.nextQueue as unknown[]).filter(piece => ValidationUtils.validateGamePiece(piece).isValid);
+    } else {
+      fixedState.nextQueue = [];
     }
 
     return fixedState;
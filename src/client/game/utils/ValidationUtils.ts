@@ -1,4 +1,5 @@
 import { GamePiece, PieceType, ScoreEntry } from '../types/GameTypes';
+import { checkRunPlausibility } from '../../../shared/game/Plausibility';
 
 export interface ValidationResult {
   isValid: boolean;
@@ -200,6 +201,14 @@ export class ValidationUtils {
       result.isValid = false;
     }
 
+    // Check the totals add up under the game rules (the server applies the same limits)
+    if (result.isValid) {
+      for (const issue of checkRunPlausibility(entry)) {
+        result.errors.push(issue.message);
+        result.isValid = false;
+      }
+    }
+
     return result;
   }
 
@@ -239,14 +248,16 @@ export class ValidationUtils {
       }
     }
 
-    // Validate next piece
-    if (state.nextPiece) {
-      const nextPieceValidation = this.validateGamePiece(state.nextPiece);
-      result.errors.push(...nextPieceValidation.errors.map(e => `Next piece: ${e}`));
-      result.warnings.push(...nextPieceValidation.warnings.map(w => `Next piece: ${w}`));
-      if (!nextPieceValidation.isValid) {
-        result.isValid = false;
-      }
+    // Validate next queue
+    if (Array.isArray(state.nextQueue)) {
+      (state.nextQueue as unknown[]).forEach((piece, index) => {
+        const nextPieceValidation = this.validateGamePiece(piece);
+        result.errors.push(...nextPieceValidation.errors.map(e => `Next piece ${index + 1}: ${e}`));
+        result.warnings.push(...nextPieceValidation.warnings.map(w => `Next piece ${index + 1}: ${w}`));
+        if (!nextPieceValidation.isValid) {
+          result.isValid = false;
+        }
+      });
     }
 
     // Validate numeric properties
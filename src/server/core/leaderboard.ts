@@ -0,0 +1,602 @@
+import { context, redis } from '@devvit/web/server';
+import {
+  CLIENT_ID_PATTERN,
+  LEADERBOARD_MODES,
+  LEADERBOARD_PERIODS,
+  LEADERBOARD_SCOPES,
+  LeaderboardEntry,
+  LeaderboardMetric,
+  LeaderboardMode,
+  LeaderboardPeriod,
+  LeaderboardScope
+} from '../../shared/types/api';
+import { ReplayVerification } from '../../shared/game/ReplayVerification';
+import { getPeriodEnd, getPeriodKey, getPeriodStart, getPreviousPeriodTime } from '../../shared/leaderboard/Periods';
+import { SEASONAL_LEVEL_COUNT, decodeStars, encodeStars, getLeaderboardMetric, isAscendingMetric } from '../../shared/leaderboard/Modes';
+
+/**
+ * Leaderboard storage.
+ *
+ * Each board's sorted set holds one member per player, keyed by their stable
+ * user key and scored with their best result on that board; everything else
+ * about the run lives in a per-player hash next to it. Top-N is a ranged
+ * zRange and rank is a zRank, so no request has to load the whole board.
+ *
+ * Every game mode has its own boards, and every campaign level has a board
+ * of the best star ratings earned on it. Each of those exists per post, per
+ * subreddit and globally, in a daily, weekly, monthly and all-time flavour,
+ * and a run is recorded to every board it belongs to. Boards for a finished period expire a week after
+ * it ends; before that their winners are snapshotted into an archive that is
+ * kept for good.
+ *
+ * Redis is per installation, so global boards live in the app-wide keyspace
+ * (`redis.global`) that every subreddit running the game shares.
+ */
+
+const GLOBAL_SCORES_KEY = 'dam-attack:scores';
+const GLOBAL_BOARDS_KEY = `${GLOBAL_SCORES_KEY}:global`;
+const isGlobalBoard = (boardKey: string): boolean => boardKey.startsWith(GLOBAL_BOARDS_KEY);
+/** The keyspace a board (and its player hashes and archives) is kept in */
+const storeFor = (boardKey: string) => (isGlobalBoard(boardKey) ? redis.global : redis);
+const playerKey = (boardKey: string, userKey: string) => `${boardKey}:player:${userKey}`;
+/** Every board a player is on, so their history can be moved to another identity */
+const playerBoardsKey = (userKey: string) => `${GLOBAL_SCORES_KEY}:player-boards:${userKey}`;
+
+/** How long a finished period's board is kept around for archiving */
+const PERIOD_RETENTION_SECONDS = 7 * 24 * 60 * 60;
+/** Winners kept in a period's archive */
+const ARCHIVE_SIZE = 10;
+
+/** The old layout: JSON members in one sorted set, one per submission */
+const LEGACY_LEADERBOARD_KEY = 'dam-attack:leaderboard';
+const LEGACY_MIGRATION_KEY = 'dam-attack:migrations:leaderboard';
+// Held while a migration runs; expires in case the run dies half way
+const LEGACY_MIGRATION_LOCK_KEY = 'dam-attack:migrations:leaderboard:lock';
+const LEGACY_MIGRATION_LOCK_MS = 5 * 60 * 1000;
+
+export type Board = {
+  scope: LeaderboardScope;
+  period: LeaderboardPeriod;
+  mode: LeaderboardMode;
+  level: number | null; // Campaign level, for a best-star board
+  metric: LeaderboardMetric;
+  key: string;
+  /** Where the period's winners are snapshotted once it is over (not for all-time) */
+  archiveKey: string | null;
+  start: number;
+  end: number; // Infinity for all-time
+};
+
+/** Which family of boards: a mode's, or a campaign level's best stars */
+export type BoardSelection = {
+  mode?: LeaderboardMode;
+  level?: number | null;
+};
+
+/** The post or subreddit a board belongs to, when it is not the current request's */
+export type ScopeTarget = {
+  postId?: string | undefined;
+  subredditName?: string | undefined;
+};
+
+export type PlayerRecord = {
+  username: string;
+  score: number;
+  time?: number;
+  stars?: number;
+  level: number;
+  lines: number;
+  timestamp: number;
+  isRedditUser: boolean;
+  isAnonymous?: boolean;
+  verification?: ReplayVerification;
+};
+
+export type PlayerStanding = {
+  score: number; // The value the board ranks by
+  rank: number; // 1-based, best result first
+  total: number;
+};
+
+export const parseScope = (value: unknown): LeaderboardScope | null =>
+  LEADERBOARD_SCOPES.find((scope) => scope === value) ?? null;
+
+export const parseAnonymousId = (value: unknown): string | null =>
+  typeof value === 'string' && CLIENT_ID_PATTERN.test(value) ? value : null;
+
+export const parsePeriod = (value: unknown): LeaderboardPeriod | null =>
+  LEADERBOARD_PERIODS.find((period) => period === value) ?? null;
+
+const getScopeKey = (
+  scope: LeaderboardScope,
+  { postId = context.postId, subredditName = context.subredditName }: ScopeTarget = {}
+): string | null => {
+  switch (scope) {
+    case 'post':
+      return postId ? `${GLOBAL_SCORES_KEY}:post:${postId}` : null;
+    case 'subreddit':
+      return subredditName ? `${GLOBAL_SCORES_KEY}:subreddit:${subredditName}` : null;
+    case 'global':
+      return GLOBAL_BOARDS_KEY;
+  }
+};
+
+// Classic keeps the original, mode-less keys so the boards from before modes carry on
+const getFamilyKey = (scopeKey: string, mode: LeaderboardMode, level: number | null): string => {
+  if (level !== null) return `${scopeKey}:level:${level}`;
+  return mode === 'classic' ? scopeKey : `${scopeKey}:mode:${mode}`;
+};
+
+/**
+ * The `period` board for `scope` that contains `time`, or null if the
+ * current request's context has no post or subreddit to scope it to
+ */
+export const getBoard = (
+  scope: LeaderboardScope,
+  period: LeaderboardPeriod = 'alltime',
+  time: number = Date.now(),
+  { mode = 'classic', level = null }: BoardSelection = {},
+  target: ScopeTarget = {}
+): Board | null => {
+  const scopeKey = getScopeKey(scope, target);
+  if (!scopeKey) return null;
+
+  const familyKey = getFamilyKey(scopeKey, mode, level);
+  const metric = getLeaderboardMetric(mode, level);
+  const start = getPeriodStart(period, time);
+  const end = getPeriodEnd(period, time);
+  if (period === 'alltime') {
+    return { scope, period, mode, level, metric, key: familyKey, archiveKey: null, start, end };
+  }
+
+  const periodKey = getPeriodKey(period, time);
+  return {
+    scope,
+    period,
+    mode,
+    level,
+    metric,
+    key: `${familyKey}:${period}:${periodKey}`,
+    archiveKey: `${familyKey}:${period}:archive:${periodKey}`,
+    start,
+    end
+  };
+};
+
+/** Every board of one family that a run submitted from the current context right now counts towards */
+export const getBoards = (
+  selection: BoardSelection = {},
+  time: number = Date.now(),
+  scopes: readonly LeaderboardScope[] = LEADERBOARD_SCOPES
+): Board[] =>
+  scopes.flatMap((scope) => LEADERBOARD_PERIODS.map((period) => getBoard(scope, period, time, selection)))
+    .filter((board): board is Board => board !== null);
+
+/**
+ * Every board of `scopes` a run played at `time` counts towards: its mode's
+ * and, for a completed campaign level, that level's. Boards of periods that
+ * have ended since are left out, as their winners may already be archived.
+ */
+export const getSubmissionBoards = (
+  mode: LeaderboardMode,
+  level: number | null,
+  time: number = Date.now(),
+  scopes: readonly LeaderboardScope[] = LEADERBOARD_SCOPES
+): Board[] => [
+  ...getBoards({ mode }, time, scopes),
+  ...(level === null ? [] : getBoards({ mode, level }, time, scopes))
+].filter((board) => board.end > Date.now());
+
+/** Every family of boards: each mode's, and each campaign level's best stars */
+const getAllSelections = (): BoardSelection[] => [
+  ...LEADERBOARD_MODES.map((mode) => ({ mode })),
+  ...Array.from({ length: SEASONAL_LEVEL_COUNT }, (_, index): BoardSelection => ({ mode: 'campaign', level: index + 1 }))
+];
+
+const toHash = (record: PlayerRecord): Record<string, string> => {
+  const hash: Record<string, string> = {
+    username: record.username,
+    score: String(record.score),
+    level: String(record.level),
+    lines: String(record.lines),
+    timestamp: String(record.timestamp),
+    isRedditUser: String(record.isRedditUser),
+    isAnonymous: String(record.isAnonymous ?? false)
+  };
+  if (record.time !== undefined) {
+    hash.time = String(record.time);
+  }
+  if (record.stars !== undefined) {
+    hash.stars = String(record.stars);
+  }
+  if (record.verification) {
+    hash.verification = JSON.stringify(record.verification);
+  }
+  return hash;
+};
+
+const fromHash = (hash: Record<string, string>): PlayerRecord => {
+  const record: PlayerRecord = {
+    username: hash.username || 'Unknown Player',
+    score: Number(hash.score) || 0,
+    level: Number(hash.level) || 1,
+    lines: Number(hash.lines) || 0,
+    timestamp: Number(hash.timestamp) || Date.now(),
+    isRedditUser: hash.isRedditUser === 'true',
+    isAnonymous: hash.isAnonymous === 'true'
+  };
+  if (hash.time) {
+    record.time = Number(hash.time);
+  }
+  if (hash.stars) {
+    record.stars = Number(hash.stars);
+  }
+  if (hash.verification) {
+    try {
+      record.verification = JSON.parse(hash.verification);
+    } catch {
+      // A damaged verification blob just leaves the entry unverified
+    }
+  }
+  return record;
+};
+
+/**
+ * Move the old JSON-member sorted set into the per-player layout. A lock
+ * makes concurrent callers skip it, and the done flag is only set once every
+ * entry is copied, so a migration that fails part way runs again (copying
+ * an entry twice is harmless).
+ */
+const migrateLegacyLeaderboard = async (): Promise<void> => {
+  if (await redis.get(LEGACY_MIGRATION_KEY)) return;
+  const board = getBoard('subreddit');
+  if (!board) return;
+
+  const now = Date.now();
+  const claimed = await redis.set(LEGACY_MIGRATION_LOCK_KEY, String(now), {
+    nx: true,
+    expiration: new Date(now + LEGACY_MIGRATION_LOCK_MS)
+  });
+  if (!claimed) return;
+
+  try {
+    await copyLegacyEntries(board);
+    await redis.set(LEGACY_MIGRATION_KEY, String(Date.now()));
+  } finally {
+    await redis.del(LEGACY_MIGRATION_LOCK_KEY);
+  }
+};
+
+// Unreadable entries are skipped, but a failed write stops the copy so the migration runs again
+const copyLegacyEntries = async (board: Board): Promise<void> => {
+  const legacyEntries = await redis.zRange(LEGACY_LEADERBOARD_KEY, 0, -1);
+  for (const entry of legacyEntries) {
+    let userData;
+    try {
+      userData = JSON.parse(entry.member);
+    } catch (parseError) {
+      console.error('Skipping unreadable legacy leaderboard entry:', entry.member, parseError);
+      continue;
+    }
+
+    const userKey: string = userData.userKey || `legacy_${entry.score}_${userData.timestamp}`;
+    const existing = await redis.zScore(board.key, userKey);
+    if (existing !== undefined && existing >= entry.score) continue;
+
+    await redis.hSet(playerKey(board.key, userKey), toHash({
+      username: userData.username || 'Unknown Player',
+      score: entry.score,
+      level: userData.level || 1,
+      lines: userData.lines || 0,
+      timestamp: userData.timestamp || Date.now(),
+      isRedditUser: Boolean(userData.isRedditUser),
+      isAnonymous: Boolean(userData.isAnonymous),
+      verification: userData.verification
+    }));
+    await redis.zAdd(board.key, { member: userKey, score: entry.score });
+  }
+  console.log(`Migrated ${legacyEntries.length} legacy leaderboard entries`);
+};
+
+let migration: Promise<void> | null = null;
+
+const ensureMigrated = (): Promise<void> => {
+  migration ??= migrateLegacyLeaderboard().catch((error) => {
+    console.error('Leaderboard migration failed:', error);
+    migration = null;
+  });
+  return migration;
+};
+
+/**
+ * What the player is ranked by on `board`, or undefined if the run doesn't
+ * belong on it (a Sprint that never reached its target, a level without stars)
+ */
+const getRankedValue = (board: Board, record: PlayerRecord): number | undefined => {
+  switch (board.metric) {
+    case 'score':
+      return record.score;
+    case 'time':
+      return record.time;
+    case 'stars':
+      return record.stars === undefined ? undefined : encodeStars(record.stars, record.score);
+  }
+};
+
+const toEntry = (board: Board, record: PlayerRecord, value: number): LeaderboardEntry => {
+  const entry: LeaderboardEntry = {
+    username: record.username,
+    score: Math.floor(value),
+    level: record.level,
+    lines: record.lines,
+    timestamp: record.timestamp,
+    verification: record.verification?.status || 'unverified'
+  };
+
+  if (board.metric === 'time') {
+    entry.score = record.score;
+    entry.time = value;
+  } else if (board.metric === 'stars') {
+    const { stars, score } = decodeStars(value);
+    entry.score = score;
+    entry.stars = stars;
+  }
+  return entry;
+};
+
+/**
+ * `limit` players starting `offset` places from the top, best result first.
+ * The viewer's own row, if it is on the page, is flagged.
+ */
+export const getEntries = async (
+  board: Board,
+  offset: number,
+  limit: number,
+  viewerKey: string | null = null
+): Promise<LeaderboardEntry[]> => {
+  await ensureMigrated();
+
+  const store = storeFor(board.key);
+  const page = await store.zRange(board.key, offset, offset + limit - 1, { by: 'rank', reverse: !isAscendingMetric(board.metric) });
+  const hashes = await Promise.all(page.map((entry) => store.hGetAll(playerKey(board.key, entry.member))));
+
+  return page.map((entry, index) => ({
+    ...toEntry(board, fromHash(hashes[index] ?? {}), entry.score),
+    rank: offset + index + 1,
+    ...(entry.member === viewerKey && { isCurrentUser: true })
+  }));
+};
+
+/**
+ * The `count` best players, best result first
+ */
+export const getTopEntries = (board: Board, count: number): Promise<LeaderboardEntry[]> => getEntries(board, 0, count);
+
+/**
+ * The viewer's row with up to `radius` players either side of it, or null if
+ * they are not on the board
+ */
+export const getEntriesAround = async (
+  board: Board,
+  viewerKey: string,
+  radius: number
+): Promise<{ offset: number; entries: LeaderboardEntry[] } | null> => {
+  const standing = await getPlayerStanding(board, viewerKey);
+  if (!standing) return null;
+
+  const offset = Math.max(0, standing.rank - 1 - radius);
+  const limit = standing.rank - offset + radius;
+  return { offset, entries: await getEntries(board, offset, limit, viewerKey) };
+};
+
+/**
+ * A player's best score and rank, or null if they are not on the board
+ */
+export const getPlayerStanding = async (board: Board, userKey: string): Promise<PlayerStanding | null> => {
+  await ensureMigrated();
+
+  const store = storeFor(board.key);
+  const [score, ascendingRank, total] = await Promise.all([
+    store.zScore(board.key, userKey),
+    store.zRank(board.key, userKey),
+    store.zCard(board.key)
+  ]);
+  if (score === undefined || ascendingRank === undefined) return null;
+
+  // zRank counts from the lowest value, which is the best one on time boards
+  const rank = isAscendingMetric(board.metric) ? ascendingRank + 1 : total - ascendingRank;
+  return { score, rank, total };
+};
+
+export const getPlayerCount = (board: Board): Promise<number> => storeFor(board.key).zCard(board.key);
+
+const isImprovement = (metric: LeaderboardMetric, value: number, best: number | undefined): boolean =>
+  isAscendingMetric(metric) ? value < (best ?? Infinity) : value > (best ?? -Infinity);
+
+/** What the player-boards index remembers about a board */
+type BoardIndexEntry = { metric: LeaderboardMetric; end: number | null };
+
+/**
+ * Rank `userKey` on a board with `value` and `hash` as its metadata, keeping
+ * period boards (and the player's hash) around only until they are archived
+ */
+const storeOnBoard = async (
+  boardKey: string,
+  { metric, end }: BoardIndexEntry,
+  userKey: string,
+  value: number,
+  hash: Record<string, string>
+): Promise<void> => {
+  const store = storeFor(boardKey);
+  // Write the hash first so every ranked member has its metadata
+  await store.hSet(playerKey(boardKey, userKey), hash);
+  await store.zAdd(boardKey, { member: userKey, score: value });
+  await redis.hSet(playerBoardsKey(userKey), { [boardKey]: JSON.stringify({ metric, end }) });
+
+  if (end !== null) {
+    const ttl = Math.ceil((end - Date.now()) / 1000) + PERIOD_RETENTION_SECONDS;
+    await Promise.all([store.expire(boardKey, ttl), store.expire(playerKey(boardKey, userKey), ttl)]);
+  }
+};
+
+/**
+ * Store the run as the player's best if it beats their current one.
+ * Returns whether the board changed.
+ */
+export const recordScore = async (board: Board, userKey: string, record: PlayerRecord): Promise<boolean> => {
+  await ensureMigrated();
+
+  const value = getRankedValue(board, record);
+  if (value === undefined) return false;
+
+  const best = await storeFor(board.key).zScore(board.key, userKey);
+  if (!isImprovement(board.metric, value, best)) return false;
+
+  const end = board.end === Infinity ? null : board.end;
+  await storeOnBoard(board.key, { metric: board.metric, end }, userKey, value, toHash(record));
+  return true;
+};
+
+/**
+ * Move everything `fromKey` has on the leaderboards to `toKey`, keeping the
+ * better result wherever both are ranked. Used when an anonymous player logs
+ * in; returns how many boards improved for `toKey`.
+ */
+export const mergePlayer = async (fromKey: string, toKey: string, username: string): Promise<number> => {
+  await ensureMigrated();
+
+  const boards = await redis.hGetAll(playerBoardsKey(fromKey));
+  let improved = 0;
+
+  for (const [boardKey, indexEntry] of Object.entries(boards)) {
+    let board: BoardIndexEntry;
+    try {
+      board = JSON.parse(indexEntry);
+    } catch {
+      continue;
+    }
+
+    const store = storeFor(boardKey);
+    const [value, best] = await Promise.all([store.zScore(boardKey, fromKey), store.zScore(boardKey, toKey)]);
+    if (value !== undefined && isImprovement(board.metric, value, best)) {
+      const hash = await store.hGetAll(playerKey(boardKey, fromKey));
+      await storeOnBoard(boardKey, board, toKey, value, {
+        ...hash,
+        username,
+        isRedditUser: 'true',
+        isAnonymous: 'false'
+      });
+      improved++;
+    }
+
+    // value is undefined once a period board has expired; there is nothing left to move
+    await store.zRem(boardKey, [fromKey]);
+    await store.del(playerKey(boardKey, fromKey));
+  }
+
+  await redis.del(playerBoardsKey(fromKey));
+  return improved;
+};
+
+/**
+ * Take `userKey` off every board of this community they are ranked on.
+ * Returns how many entries were removed; archived winners of finished
+ * periods are left alone, and so are the global boards every community shares.
+ */
+export const removePlayer = async (userKey: string): Promise<number> => {
+  await ensureMigrated();
+
+  const indexed = Object.keys(await redis.hGetAll(playerBoardsKey(userKey)));
+  // Results recorded before boards were indexed can only be found on the current context's boards
+  const current = getAllSelections().flatMap((selection) => getBoards(selection)).map((board) => board.key);
+  const local = [...new Set([...indexed, ...current])].filter((boardKey) => !isGlobalBoard(boardKey));
+
+  const removed = await Promise.all(local.map(async (boardKey) => {
+    const count = await redis.zRem(boardKey, [userKey]);
+    await redis.del(playerKey(boardKey, userKey));
+    return count;
+  }));
+
+  await redis.del(playerBoardsKey(userKey));
+  return removed.reduce((total, count) => total + count, 0);
+};
+
+/**
+ * Clear every current board of `scope`, across all modes, levels and periods.
+ * Returns how many entries were removed; archives are kept.
+ */
+export const resetScope = async (scope: LeaderboardScope, target: ScopeTarget = {}): Promise<number> => {
+  await ensureMigrated();
+
+  const now = Date.now();
+  const boards = getAllSelections()
+    .flatMap((selection) => LEADERBOARD_PERIODS.map((period) => getBoard(scope, period, now, selection, target)))
+    .filter((board): board is Board => board !== null);
+
+  const removed = await Promise.all(boards.map(async (board) => {
+    const store = storeFor(board.key);
+    const members = await store.zRange(board.key, 0, -1);
+    await Promise.all(members.map((entry) => store.del(playerKey(board.key, entry.member))));
+    await store.del(board.key);
+    return members.length;
+  }));
+
+  return removed.reduce((total, count) => total + count, 0);
+};
+
+/**
+ * Record the run to every board in `boards`, returning the player's
+ * standing on each one afterwards
+ */
+export const recordScoreEverywhere = async (
+  boards: Board[],
+  userKey: string,
+  record: PlayerRecord
+): Promise<{ board: Board; standing: PlayerStanding | null }[]> =>
+  Promise.all(boards.map(async (board) => {
+    await recordScore(board, userKey, record);
+    return { board, standing: await getPlayerStanding(board, userKey) };
+  }));
+
+/**
+ * The winners of a finished period. The first read after the period ends
+ * snapshots them from the (soon to expire) board into its archive.
+ */
+export const getArchivedEntries = async (board: Board): Promise<LeaderboardEntry[]> => {
+  if (!board.archiveKey || board.end > Date.now()) return [];
+
+  const store = storeFor(board.key);
+  const archived = await store.get(board.archiveKey);
+  if (archived) {
+    try {
+      return JSON.parse(archived);
+    } catch (parseError) {
+      console.error('Unreadable leaderboard archive:', board.archiveKey, parseError);
+    }
+  }
+
+  const winners = await getTopEntries(board, ARCHIVE_SIZE);
+  if (winners.length > 0) {
+    await store.set(board.archiveKey, JSON.stringify(winners));
+  }
+  return winners;
+};
+
+/**
+ * The board for the period before the one `board` covers
+ */
+export const getPreviousBoard = (board: Board): Board | null =>
+  getBoard(board.scope, board.period, getPreviousPeriodTime(board.period, board.start), board);
+
+/**
+ * Snapshot the winners of every period that has just ended, unless that has
+ * already happened
+ */
+export const archivePreviousPeriods = async (boards: Board[]): Promise<void> => {
+  const previous = boards
+    .filter((board) => board.archiveKey !== null)
+    .map(getPreviousBoard)
+    .filter((board): board is Board => board !== null);
+
+  await Promise.all(previous.map(getArchivedEntries));
+};
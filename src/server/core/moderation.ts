@@ -0,0 +1,147 @@
+import { context, reddit, redis } from '@devvit/web/server';
+import { LeaderboardMode } from '../../shared/types/api';
+import { ReplayVerificationStatus } from '../../shared/game/ReplayVerification';
+
+/**
+ * Moderator tools for the leaderboard.
+ *
+ * Bans, the flagged-score queue and the audit log all belong to the
+ * subreddit they were made in. Players are identified by the same user keys
+ * the leaderboard uses (`reddit_<id>`, `anon_<id>`).
+ */
+
+const MODERATION_KEY = 'dam-attack:moderation';
+const subredditKey = () => `${MODERATION_KEY}:${context.subredditName ?? 'unknown'}`;
+const bansKey = () => `${subredditKey()}:bans`;
+const flaggedKey = () => `${subredditKey()}:flagged`;
+const auditLogKey = () => `${subredditKey()}:audit`;
+
+/** Audit log entries kept per subreddit, newest first */
+const AUDIT_LOG_SIZE = 500;
+/** Scores waiting for review; new flags are dropped once the queue is full */
+const FLAGGED_QUEUE_SIZE = 100;
+
+export type ModeratorAction = 'remove-entries' | 'ban' | 'unban' | 'reset-scope' | 'dismiss-flag';
+
+export type AuditLogEntry = {
+  action: ModeratorAction;
+  moderator: string;
+  target: string; // A user key or a board scope
+  details?: string;
+  timestamp: number;
+};
+
+export type Ban = {
+  username: string;
+  moderator: string;
+  reason: string;
+  timestamp: number;
+};
+
+export type FlaggedScore = {
+  id: string;
+  userKey: string;
+  username: string;
+  score: number;
+  mode: LeaderboardMode;
+  verification: ReplayVerificationStatus;
+  reason: string;
+  timestamp: number;
+};
+
+/** A player a moderator named in a form */
+export type PlayerTarget = {
+  userKey: string;
+  username: string;
+};
+
+const parseJson = <T>(value: string | undefined): T | null => {
+  if (!value) return null;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Who a moderator means: a Reddit username (with or without `u/`) or a user
+ * key copied from the flagged queue. Null if no such Reddit user exists.
+ */
+export const resolvePlayer = async (input: unknown): Promise<PlayerTarget | null> => {
+  if (typeof input !== 'string' || !input.trim()) return null;
+
+  const name = input.trim();
+  if (/^(reddit|anon)_\S+$/.test(name)) {
+    return { userKey: name, username: name };
+  }
+
+  const user = await reddit.getUserByUsername(name.replace(/^\/?u\//, ''));
+  return user ? { userKey: `reddit_${user.id}`, username: `u/${user.username}` } : null;
+};
+
+/** The moderator making the current request, for the audit log */
+export const getModeratorName = async (): Promise<string> => {
+  const username = await reddit.getCurrentUsername();
+  return username ? `u/${username}` : 'unknown moderator';
+};
+
+export const logModeratorAction = async (entry: Omit<AuditLogEntry, 'timestamp'>): Promise<void> => {
+  const timestamp = Date.now();
+  await redis.zAdd(auditLogKey(), { member: JSON.stringify({ ...entry, timestamp }), score: timestamp });
+  await redis.zRemRangeByRank(auditLogKey(), 0, -(AUDIT_LOG_SIZE + 1));
+};
+
+/**
+ * The `count` most recent moderator actions, newest first
+ */
+export const getAuditLog = async (count: number): Promise<AuditLogEntry[]> => {
+  const entries = await redis.zRange(auditLogKey(), 0, count - 1, { by: 'rank', reverse: true });
+  return entries
+    .map((entry) => parseJson<AuditLogEntry>(entry.member))
+    .filter((entry): entry is AuditLogEntry => entry !== null);
+};
+
+export const isBanned = async (userKey: string): Promise<boolean> =>
+  (await redis.hGet(bansKey(), userKey)) !== undefined;
+
+export const banPlayer = async (player: PlayerTarget, moderator: string, reason: string): Promise<void> => {
+  const ban: Ban = { username: player.username, moderator, reason, timestamp: Date.now() };
+  await redis.hSet(bansKey(), { [player.userKey]: JSON.stringify(ban) });
+};
+
+/**
+ * Lift a ban; returns whether the player was banned
+ */
+export const unbanPlayer = async (userKey: string): Promise<boolean> =>
+  (await redis.hDel(bansKey(), [userKey])) > 0;
+
+/**
+ * Queue a score for moderator review. A player has at most one flag per
+ * mode; a newer one replaces it.
+ */
+export const flagScore = async (flag: Omit<FlaggedScore, 'id' | 'timestamp'>): Promise<void> => {
+  const id = `${flag.userKey}:${flag.mode}`;
+  const existing = await redis.hGet(flaggedKey(), id);
+  if (existing === undefined && (await redis.hLen(flaggedKey())) >= FLAGGED_QUEUE_SIZE) return;
+
+  const flagged: FlaggedScore = { ...flag, id, timestamp: Date.now() };
+  await redis.hSet(flaggedKey(), { [id]: JSON.stringify(flagged) });
+};
+
+/**
+ * Every score waiting for review, newest first
+ */
+export const getFlaggedScores = async (): Promise<FlaggedScore[]> => {
+  const flags = await redis.hGetAll(flaggedKey());
+  return Object.values(flags)
+    .map((flag) => parseJson<FlaggedScore>(flag))
+    .filter((flag): flag is FlaggedScore => flag !== null)
+    .sort((a, b) => b.timestamp - a.timestamp);
+};
+
+export const dismissFlags = async (ids: string[]): Promise<void> => {
+  if (ids.length > 0) {
+    await redis.hDel(flaggedKey(), ids);
+  }
+};
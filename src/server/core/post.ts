@@ -1,21 +1,28 @@
 import { context, reddit } from '@devvit/web/server';
+import { DailyChallengeConfig } from '../../shared/types/api';
+import { createDailyChallenge } from '../../shared/game/DailyChallenge';
 
-export const createPost = async () => {
+const SPLASH = {
+  appDisplayName: 'dam-attack',
+  backgroundUri: 'splash-background.png',
+  appIconUri: 'app-icon.png',
+  heading: 'Welcome to DAM ATTACK!',
+  description: 'Help the beaver build its dam! Challenge yourself to get on the leaderboard.',
+  buttonLabel: 'Start Building!'
+};
+
+const getSubredditName = (): string => {
   const { subredditName } = context;
   if (!subredditName) {
     throw new Error('subredditName is required');
   }
+  return subredditName;
+};
 
+export const createPost = async () => {
   return await reddit.submitCustomPost({
-    splash: {
-      appDisplayName: 'dam-attack',
-      backgroundUri: 'splash-background.png',
-      appIconUri: 'app-icon.png',
-      heading: 'Welcome to DAM ATTACK!',
-      description: 'Help the beaver build its dam! Challenge yourself to get on the leaderboard.',
-      buttonLabel: 'Start Building!'
-    },
-    subredditName: subredditName,
+    splash: SPLASH,
+    subredditName: getSubredditName(),
     title: 'dam-attack',
     postData: {
       gameState: 'initial',
@@ -24,3 +31,21 @@ export const createPost = async () => {
     }
   });
 };
+
+/**
+ * A post for today's challenge. Its postData carries the seed, mode and
+ * level every player on it gets.
+ */
+export const createDailyChallengePost = async (challenge: DailyChallengeConfig = createDailyChallenge()) => {
+  return await reddit.submitCustomPost({
+    splash: {
+      ...SPLASH,
+      heading: `Daily Challenge: ${challenge.date}`,
+      description: `Same pieces for everyone: ${challenge.mode} mode on level ${challenge.level}. Top this post's leaderboard!`,
+      buttonLabel: 'Take the Challenge!'
+    },
+    subredditName: getSubredditName(),
+    title: `dam-attack Daily Challenge: ${challenge.date}`,
+    postData: challenge
+  });
+};
@@ -0,0 +1,59 @@
+import { redis } from '@devvit/web/server';
+import { PlayerProfile, parseProfile } from '../../shared/profile/Profile';
+
+/**
+ * Cloud saves. Each Reddit account has one profile, stored as JSON and
+ * stamped with a version that goes up on every save.
+ */
+
+const PROFILE_KEY = 'dam-attack:profile';
+const profileKey = (userId: string) => `${PROFILE_KEY}:${userId}`;
+
+export const getProfile = async (userId: string): Promise<PlayerProfile | null> => {
+  const stored = await redis.get(profileKey(userId));
+  if (!stored) return null;
+
+  try {
+    return parseProfile(JSON.parse(stored));
+  } catch {
+    console.error(`Stored profile for ${userId} is not valid JSON`);
+    return null;
+  }
+};
+
+export type SaveProfileResult =
+  | { saved: true; profile: PlayerProfile }
+  | { saved: false; profile: PlayerProfile | null };
+
+/**
+ * Store `profile` as the next version, provided the stored one is still
+ * `baseVersion`. Otherwise nothing is written and the stored profile is
+ * returned for the client to merge. The key is watched from the version
+ * check to the write, so of two saves on the same version only one lands.
+ */
+export const saveProfile = async (
+  userId: string,
+  profile: PlayerProfile,
+  baseVersion: number,
+  now: number = Date.now()
+): Promise<SaveProfileResult> => {
+  const key = profileKey(userId);
+  const txn = await redis.watch(key);
+
+  const current = await getProfile(userId);
+  if ((current?.version ?? 0) !== baseVersion) {
+    await txn.unwatch();
+    return { saved: false, profile: current };
+  }
+
+  const saved: PlayerProfile = { ...profile, version: baseVersion + 1, updatedAt: now };
+  await txn.multi();
+  await txn.set(key, JSON.stringify(saved));
+  const results = await txn.exec();
+
+  // Redis drops the transaction if the profile was written after the watch
+  if (!results || results.length === 0) {
+    return { saved: false, profile: await getProfile(userId) };
+  }
+  return { saved: true, profile: saved };
+};
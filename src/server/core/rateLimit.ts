@@ -0,0 +1,59 @@
+import { redis } from '@devvit/web/server';
+
+/**
+ * Per-player rate limits, counted in fixed windows. Each window's counter is
+ * its own key and expires with the window.
+ */
+
+const RATE_LIMIT_KEY = 'dam-attack:rate-limit';
+
+export type RateLimit = {
+  /** Requests allowed per window */
+  limit: number;
+  windowMs: number;
+};
+
+/** A run takes a while to play; anything faster than this is a script */
+export const SUBMIT_RATE_LIMITS: RateLimit[] = [
+  { limit: 5, windowMs: 60 * 1000 },
+  { limit: 60, windowMs: 60 * 60 * 1000 }
+];
+
+/**
+ * Anonymous ids are picked by the client, so a fresh id gets a fresh
+ * allowance; every anonymous submission on a post also counts against this
+ */
+export const ANONYMOUS_POST_RATE_LIMITS: RateLimit[] = [
+  { limit: 30, windowMs: 60 * 1000 },
+  { limit: 300, windowMs: 60 * 60 * 1000 }
+];
+
+export type RateLimitResult = { allowed: true } | { allowed: false; retryAfterMs: number };
+
+/**
+ * Count a `bucket` request by `userKey` against every limit, rejecting it
+ * if any of them is used up
+ */
+export const consumeRateLimit = async (
+  bucket: string,
+  userKey: string,
+  limits: RateLimit[],
+  now: number = Date.now()
+): Promise<RateLimitResult> => {
+  let retryAfterMs = 0;
+
+  for (const { limit, windowMs } of limits) {
+    const windowStart = Math.floor(now / windowMs) * windowMs;
+    const key = `${RATE_LIMIT_KEY}:${bucket}:${windowMs}:${windowStart}:${userKey}`;
+
+    const count = await redis.incrBy(key, 1);
+    if (count === 1) {
+      await redis.expire(key, Math.ceil(windowMs / 1000));
+    }
+    if (count > limit) {
+      retryAfterMs = Math.max(retryAfterMs, windowStart + windowMs - now);
+    }
+  }
+
+  return retryAfterMs > 0 ? { allowed: false, retryAfterMs } : { allowed: true };
+};
@@ -0,0 +1,32 @@
+import { redis } from '@devvit/web/server';
+import { SubmitScoreResponse } from '../../shared/types/api';
+
+/**
+ * Idempotent score submissions. Clients send each run with a submission id
+ * and may retry it (from their offline outbox) without knowing whether an
+ * earlier attempt got through; the response to the first accepted attempt
+ * is kept and returned again instead of recording the run twice.
+ */
+
+const SUBMISSION_KEY = 'dam-attack:submission';
+const submissionKey = (userKey: string, submissionId: string) => `${SUBMISSION_KEY}:${userKey}:${submissionId}`;
+
+/** Longer than a client keeps a submission in its outbox */
+const SUBMISSION_TTL_SECONDS = 8 * 24 * 60 * 60;
+
+export const getRecordedSubmission = async (userKey: string, submissionId: string): Promise<SubmitScoreResponse | null> => {
+  const stored = await redis.get(submissionKey(userKey, submissionId));
+  if (!stored) return null;
+
+  try {
+    return JSON.parse(stored) as SubmitScoreResponse;
+  } catch {
+    return null;
+  }
+};
+
+export const recordSubmission = async (userKey: string, submissionId: string, response: SubmitScoreResponse): Promise<void> => {
+  const key = submissionKey(userKey, submissionId);
+  await redis.set(key, JSON.stringify(response));
+  await redis.expire(key, SUBMISSION_TTL_SECONDS);
+};
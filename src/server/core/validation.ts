@@ -0,0 +1,59 @@
+import express from 'express';
+import { ApiError, ApiErrorResponse, EndpointDefinition } from '../../shared/types/api';
+
+/**
+ * Request validation and the error envelope for the /api routes. Requests
+ * are checked against the schemas in the shared API table before a handler
+ * runs, and every failure is answered as `{ type: 'error', error }`.
+ */
+
+export const sendError = (res: express.Response, status: number, error: ApiError): void => {
+  const response: ApiErrorResponse = { type: 'error', error };
+  res.status(status).json(response);
+};
+
+/**
+ * Middleware that checks a request against its endpoint's schema. The typed
+ * request is left for the handler in `res.locals.request`; see getRequest.
+ */
+export const validateRequest = <Request>(endpoint: EndpointDefinition<Request>): express.RequestHandler =>
+  (req, res, next) => {
+    if (!endpoint.request) {
+      next();
+      return;
+    }
+
+    const result = endpoint.request.parse(endpoint.method === 'GET' ? req.query : req.body);
+    if (!result.ok) {
+      console.warn(`Rejected ${endpoint.method} ${endpoint.path}:`, result.issues);
+      sendError(res, 400, {
+        code: 'invalid_request',
+        message: 'Invalid request',
+        fields: [...new Set(result.issues.map((issue) => issue.path.split('.')[0] ?? issue.path))],
+        details: result.issues.map((issue) => issue.message)
+      });
+      return;
+    }
+
+    res.locals.request = result.value;
+    next();
+  };
+
+/** The request validateRequest accepted for `endpoint` */
+export const getRequest = <Request>(res: express.Response, _endpoint: EndpointDefinition<Request>): Request =>
+  res.locals.request as Request;
+
+/**
+ * Last-resort handler, so bodies express can't parse get the envelope too
+ */
+export const handleApiError: express.ErrorRequestHandler = (error, _req, res, _next) => {
+  const status = typeof error?.status === 'number' ? error.status : 500;
+  if (status === 413) {
+    sendError(res, 413, { code: 'payload_too_large', message: 'Request is too large' });
+  } else if (status >= 400 && status < 500) {
+    sendError(res, status, { code: 'invalid_request', message: 'Request body could not be read' });
+  } else {
+    console.error('Unhandled server error:', error);
+    sendError(res, 500, { code: 'server_error', message: 'Something went wrong. Please try again.' });
+  }
+};
@@ -0,0 +1,52 @@
+import { ReplayVerification, verifyReplay } from '../../shared/game/ReplayVerification';
+import { checkRunPlausibility } from '../../shared/game/Plausibility';
+import { ApiError, SubmitScoreRequest } from '../../shared/types/api';
+
+export type Rejection = { accepted: false; status: number; error: ApiError };
+
+export type SubmissionCheck = { accepted: true; verification: ReplayVerification } | Rejection;
+
+/**
+ * Re-simulate the replay sent with a score submission. Submissions without a
+ * replay are accepted but stored as unverified; replays that break the rules
+ * or don't reproduce the claimed result are rejected.
+ */
+export const checkSubmission = (replay: unknown, score: number, level: number, lines: number, mode?: string): SubmissionCheck => {
+  const verification = verifyReplay(replay, { score, level, lines, ...(mode !== undefined && { mode }) });
+
+  if (verification.status === 'invalid' || verification.status === 'mismatch') {
+    console.warn(`Replay verification failed (${verification.status}): ${verification.reason}`);
+    return {
+      accepted: false,
+      status: verification.status === 'invalid' ? 400 : 422,
+      error: {
+        code: 'replay_rejected',
+        message: 'Your replay could not be verified, so the score was not submitted.',
+        ...(verification.reason && { details: [verification.reason] })
+      }
+    };
+  }
+
+  return { accepted: true, verification };
+};
+
+/**
+ * Check a submission's totals against the game rules before anything else
+ * looks at it: out-of-range fields are a 400, totals the rules can't
+ * produce a 422.
+ */
+export const validateSubmission = ({ score, level, lines, modeId, time }: SubmitScoreRequest): { accepted: true } | Rejection => {
+  const issues = checkRunPlausibility({ score, level, lines, mode: modeId, time });
+  if (issues.length === 0) return { accepted: true };
+
+  const invalid = issues.some((issue) => issue.kind === 'invalid');
+  const error: ApiError = {
+    code: invalid ? 'invalid_request' : 'implausible_score',
+    message: invalid ? 'Invalid score data provided' : 'That score is not possible for the lines cleared.',
+    fields: issues.map((issue) => issue.field),
+    details: issues.map((issue) => issue.message)
+  };
+  console.warn('Rejected score submission:', error);
+
+  return { accepted: false, status: invalid ? 400 : 422, error };
+};
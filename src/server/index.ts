@@ -1,12 +1,69 @@
 import express from 'express';
-import { InitResponse, IncrementResponse, DecrementResponse, LeaderboardResponse, SubmitScoreResponse, LeaderboardEntry } from '../shared/types/api';
+import { UiResponse } from '@devvit/web/shared';
+import {
+  API_ENDPOINTS,
+  FeatureFlags,
+  InitResponse,
+  LeaderboardResponse,
+  MergeIdentityResponse,
+  ProfileResponse,
+  RedditUserResponse,
+  SaveProfileResponse,
+  SubmitScoreRequest,
+  SubmitScoreResponse,
+  LeaderboardEntry,
+  LEADERBOARD_SCOPES,
+  LeaderboardMode,
+  LeaderboardScope
+} from '../shared/types/api';
 import { redis, reddit, createServer, context } from '@devvit/web/server';
-import { createPost } from './core/post';
+import { createDailyChallengePost, createPost } from './core/post';
+import { checkSubmission, validateSubmission } from './core/verification';
+import { ANONYMOUS_POST_RATE_LIMITS, RateLimit, SUBMIT_RATE_LIMITS, consumeRateLimit } from './core/rateLimit';
+import { getProfile, saveProfile } from './core/profile';
+import { getRequest, handleApiError, sendError, validateRequest } from './core/validation';
+import { getRecordedSubmission, recordSubmission } from './core/submissions';
+import {
+  Board,
+  PlayerRecord,
+  PlayerStanding,
+  archivePreviousPeriods,
+  getArchivedEntries,
+  getBoard,
+  getEntries,
+  getEntriesAround,
+  getPlayerCount,
+  getPlayerStanding,
+  getPreviousBoard,
+  getSubmissionBoards,
+  mergePlayer,
+  parseAnonymousId,
+  recordScoreEverywhere,
+  removePlayer,
+  resetScope
+} from './core/leaderboard';
+import {
+  banPlayer,
+  dismissFlags,
+  flagScore,
+  getAuditLog,
+  getFlaggedScores,
+  getModeratorName,
+  isBanned,
+  logModeratorAction,
+  resolvePlayer,
+  unbanPlayer
+} from './core/moderation';
+import { ReplayVerification } from '../shared/game/ReplayVerification';
+import { SPRINT_TARGET_LINES, getLevelTargetLines, getStarRating, isSeasonalLevel } from '../shared/leaderboard/Modes';
+import { MIN_SPRINT_TIME_MS } from '../shared/game/Plausibility';
+import { createDailyChallenge, parseDailyChallenge } from '../shared/game/DailyChallenge';
+import { MAX_PROFILE_BYTES } from '../shared/profile/Profile';
 
 const app = express();
 
-// Middleware for JSON body parsing
-app.use(express.json());
+// Middleware for JSON body parsing (score submissions carry a replay)
+app.use(express.json({ limit: '1mb' }));
 // Middleware for URL-encoded body parsing
 app.use(express.urlencoded({ extended: true }));
 // Middleware for plain text body parsing
@@ -14,210 +71,313 @@ app.use(express.text());
 
 const router = express.Router();
 
-router.get<{ postId: string }, InitResponse | { status: string; message: string }>(
-  '/api/init',
-  async (_req, res): Promise<void> => {
-    const { postId } = context;
-
-    if (!postId) {
-      console.error('API Init Error: postId not found in devvit context');
-      res.status(400).json({
-        status: 'error',
-        message: 'postId is required but missing from context',
-      });
-      return;
-    }
-
-    try {
-      const count = await redis.get('count');
-      res.json({
-        type: 'init',
-        postId: postId,
-        count: count ? parseInt(count) : 0,
-      });
-    } catch (error) {
-      console.error(`API Init Error for post ${postId}:`, error);
-      let errorMessage = 'Unknown error during initialization';
-      if (error instanceof Error) {
-        errorMessage = `Initialization failed: ${error.message}`;
-      }
-      res.status(400).json({ status: 'error', message: errorMessage });
+// All-time rank per scope on the run's mode board, for the submit response
+const toRanks = (standings: { board: Board; standing: PlayerStanding | null }[]): Partial<Record<LeaderboardScope, number>> =>
+  Object.fromEntries(standings
+    .filter(({ board, standing }) => board.period === 'alltime' && board.level === null && standing)
+    .map(({ board, standing }) => [board.scope, standing!.rank]));
+
+const findSubredditStanding = (standings: { board: Board; standing: PlayerStanding | null }[]): PlayerStanding | null =>
+  standings.find(({ board }) => board.scope === 'subreddit' && board.period === 'alltime' && board.level === null)?.standing ?? null;
+
+// Unverified runs that reach the top ten of any board they land on go to the moderators for review
+const FLAG_RANK_THRESHOLD = 10;
+
+// 'subreddit all-time sprint board', 'post daily level 4 board'
+const describeBoard = (board: Board): string =>
+  `${board.scope} ${board.period === 'alltime' ? 'all-time' : board.period} ${board.level !== null ? `level ${board.level}` : board.mode} board`;
+
+const flagIfSuspicious = async (
+  userKey: string,
+  username: string,
+  score: number,
+  mode: LeaderboardMode,
+  verification: ReplayVerification,
+  standings: { board: Board; standing: PlayerStanding | null }[]
+): Promise<void> => {
+  if (verification.status !== 'unverified') return;
+
+  // Mode, level and time boards alike; the best placing is the one reported
+  const top = standings
+    .filter((entry): entry is { board: Board; standing: PlayerStanding } =>
+      entry.standing !== null && entry.standing.rank <= FLAG_RANK_THRESHOLD)
+    .sort((a, b) => a.standing.rank - b.standing.rank)[0];
+  if (!top) return;
+
+  await flagScore({
+    userKey,
+    username,
+    score,
+    mode,
+    verification: verification.status,
+    reason: `Unverified score ranked #${top.standing.rank} on the ${describeBoard(top.board)}`
+  });
+};
+
+// Checked before the replay is re-simulated, so flooding the endpoint stays cheap
+const checkRateLimit = async (
+  res: express.Response,
+  userKey: string,
+  bucket: string = 'submit',
+  limits: RateLimit[] = SUBMIT_RATE_LIMITS
+): Promise<boolean> => {
+  const result = await consumeRateLimit(bucket, userKey, limits);
+  if (result.allowed) return true;
+
+  res.setHeader('Retry-After', String(Math.ceil(result.retryAfterMs / 1000)));
+  sendError(res, 429, {
+    code: 'rate_limited',
+    message: 'Too many scores submitted. Please wait a moment and try again.',
+    retryAfterMs: result.retryAfterMs
+  });
+  return false;
+};
+
+const DEFAULT_PAGE_SIZE = 10;
+const DEFAULT_AROUND_RADIUS = 5;
+
+const notAuthenticated = (res: express.Response): void =>
+  sendError(res, 401, { code: 'unauthorized', message: 'User not authenticated' });
+
+type RunDetails = Pick<PlayerRecord, 'time' | 'stars'> & { level: number | null };
+
+// What ranks the run beyond its score: a finished Sprint's time, a completed campaign level's stars.
+// Both are worked out from the verified replay, never taken from the client
+const getRunDetails = (
+  mode: LeaderboardMode,
+  { globalLevel, replay }: Partial<SubmitScoreRequest>,
+  lines: number,
+  verification: ReplayVerification
+): RunDetails => {
+  const runTime = verification.status === 'verified' ? verification.duration : undefined;
+  const finishedSprint = mode === 'sprint' && lines >= SPRINT_TARGET_LINES && runTime !== undefined && runTime >= MIN_SPRINT_TIME_MS;
+
+  // The replay has to be of the level claimed and clear the lines it asks for
+  const level = mode === 'campaign' && isSeasonalLevel(globalLevel) && replay?.level === globalLevel ? globalLevel : null;
+  const targetLines = level !== null ? getLevelTargetLines(level) : null;
+  const completedLevel = level !== null && targetLines !== null && runTime !== undefined && lines >= targetLines;
+
+  return {
+    level: completedLevel ? level : null,
+    ...(finishedSprint && { time: runTime }),
+    ...(completedLevel && { stars: getStarRating(runTime, lines, targetLines) })
+  };
+};
+
+/**
+ * The scopes a run is recorded in. A daily challenge post's own boards only
+ * take runs of its challenge: a verified replay of its seed, in its mode
+ */
+const getSubmissionScopes = (mode: LeaderboardMode, replay: SubmitScoreRequest['replay'], verification: ReplayVerification): LeaderboardScope[] => {
+  const challenge = parseDailyChallenge(context.postData);
+  if (!challenge) return LEADERBOARD_SCOPES;
+
+  const playedChallenge = verification.status === 'verified' && replay?.seed === challenge.seed && mode === challenge.mode;
+  return playedChallenge ? LEADERBOARD_SCOPES : LEADERBOARD_SCOPES.filter((scope) => scope !== 'post');
+};
+
+// Features the client turns on at startup; switch one off here to disable it without a client release
+const FEATURE_FLAGS: FeatureFlags = {
+  cloudSave: true,
+  dailyChallenge: true
+};
+
+// The Reddit user's name with their best score and rank on the subreddit's all-time board
+const getRedditUser = async (userId: NonNullable<typeof context.userId>): Promise<RedditUserResponse> => {
+  const user = await reddit.getUserById(userId);
+
+  let bestScore = 0;
+  let currentRank: number | undefined;
+  try {
+    const board = getBoard('subreddit');
+    const standing = board ? await getPlayerStanding(board, `reddit_${userId}`) : null;
+    if (standing) {
+      bestScore = standing.score;
+      currentRank = standing.rank;
     }
+  } catch (redisError) {
+    console.warn('Error checking user score:', redisError);
   }
-);
-
-router.post<{ postId: string }, IncrementResponse | { status: string; message: string }, unknown>(
-  '/api/increment',
-  async (_req, res): Promise<void> => {
-    const { postId } = context;
-    if (!postId) {
-      res.status(400).json({
-        status: 'error',
-        message: 'postId is required',
-      });
-      return;
-    }
 
-    res.json({
-      count: await redis.incrBy('count', 1),
-      postId,
-      type: 'increment',
-    });
+  return {
+    username: `u/${user?.username || 'Unknown'}`,
+    authenticated: true,
+    bestScore: Math.floor(bestScore),
+    ...(currentRank !== undefined && { currentRank })
+  };
+};
+
+// Session bootstrap: who the player is, this post's challenge, their cloud save version and the feature flags
+router.get(API_ENDPOINTS.init.path, async (_req, res): Promise<void> => {
+  const { postId, userId } = context;
+
+  if (!postId) {
+    console.error('API Init Error: postId not found in devvit context');
+    sendError(res, 400, { code: 'invalid_request', message: 'postId is required but missing from context' });
+    return;
   }
-);
-
-router.post<{ postId: string }, DecrementResponse | { status: string; message: string }, unknown>(
-  '/api/decrement',
-  async (_req, res): Promise<void> => {
-    const { postId } = context;
-    if (!postId) {
-      res.status(400).json({
-        status: 'error',
-        message: 'postId is required',
-      });
-      return;
-    }
 
-    res.json({
-      count: await redis.incrBy('count', -1),
-      postId,
-      type: 'decrement',
-    });
+  try {
+    const [user, profile] = userId
+      ? await Promise.all([getRedditUser(userId), getProfile(userId)])
+      : [null, null];
+
+    const response: InitResponse = {
+      type: 'init',
+      postId: postId,
+      user,
+      challenge: parseDailyChallenge(context.postData),
+      profileVersion: profile?.version ?? null,
+      features: FEATURE_FLAGS
+    };
+    res.json(response);
+  } catch (error) {
+    console.error(`API Init Error for post ${postId}:`, error);
+    sendError(res, 500, { code: 'server_error', message: 'Initialization failed' });
   }
-);
+});
 
 // Get Reddit username and current best score from Devvit context
-router.get('/api/reddit-user', async (_req, res): Promise<void> => {
+router.get(API_ENDPOINTS.redditUser.path, async (_req, res): Promise<void> => {
   try {
     const { userId } = context;
 
     if (!userId) {
-      res.status(401).json({
-        status: 'error',
-        message: 'User not authenticated'
-      });
+      notAuthenticated(res);
       return;
     }
 
-    // Get user info from Reddit API
-    const user = await reddit.getUserById(userId);
-
-    // Check if user has a score on the leaderboard
-    const leaderboardKey = 'dam-attack:leaderboard';
-    const userKey = `reddit_${userId}`;
-    let bestScore = 0;
-    let currentRank = null;
-
-    try {
-      const allScores = await redis.zRange(leaderboardKey, 0, -1);
-
-      // Sort by score in descending order (same as leaderboard display)
-      const sortedScores = allScores.sort((a, b) => b.score - a.score);
-
-      // Find user's best score and rank
-      for (let i = 0; i < sortedScores.length; i++) {
-        const entry = sortedScores[i];
-        if (!entry) continue;
-
-        try {
-          const userData = JSON.parse(entry.member);
-          if (userData.userKey === userKey) {
-            bestScore = Math.max(bestScore, entry.score);
-            currentRank = i + 1; // 1-based ranking
-          }
-        } catch (parseError) {
-          continue;
-        }
-      }
-    } catch (redisError) {
-      console.warn('Error checking user score:', redisError);
-    }
-
-    res.json({
-      username: `u/${user?.username || 'Unknown'}`,
-      authenticated: true,
-      bestScore: Math.floor(bestScore),
-      currentRank
-    });
+    res.json(await getRedditUser(userId));
   } catch (error) {
     console.error('Error getting Reddit user:', error);
-    res.status(500).json({
-      status: 'error',
-      message: 'Failed to get user info'
-    });
+    sendError(res, 500, { code: 'server_error', message: 'Failed to get user info' });
   }
 });
 
 // Leaderboard API endpoints using Redis sorted sets
-router.get('/api/leaderboard', async (_req, res): Promise<void> => {
+router.get(API_ENDPOINTS.leaderboard.path, validateRequest(API_ENDPOINTS.leaderboard), async (_req, res): Promise<void> => {
   try {
-    const leaderboardKey = 'dam-attack:leaderboard';
-
-    // Get all scores from Redis sorted set
-    const entries = await redis.zRange(leaderboardKey, 0, -1);
+    const query = getRequest(res, API_ENDPOINTS.leaderboard);
+    const scope = query.scope ?? 'subreddit';
+    const period = query.period ?? 'alltime';
+
+    // A level's best-star board belongs to the campaign
+    const level = query.level ?? null;
+    const mode = level !== null ? 'campaign' : query.mode ?? 'classic';
+    if (level !== null && !isSeasonalLevel(level)) {
+      sendError(res, 400, { code: 'invalid_request', message: 'level must be a campaign level', fields: ['level'] });
+      return;
+    }
 
-    // Sort by score in descending order (highest first) and take top 10
-    const sortedEntries = entries
-      .sort((a, b) => b.score - a.score)
-      .slice(0, 10);
+    const offset = query.offset ?? 0;
+    const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+    const radius = query.radius ?? DEFAULT_AROUND_RADIUS;
 
-    const leaderboard: LeaderboardEntry[] = [];
+    // previous=true asks for the archived winners of the last finished period
+    const archived = (query.previous ?? false) && period !== 'alltime';
+    const currentBoard = getBoard(scope, period, Date.now(), { mode, level });
+    const board = archived && currentBoard ? getPreviousBoard(currentBoard) : currentBoard;
+    if (!board) {
+      sendError(res, 404, { code: 'not_found', message: `No ${scope} leaderboard in this context` });
+      return;
+    }
 
-    // Parse each entry
-    for (const entry of sortedEntries) {
-      try {
-        // Parse the JSON string stored in Redis
-        const userData = JSON.parse(entry.member);
-        leaderboard.push({
-          username: userData.username || 'Unknown Player',
-          score: Math.floor(entry.score),
-          level: userData.level || 1,
-          lines: userData.lines || 0,
-          timestamp: userData.timestamp || Date.now()
-        });
-      } catch (parseError) {
-        console.error('Failed to parse entry:', entry.member, parseError);
-        // Skip invalid entries
-        continue;
-      }
+    const viewerKey = context.userId ? `reddit_${context.userId}` : null;
+    let page: { offset: number; entries: LeaderboardEntry[] };
+    let total: number;
+    let playerRank: number | null = null;
+
+    if (archived) {
+      const winners = await getArchivedEntries(board);
+      page = {
+        offset,
+        entries: winners.slice(offset, offset + limit).map((entry, index) => ({ ...entry, rank: offset + index + 1 }))
+      };
+      total = winners.length;
+    } else {
+      // aroundMe=true centres the page on the caller, falling back to the top if they aren't ranked
+      const around = query.aroundMe && viewerKey ? await getEntriesAround(board, viewerKey, radius) : null;
+      page = around ?? { offset, entries: await getEntries(board, offset, limit, viewerKey) };
+      total = await getPlayerCount(board);
+      playerRank = viewerKey ? (await getPlayerStanding(board, viewerKey))?.rank ?? null : null;
     }
 
     const response: LeaderboardResponse = {
       type: 'leaderboard',
-      entries: leaderboard
+      scope,
+      period,
+      mode,
+      level,
+      metric: board.metric,
+      periodStart: board.start,
+      periodEnd: board.end === Infinity ? null : board.end,
+      archived,
+      offset: page.offset,
+      total,
+      playerRank,
+      entries: page.entries
     };
 
     res.json(response);
   } catch (error) {
     console.error('Error fetching leaderboard:', error);
-    res.status(500).json({
-      status: 'error',
-      message: 'Failed to fetch leaderboard'
-    });
+    sendError(res, 500, { code: 'server_error', message: 'Failed to fetch leaderboard' });
   }
 });
 
-router.post('/api/submit-score', async (req, res): Promise<void> => {
+router.post(API_ENDPOINTS.submitScore.path, validateRequest(API_ENDPOINTS.submitScore), async (_req, res): Promise<void> => {
   try {
-    console.log('Score submission request received:', req.body);
-    console.log('Devvit context:', { userId: context.userId, postId: context.postId });
-    
-    const { score, level, lines } = req.body;
+    const request = getRequest(res, API_ENDPOINTS.submitScore);
+    const { score, level, lines, replay, modeId, submissionId } = request;
+    const mode = modeId ?? 'classic';
     const { userId } = context;
+    console.log('Score submission request received:', { score, level, lines, hasReplay: replay !== undefined });
+    console.log('Devvit context:', { userId: context.userId, postId: context.postId });
+
+    // Logged-out players are told apart by their stable anonymous id, as on the anonymous endpoint
+    const guestId = userId ? null : parseAnonymousId(request.anonymousId);
+    const submitterKey = userId ? `reddit_${userId}` : guestId ? `anon_${guestId}` : 'anon_unidentified';
+
+    // A retry of a submission that already got through gets the same answer
+    const recorded = submissionId ? await getRecordedSubmission(submitterKey, submissionId) : null;
+    if (recorded) {
+      res.json(recorded);
+      return;
+    }
+
+    if (!(await checkRateLimit(res, submitterKey))) return;
+    if (!userId && !(await checkRateLimit(res, `post_${context.postId ?? 'none'}`, 'submit-anonymous', ANONYMOUS_POST_RATE_LIMITS))) return;
 
-    if (typeof score !== 'number' || typeof level !== 'number' || typeof lines !== 'number') {
-      res.status(400).json({
-        type: 'submitScore',
-        success: false,
-        message: 'Invalid score data provided'
-      });
+    const totals = validateSubmission(request);
+    if (!totals.accepted) {
+      sendError(res, totals.status, totals.error);
       return;
     }
 
+    // Re-simulate the replay before anything touches the leaderboard
+    const check = checkSubmission(replay, score, level, lines, modeId);
+    if (!check.accepted) {
+      sendError(res, check.status, check.error);
+      return;
+    }
+    const { verification } = check;
+    const run = getRunDetails(mode, request, lines, verification);
+
     let username = 'Anonymous Player';
     let isRedditUser = false;
 
-    // Try to get Reddit username with better error handling
+    // Reddit users are keyed by their id alone, so a failed name lookup can't get them past a ban
+    const userKey = userId
+      ? `reddit_${userId}`
+      : guestId
+        ? `anon_${guestId}`
+        : `anon_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+    if (await isBanned(userKey)) {
+      sendError(res, 403, { code: 'banned', message: 'You have been banned from submitting scores in this community.' });
+      return;
+    }
+
     if (userId) {
       try {
         const user = await reddit.getUserById(userId);
@@ -225,90 +385,40 @@ router.post('/api/submit-score', async (req, res): Promise<void> => {
         isRedditUser = true;
         console.log(`Reddit user ${username} submitting score: ${score}`);
       } catch (authError) {
-        console.warn('Reddit authentication failed:', authError);
-        console.warn('userId available but getUserById failed:', userId);
-        // Still try to use a consistent fallback based on userId
-        username = `Player_${userId.slice(-8)}`;
+        // Retryable: the client keeps the score and sends it again later
+        console.warn('userId available but getUserById failed:', userId, authError);
+        sendError(res, 503, { code: 'server_error', message: 'Could not look up your Reddit account. Please try again.' });
+        return;
       }
     } else {
       console.warn('No userId in context, using anonymous submission');
       console.warn('Context:', { userId: context.userId, postId: context.postId });
     }
 
-    const leaderboardKey = 'dam-attack:leaderboard';
-
-    // Create unique member identifier for this user
-    // Use userId for Reddit users, or fallback to username for anonymous
-    const userKey = isRedditUser ? `reddit_${userId}` : `anon_${username}`;
-
-    // Check if user already has a score by getting all scores and searching
-    const existingScores = await redis.zRange(leaderboardKey, 0, -1);
-    let existingScore = 0;
-    let existingEntry = null;
-
-    // Find existing score for this user
-    for (const entry of existingScores) {
-      try {
-        const userData = JSON.parse(entry.member);
-        if (userData.userKey === userKey) {
-          existingScore = entry.score;
-          existingEntry = entry.member;
-          break;
-        }
-      } catch (parseError) {
-        // Skip invalid entries
-        continue;
-      }
-    }
-
-    // Only update if this is a better score
-    if (score > existingScore) {
-      // Remove old entry if it exists
-      if (existingEntry) {
-        await redis.zRem(leaderboardKey, [existingEntry]);
-      }
+    // A run sent late from the offline outbox counts for the periods it was played in
+    const playedAt = Math.min(request.playedAt ?? Date.now(), Date.now());
 
-      // Create new member data with user key for uniqueness
-      const memberData = JSON.stringify({
-        username,
-        level,
-        lines,
-        timestamp: Date.now(),
-        userKey,
-        isRedditUser
-      });
-
-      // Add new score to sorted set
-      await redis.zAdd(leaderboardKey, { member: memberData, score });
-
-      console.log(`Score updated for ${username}: ${existingScore} -> ${score}`);
-    } else {
-      console.log(`Score not updated for ${username}: ${score} <= ${existingScore}`);
-    }
-
-    // Get user's current rank (1-based) - sort by score first like the leaderboard
-    const currentScores = await redis.zRange(leaderboardKey, 0, -1);
-    let userRank = null;
-
-    // Sort by score in descending order (same as leaderboard display)
-    const sortedScores = currentScores.sort((a, b) => b.score - a.score);
+    // Each board only keeps the player's best result
+    const boards = getSubmissionBoards(mode, run.level, playedAt, getSubmissionScopes(mode, replay, verification));
+    const standings = await recordScoreEverywhere(boards, userKey, {
+      username,
+      score,
+      ...(run.time !== undefined && { time: run.time }),
+      ...(run.stars !== undefined && { stars: run.stars }),
+      level,
+      lines,
+      timestamp: playedAt,
+      isRedditUser,
+      verification
+    });
+    console.log(`Score recorded for ${username}: ${score}`);
 
-    for (let i = 0; i < sortedScores.length; i++) {
-      const entry = sortedScores[i];
-      if (!entry) continue;
-      try {
-        const userData = JSON.parse(entry.member);
-        if (userData.userKey === userKey) {
-          userRank = i + 1; // 1-based ranking
-          break;
-        }
-      } catch (parseError) {
-        continue;
-      }
-    }
+    await flagIfSuspicious(userKey, username, score, mode, verification, standings);
+    await archivePreviousPeriods(boards);
 
-    // Get total number of players
-    const totalPlayers = await redis.zCard(leaderboardKey);
+    const standing = findSubredditStanding(standings);
+    const userRank = standing?.rank ?? null;
+    const totalPlayers = standing?.total ?? 0;
 
     let message = 'Score submitted successfully!';
     if (userRank !== null) {
@@ -323,77 +433,92 @@ router.post('/api/submit-score', async (req, res): Promise<void> => {
       type: 'submitScore',
       success: true,
       rank: userRank || 0,
-      message
+      ranks: toRanks(standings),
+      message,
+      verification: verification.status
     };
 
+    if (submissionId) {
+      await recordSubmission(submitterKey, submissionId, response);
+    }
     res.json(response);
   } catch (error) {
     console.error('Error submitting score:', error);
-    res.status(500).json({
-      type: 'submitScore',
-      success: false,
-      message: 'Failed to submit score. Please try again.'
-    });
+    sendError(res, 500, { code: 'server_error', message: 'Failed to submit score. Please try again.' });
   }
 });
 
-router.post('/api/submit-anonymous', async (req, res): Promise<void> => {
+router.post(API_ENDPOINTS.submitAnonymous.path, validateRequest(API_ENDPOINTS.submitAnonymous), async (_req, res): Promise<void> => {
   try {
-    console.log('Anonymous score submission request received:', req.body);
-    const { score, level, lines } = req.body;
-
-    if (typeof score !== 'number' || typeof level !== 'number' || typeof lines !== 'number') {
-      res.status(400).json({
-        type: 'submitScore',
-        success: false,
-        message: 'Invalid score data provided'
-      });
+    const request = getRequest(res, API_ENDPOINTS.submitAnonymous);
+    const { score, level, lines, replay, modeId, anonymousId, submissionId } = request;
+    const mode = modeId ?? 'classic';
+    console.log('Anonymous score submission request received:', { score, level, lines, hasReplay: replay !== undefined });
+
+    // Clients without a stable anonymous id share one allowance
+    const stableId = parseAnonymousId(anonymousId);
+    const submitterKey = stableId ? `anon_${stableId}` : 'anon_unidentified';
+    const recorded = submissionId ? await getRecordedSubmission(submitterKey, submissionId) : null;
+    if (recorded) {
+      res.json(recorded);
+      return;
+    }
+
+    if (!(await checkRateLimit(res, submitterKey))) return;
+    if (!(await checkRateLimit(res, `post_${context.postId ?? 'none'}`, 'submit-anonymous', ANONYMOUS_POST_RATE_LIMITS))) return;
+
+    const totals = validateSubmission(request);
+    if (!totals.accepted) {
+      sendError(res, totals.status, totals.error);
+      return;
+    }
+
+    const check = checkSubmission(replay, score, level, lines, modeId);
+    if (!check.accepted) {
+      sendError(res, check.status, check.error);
       return;
     }
+    const { verification } = check;
+    const run = getRunDetails(mode, request, lines, verification);
 
-    const leaderboardKey = 'dam-attack:leaderboard';
+    // The client keeps a stable anonymous id, so a player only holds their best result like a
+    // Reddit user does; submissions from clients without one still get a one-off key
+    const userKey = stableId
+      ? `anon_${stableId}`
+      : `anon_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
-    // Create unique anonymous ID that persists across sessions
-    const anonymousId = `anon_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    const userKey = anonymousId;
+    if (await isBanned(userKey)) {
+      sendError(res, 403, { code: 'banned', message: 'You have been banned from submitting scores in this community.' });
+      return;
+    }
 
-    // Create anonymous member data
-    const memberData = JSON.stringify({
+    // A run sent late from the offline outbox counts for the periods it was played in
+    const playedAt = Math.min(request.playedAt ?? Date.now(), Date.now());
+    const boards = getSubmissionBoards(mode, run.level, playedAt, getSubmissionScopes(mode, replay, verification));
+    const standings = await recordScoreEverywhere(boards, userKey, {
       username: 'Anonymous',
+      score,
+      ...(run.time !== undefined && { time: run.time }),
+      ...(run.stars !== undefined && { stars: run.stars }),
       level,
       lines,
-      timestamp: Date.now(),
+      timestamp: playedAt,
+      isRedditUser: false,
       isAnonymous: true,
-      userKey,
-      isRedditUser: false
+      verification
     });
 
-    // Add score to sorted set (each anonymous submission is unique)
-    await redis.zAdd(leaderboardKey, { member: memberData, score });
-
-    // Get rank for this anonymous submission by manually calculating (sorted by score)
-    const allScores = await redis.zRange(leaderboardKey, 0, -1);
-    let userRank = null;
-
-    // Sort by score in descending order (same as leaderboard display)
-    const sortedScores = allScores.sort((a, b) => b.score - a.score);
+    await flagIfSuspicious(userKey, 'Anonymous', score, mode, verification, standings);
+    await archivePreviousPeriods(boards);
 
-    for (let i = 0; i < sortedScores.length; i++) {
-      const entry = sortedScores[i];
-      if (!entry) continue;
-      if (entry.member === memberData) {
-        userRank = i + 1; // 1-based ranking
-        break;
-      }
-    }
-
-    // Get total number of players
-    const totalPlayers = await redis.zCard(leaderboardKey);
+    const standing = findSubredditStanding(standings);
+    const userRank = standing?.rank ?? null;
+    const totalPlayers = standing?.total ?? 0;
 
     let message = 'Score submitted anonymously!';
     if (userRank !== null) {
       if (userRank <= 10) {
-        message = `Anonymous score ranked #${userRank} out of ${totalPlayers} players!`;
+        message = `Top ten! Anonymous score ranked #${userRank} out of ${totalPlayers} players!`;
       } else {
         message = `Anonymous score ranked #${userRank} out of ${totalPlayers} players!`;
       }
@@ -403,17 +528,97 @@ router.post('/api/submit-anonymous', async (req, res): Promise<void> => {
       type: 'submitScore',
       success: true,
       rank: userRank || 0,
-      message
+      ranks: toRanks(standings),
+      message,
+      verification: verification.status
     };
 
+    if (submissionId) {
+      await recordSubmission(submitterKey, submissionId, response);
+    }
     res.json(response);
   } catch (error) {
     console.error('Error submitting anonymous score:', error);
-    res.status(500).json({
-      type: 'submitScore',
-      success: false,
-      message: 'Failed to submit score. Please try again.'
-    });
+    sendError(res, 500, { code: 'server_error', message: 'Failed to submit score. Please try again.' });
+  }
+});
+
+// Fold an anonymous player's history into the Reddit account they have logged in with
+router.post(API_ENDPOINTS.mergeIdentity.path, validateRequest(API_ENDPOINTS.mergeIdentity), async (_req, res): Promise<void> => {
+  try {
+    const { userId } = context;
+    if (!userId) {
+      notAuthenticated(res);
+      return;
+    }
+
+    const { anonymousId } = getRequest(res, API_ENDPOINTS.mergeIdentity);
+    const user = await reddit.getUserById(userId);
+    const username = `u/${user?.username || 'Unknown'}`;
+    const improved = await mergePlayer(`anon_${anonymousId}`, `reddit_${userId}`, username);
+    console.log(`Merged anonymous history into ${username}: ${improved} boards improved`);
+
+    const response: MergeIdentityResponse = {
+      type: 'mergeIdentity',
+      success: true,
+      improved
+    };
+    res.json(response);
+  } catch (error) {
+    console.error('Error merging anonymous identity:', error);
+    sendError(res, 500, { code: 'server_error', message: 'Failed to merge anonymous scores' });
+  }
+});
+
+// The signed-in player's cloud save
+router.get(API_ENDPOINTS.getProfile.path, async (_req, res): Promise<void> => {
+  try {
+    const { userId } = context;
+    if (!userId) {
+      notAuthenticated(res);
+      return;
+    }
+
+    const response: ProfileResponse = {
+      type: 'profile',
+      profile: await getProfile(userId)
+    };
+    res.json(response);
+  } catch (error) {
+    console.error('Error loading profile:', error);
+    sendError(res, 500, { code: 'server_error', message: 'Failed to load profile' });
+  }
+});
+
+// Save a cloud profile on top of the version the client last saw; a conflict if it is out of date
+router.put(API_ENDPOINTS.saveProfile.path, validateRequest(API_ENDPOINTS.saveProfile), async (_req, res): Promise<void> => {
+  try {
+    const { userId } = context;
+    if (!userId) {
+      notAuthenticated(res);
+      return;
+    }
+
+    const { profile, baseVersion } = getRequest(res, API_ENDPOINTS.saveProfile);
+    if (JSON.stringify(profile).length > MAX_PROFILE_BYTES) {
+      sendError(res, 413, { code: 'payload_too_large', message: 'Profile is too large' });
+      return;
+    }
+
+    const result = await saveProfile(userId, profile, baseVersion);
+    if (!result.saved) {
+      sendError(res, 409, { code: 'conflict', message: 'Profile was changed on another device', profile: result.profile });
+      return;
+    }
+
+    const response: SaveProfileResponse = {
+      type: 'saveProfile',
+      profile: result.profile
+    };
+    res.json(response);
+  } catch (error) {
+    console.error('Error saving profile:', error);
+    sendError(res, 500, { code: 'server_error', message: 'Failed to save profile' });
   }
 });
 
@@ -450,8 +655,360 @@ router.post('/internal/menu/post-create', async (_req, res): Promise<void> => {
   }
 });
 
+// Moderator tools. Each menu item opens a form, and submitting the form does the work
+// and writes it to the subreddit's audit log.
+
+const MODERATION_LOG_SIZE = 25;
+
+const toast = (text: string, appearance: 'neutral' | 'success' = 'neutral'): UiResponse => ({
+  showToast: { text, appearance }
+});
+
+const firstChoice = (value: unknown): string | undefined =>
+  Array.isArray(value) && typeof value[0] === 'string' ? value[0] : undefined;
+
+router.post('/internal/menu/remove-entries', async (_req, res): Promise<void> => {
+  const response: UiResponse = {
+    showForm: {
+      name: 'removeEntries',
+      form: {
+        title: 'Remove leaderboard entries',
+        description: 'Takes every score the player has off the leaderboards.',
+        acceptLabel: 'Remove',
+        fields: [
+          { type: 'string', name: 'player', label: 'Reddit username or player key', required: true },
+          { type: 'string', name: 'reason', label: 'Reason' },
+          { type: 'boolean', name: 'ban', label: 'Also ban them from submitting scores' }
+        ]
+      }
+    }
+  };
+  res.json(response);
+});
+
+router.post('/internal/form/remove-entries', async (req, res): Promise<void> => {
+  try {
+    const player = await resolvePlayer(req.body?.player);
+    if (!player) {
+      res.json(toast('No player found with that name'));
+      return;
+    }
+
+    const moderator = await getModeratorName();
+    const reason = typeof req.body?.reason === 'string' ? req.body.reason.trim() : '';
+    const removed = await removePlayer(player.userKey);
+    await logModeratorAction({
+      action: 'remove-entries',
+      moderator,
+      target: player.userKey,
+      details: `${player.username}: ${removed} entries removed${reason ? ` (${reason})` : ''}`
+    });
+
+    if (req.body?.ban === true) {
+      await banPlayer(player, moderator, reason);
+      await logModeratorAction({ action: 'ban', moderator, target: player.userKey, details: reason || player.username });
+    }
+
+    res.json(toast(`Removed ${removed} leaderboard entries for ${player.username}`, 'success'));
+  } catch (error) {
+    console.error('Error removing leaderboard entries:', error);
+    res.json(toast('Failed to remove leaderboard entries'));
+  }
+});
+
+router.post('/internal/menu/ban-player', async (_req, res): Promise<void> => {
+  const response: UiResponse = {
+    showForm: {
+      name: 'banPlayer',
+      form: {
+        title: 'Ban from the leaderboard',
+        description: 'Banned players can still play, but their scores are not recorded in this community.',
+        acceptLabel: 'Save',
+        fields: [
+          { type: 'string', name: 'player', label: 'Reddit username or player key', required: true },
+          { type: 'string', name: 'reason', label: 'Reason' },
+          { type: 'boolean', name: 'unban', label: 'Lift an existing ban instead' }
+        ]
+      }
+    }
+  };
+  res.json(response);
+});
+
+router.post('/internal/form/ban-player', async (req, res): Promise<void> => {
+  try {
+    const player = await resolvePlayer(req.body?.player);
+    if (!player) {
+      res.json(toast('No player found with that name'));
+      return;
+    }
+
+    const moderator = await getModeratorName();
+    if (req.body?.unban === true) {
+      const wasBanned = await unbanPlayer(player.userKey);
+      if (!wasBanned) {
+        res.json(toast(`${player.username} is not banned`));
+        return;
+      }
+      await logModeratorAction({ action: 'unban', moderator, target: player.userKey, details: player.username });
+      res.json(toast(`Lifted the ban on ${player.username}`, 'success'));
+      return;
+    }
+
+    const reason = typeof req.body?.reason === 'string' ? req.body.reason.trim() : '';
+    await banPlayer(player, moderator, reason);
+    await logModeratorAction({ action: 'ban', moderator, target: player.userKey, details: reason || player.username });
+    res.json(toast(`Banned ${player.username} from submitting scores`, 'success'));
+  } catch (error) {
+    console.error('Error banning player:', error);
+    res.json(toast('Failed to update the ban'));
+  }
+});
+
+// Opened from a post, the post's own board can be reset too; the option carries its id
+router.post('/internal/menu/reset-scope', async (req, res): Promise<void> => {
+  const { location, targetId } = req.body ?? {};
+  const options = [
+    ...(location === 'post' && typeof targetId === 'string' ? [{ label: 'This post', value: `post:${targetId}` }] : []),
+    { label: `All of r/${context.subredditName}`, value: 'subreddit' }
+  ];
+
+  const response: UiResponse = {
+    showForm: {
+      name: 'resetScope',
+      form: {
+        title: 'Reset leaderboard',
+        description: 'Clears every mode, level and period. Past winners stay archived.',
+        acceptLabel: 'Reset',
+        fields: [
+          { type: 'select', name: 'scope', label: 'Leaderboard', options, required: true },
+          { type: 'boolean', name: 'confirm', label: 'I understand this cannot be undone' }
+        ]
+      }
+    }
+  };
+  res.json(response);
+});
+
+router.post('/internal/form/reset-scope', async (req, res): Promise<void> => {
+  try {
+    if (req.body?.confirm !== true) {
+      res.json(toast('Nothing was reset; tick the confirmation to reset the leaderboard'));
+      return;
+    }
+
+    const choice = firstChoice(req.body?.scope);
+    const postId = choice?.startsWith('post:') ? choice.slice('post:'.length) : undefined;
+    if (choice !== 'subreddit' && !postId) {
+      res.json(toast('Choose a leaderboard to reset'));
+      return;
+    }
+
+    const scope = postId ? 'post' : 'subreddit';
+    const removed = await resetScope(scope, { postId });
+    await logModeratorAction({
+      action: 'reset-scope',
+      moderator: await getModeratorName(),
+      target: postId ? `post:${postId}` : `subreddit:${context.subredditName}`,
+      details: `${removed} entries removed`
+    });
+
+    res.json(toast(`Leaderboard reset, ${removed} entries removed`, 'success'));
+  } catch (error) {
+    console.error('Error resetting leaderboard:', error);
+    res.json(toast('Failed to reset the leaderboard'));
+  }
+});
+
+router.post('/internal/menu/flagged-scores', async (_req, res): Promise<void> => {
+  try {
+    const flags = await getFlaggedScores();
+    if (flags.length === 0) {
+      res.json(toast('No flagged scores to review'));
+      return;
+    }
+
+    const response: UiResponse = {
+      showForm: {
+        name: 'flaggedScores',
+        form: {
+          title: `Flagged scores (${flags.length})`,
+          acceptLabel: 'Apply',
+          fields: [
+            {
+              type: 'select',
+              name: 'flags',
+              label: 'Scores',
+              multiSelect: true,
+              required: true,
+              options: flags.map((flag) => ({
+                label: `${flag.username}: ${flag.score} (${flag.mode}), ${flag.reason}`,
+                value: flag.id
+              }))
+            },
+            {
+              type: 'select',
+              name: 'action',
+              label: 'Action',
+              required: true,
+              defaultValue: ['dismiss'],
+              options: [
+                { label: 'Dismiss, the scores are fine', value: 'dismiss' },
+                { label: 'Remove the players\' entries', value: 'remove' },
+                { label: 'Remove their entries and ban them', value: 'ban' }
+              ]
+            }
+          ]
+        }
+      }
+    };
+    res.json(response);
+  } catch (error) {
+    console.error('Error loading flagged scores:', error);
+    res.json(toast('Failed to load flagged scores'));
+  }
+});
+
+router.post('/internal/form/flagged-scores', async (req, res): Promise<void> => {
+  try {
+    const ids: unknown[] = Array.isArray(req.body?.flags) ? req.body.flags : [];
+    const action = firstChoice(req.body?.action) ?? 'dismiss';
+    const flags = (await getFlaggedScores()).filter((flag) => ids.includes(flag.id));
+    const moderator = await getModeratorName();
+
+    for (const flag of flags) {
+      if (action === 'remove' || action === 'ban') {
+        const removed = await removePlayer(flag.userKey);
+        await logModeratorAction({
+          action: 'remove-entries',
+          moderator,
+          target: flag.userKey,
+          details: `${flag.username}: ${removed} entries removed (flagged: ${flag.reason})`
+        });
+      }
+      if (action === 'ban') {
+        await banPlayer(flag, moderator, flag.reason);
+        await logModeratorAction({ action: 'ban', moderator, target: flag.userKey, details: flag.reason });
+      }
+      if (action === 'dismiss') {
+        await logModeratorAction({ action: 'dismiss-flag', moderator, target: flag.userKey, details: flag.reason });
+      }
+    }
+    await dismissFlags(flags.map((flag) => flag.id));
+
+    res.json(toast(`Reviewed ${flags.length} flagged scores`, 'success'));
+  } catch (error) {
+    console.error('Error reviewing flagged scores:', error);
+    res.json(toast('Failed to review flagged scores'));
+  }
+});
+
+router.post('/internal/menu/moderation-log', async (_req, res): Promise<void> => {
+  try {
+    const entries = await getAuditLog(MODERATION_LOG_SIZE);
+    const lines = entries.map((entry) =>
+      `${new Date(entry.timestamp).toISOString().slice(0, 16).replace('T', ' ')} ${entry.moderator} ${entry.action} ${entry.target}` +
+      (entry.details ? `: ${entry.details}` : ''));
+
+    const response: UiResponse = {
+      showForm: {
+        name: 'moderationLog',
+        form: {
+          title: 'Leaderboard moderation log',
+          acceptLabel: 'Close',
+          fields: [{
+            type: 'paragraph',
+            name: 'log',
+            label: `Last ${MODERATION_LOG_SIZE} actions`,
+            disabled: true,
+            defaultValue: lines.join('\n') || 'No moderator actions yet'
+          }]
+        }
+      }
+    };
+    res.json(response);
+  } catch (error) {
+    console.error('Error loading moderation log:', error);
+    res.json(toast('Failed to load the moderation log'));
+  }
+});
+
+// The log form is read-only; closing it has nothing to save
+router.post('/internal/form/moderation-log', async (_req, res): Promise<void> => {
+  res.json({});
+});
+
+// One daily challenge post per subreddit per day, whether it was scheduled or posted from the menu
+const dailyChallengeKey = (date: string) => `dam-attack:daily-challenge:${context.subredditName}:${date}`;
+
+// Held in the day's key while its post is being created
+const DAILY_CHALLENGE_PENDING = 'pending';
+const DAILY_CHALLENGE_KEY_TTL_MS = 2 * 24 * 60 * 60 * 1000;
+
+/**
+ * Today's challenge post id, posting it first if nobody has yet. The day's
+ * key is claimed before the post is made, so a scheduler run and a
+ * moderator's menu click can't both post one.
+ */
+const ensureDailyChallengePost = async (): Promise<{ postId: string; created: boolean }> => {
+  const challenge = createDailyChallenge();
+  const key = dailyChallengeKey(challenge.date);
+  const expiration = new Date(Date.now() + DAILY_CHALLENGE_KEY_TTL_MS);
+
+  const claimed = await redis.set(key, DAILY_CHALLENGE_PENDING, { nx: true, expiration });
+  if (!claimed) {
+    const existing = await redis.get(key);
+    if (!existing || existing === DAILY_CHALLENGE_PENDING) {
+      throw new Error(`Daily challenge for ${challenge.date} is already being posted`);
+    }
+    return { postId: existing, created: false };
+  }
+
+  let post;
+  try {
+    post = await createDailyChallengePost(challenge);
+  } catch (error) {
+    // Let the next attempt post it
+    await redis.del(key);
+    throw error;
+  }
+  await redis.set(key, post.id, { expiration });
+  return { postId: post.id, created: true };
+};
+
+router.post('/internal/scheduler/daily-challenge', async (_req, res): Promise<void> => {
+  try {
+    const { postId, created } = await ensureDailyChallengePost();
+    console.log(created ? `Posted daily challenge ${postId}` : `Daily challenge already posted: ${postId}`);
+    res.json({ status: 'success', postId });
+  } catch (error) {
+    console.error(`Error posting daily challenge: ${error}`);
+    res.status(500).json({
+      status: 'error',
+      message: 'Failed to post daily challenge',
+    });
+  }
+});
+
+router.post('/internal/menu/daily-challenge', async (_req, res): Promise<void> => {
+  try {
+    const { postId } = await ensureDailyChallengePost();
+    res.json({
+      navigateTo: `https://reddit.com/r/${context.subredditName}/comments/${postId}`,
+    });
+  } catch (error) {
+    console.error(`Error posting daily challenge: ${error}`);
+    res.status(400).json({
+      status: 'error',
+      message: 'Failed to post daily challenge',
+    });
+  }
+});
+
 // Use router middleware
 app.use(router);
+// Errors no route caught, such as unreadable JSON bodies, still get the error envelope
+app.use(handleApiError);
 
 // Get port from environment variable with fallback
 const port = process.env.WEBBIT_PORT || 3000;
@@ -0,0 +1,47 @@
+/**
+ * Combo and back-to-back chains.
+ *
+ * `combo` counts consecutive placements that cleared at least one line; a
+ * placement that clears nothing ends the chain. Back-to-back links "difficult"
+ * clears (tetrises and line-clearing T-spins): only an easy clear breaks it,
+ * placements that clear nothing keep it alive.
+ */
+
+import { SpinType } from './TSpin';
+
+export interface ComboState {
+  /** Consecutive line-clearing placements (0 = no chain) */
+  combo: number;
+  /** The last line clear was a difficult one */
+  backToBack: boolean;
+}
+
+export interface ComboResult extends ComboState {
+  /** This clear continues a back-to-back chain and earns its bonus */
+  backToBackBonus: boolean;
+}
+
+export const INITIAL_COMBO_STATE: ComboState = {
+  combo: 0,
+  backToBack: false
+};
+
+export function isDifficultClear(linesCleared: number, spin: SpinType = 'none'): boolean {
+  return linesCleared >= 4 || (linesCleared > 0 && spin !== 'none');
+}
+
+/**
+ * Chain state after a piece locks
+ */
+export function advanceCombo(previous: ComboState, linesCleared: number, spin: SpinType = 'none'): ComboResult {
+  if (linesCleared <= 0) {
+    return { combo: 0, backToBack: previous.backToBack, backToBackBonus: false };
+  }
+
+  const difficult = isDifficultClear(linesCleared, spin);
+  return {
+    combo: previous.combo + 1,
+    backToBack: difficult,
+    backToBackBonus: difficult && previous.backToBack
+  };
+}
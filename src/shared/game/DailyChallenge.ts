@@ -0,0 +1,47 @@
+/**
+ * Daily challenge posts. The challenge lives in the post's postData, so
+ * every player on the post gets the same seed (and so the same pieces), the
+ * same mode and the same seasonal level. Modes and levels rotate by day.
+ */
+
+import { DailyChallengeConfig, LeaderboardMode } from '../types/api';
+import { getPeriodKey, getPeriodStart } from '../leaderboard/Periods';
+import { SEASONAL_LEVEL_COUNT, isSeasonalLevel, parseLeaderboardMode } from '../leaderboard/Modes';
+import { createSeed } from './Randomizer';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Modes the challenge rotates through, one per day */
+export const DAILY_CHALLENGE_MODES: readonly LeaderboardMode[] = ['classic', 'sprint', 'marathon', 'time-attack', 'challenge', 'campaign'];
+
+/**
+ * The challenge for the UTC day containing `time`. The seed is fresh every
+ * time, so nobody can practise the pieces before the post goes up.
+ */
+export function createDailyChallenge(time: number = Date.now(), seed: number = createSeed()): DailyChallengeConfig {
+  const day = Math.floor(getPeriodStart('daily', time) / DAY_MS);
+
+  return {
+    type: 'dailyChallenge',
+    date: getPeriodKey('daily', time),
+    seed,
+    mode: DAILY_CHALLENGE_MODES[day % DAILY_CHALLENGE_MODES.length]!,
+    level: (day % SEASONAL_LEVEL_COUNT) + 1
+  };
+}
+
+/**
+ * The challenge stored in a post's postData, or null if it isn't a daily challenge post
+ */
+export function parseDailyChallenge(postData: unknown): DailyChallengeConfig | null {
+  if (!postData || typeof postData !== 'object') return null;
+
+  const { type, date, seed, mode, level } = postData as Record<string, unknown>;
+  const parsedMode = parseLeaderboardMode(mode);
+  if (type !== 'dailyChallenge' || typeof date !== 'string' || !parsedMode || !isSeasonalLevel(level) ||
+      typeof seed !== 'number' || !Number.isInteger(seed) || seed < 0 || seed > 0xFFFFFFFF) {
+    return null;
+  }
+
+  return { type, date, seed, mode: parsedMode, level };
+}
@@ -0,0 +1,749 @@
+/**
+ * Headless, deterministic game core.
+ *
+ * GameEngine owns every rule that changes the game state - spawning, moving,
+ * SRS rotation, gravity, lock delay, line clears, scoring, levels and the
+ * rising water - and knows nothing about Phaser. Scenes feed it inputs and
+ * frame time through step() and render from getState().
+ *
+ * Time advances in fixed ENGINE_TICK_MS ticks, so how frame time is split up
+ * never matters: the same config and the same commands at the same engine
+ * times always produce the same game. The engine journals those commands
+ * (inputs, rule changes, water drains) for replays and server-side checks.
+ */
+
+import { Randomizer, RandomizerType, SeededRandom, createRandomizer } from './Randomizer';
+import { RotationDirection, RotationState, getKickOffsets, getRotationTarget } from './Rotation';
+import { PIECE_DEFINITIONS, PIECE_HISTORY_SEED, PIECE_KINDS, PieceKind, getKickTableKind } from './Pieces';
+import { LockDelay, DEFAULT_LOCK_DELAY_CONFIG } from './LockDelay';
+import { SpinType, detectTSpin } from './TSpin';
+import { advanceCombo } from './Combo';
+import { ScoreFormulas, DEFAULT_SCORE_FORMULAS, calculateScore, getPerfectClearBonus } from './Scoring';
+
+/** Length of one simulation tick in milliseconds */
+export const ENGINE_TICK_MS = 5;
+
+/** Player actions, spelled like the client's InputAction values */
+export type EngineInput =
+  | 'MOVE_LEFT'
+  | 'MOVE_RIGHT'
+  | 'ROTATE'
+  | 'ROTATE_CCW'
+  | 'ROTATE_180'
+  | 'SOFT_DROP'
+  | 'HARD_DROP'
+  | 'HOLD';
+
+export const ENGINE_INPUTS: readonly EngineInput[] = [
+  'MOVE_LEFT',
+  'MOVE_RIGHT',
+  'ROTATE',
+  'ROTATE_CCW',
+  'ROTATE_180',
+  'SOFT_DROP',
+  'HARD_DROP',
+  'HOLD'
+];
+
+export function isEngineInput(value: string): value is EngineInput {
+  return (ENGINE_INPUTS as readonly string[]).includes(value);
+}
+
+export interface EnginePiece {
+  kind: PieceKind;
+  shape: number[][];
+  color: number;
+  x: number;
+  y: number;
+  rotation: RotationState;
+}
+
+export interface EngineScoring {
+  /** Points per placement at level 1, indexed by lines cleared */
+  lineClearPoints: number[];
+  /** Flat bonus on top of a 4-line clear */
+  tetrisBonus: number;
+  /** Points per row of soft drop */
+  softDropPoints: number;
+  /** Points per row fallen on a hard drop */
+  hardDropPoints: number;
+  /** [water level, points per cleared line]: every threshold the water is above adds its points */
+  waterBonuses: [number, number][];
+  /** Multiplier on the guideline perfect clear bonus */
+  perfectClearMultiplier: number;
+  /** Guideline formulas for T-spins, combos, back-to-back and perfect clears */
+  formulas: ScoreFormulas;
+}
+
+export interface EngineConfig {
+  seed: number;
+  randomizer: RandomizerType;
+  width: number;
+  height: number;
+  /** Pieces kept in the next queue */
+  previewCount: number;
+  holdEnabled: boolean;
+  rotation180: boolean;
+  /** Milliseconds a grounded piece waits before locking */
+  lockDelay: number;
+  /** Move/rotate resets per piece before it locks on contact */
+  lockResetLimit: number;
+  startLevel: number;
+  /** Lines needed per level (0 = the level never changes) */
+  linesPerLevel: number;
+  /** Gravity interval is baseDropInterval - level * dropIntervalPerLevel, never below minDropInterval */
+  baseDropInterval: number;
+  dropIntervalPerLevel: number;
+  minDropInterval: number;
+  /** Milliseconds before the water starts rising */
+  waterGracePeriod: number;
+  /** Water rise per second, as a fraction of the full height */
+  waterRiseRate: number;
+  waterDrainPerLine: number;
+  perfectClearDrain: number;
+  /** Milliseconds between survival bonus checks (0 = no survival bonus) */
+  survivalBonusInterval: number;
+  /** Multiplier on line clear points (seasonal effects) */
+  scoreMultiplier: number;
+  /** Per-kind color overrides for scenes with their own palette */
+  colors: Partial<Record<PieceKind, number>>;
+  scoring: EngineScoring;
+}
+
+export type EngineOptions = Partial<Omit<EngineConfig, 'scoring'>> & {
+  scoring?: Partial<EngineScoring>;
+};
+
+export const DEFAULT_ENGINE_CONFIG: Readonly<EngineConfig> = {
+  seed: 0,
+  randomizer: '7-bag',
+  width: 14,
+  height: 20,
+  previewCount: 1,
+  holdEnabled: true,
+  rotation180: false,
+  lockDelay: DEFAULT_LOCK_DELAY_CONFIG.delay,
+  lockResetLimit: DEFAULT_LOCK_DELAY_CONFIG.maxResets,
+  startLevel: 1,
+  linesPerLevel: 10,
+  baseDropInterval: 1000,
+  dropIntervalPerLevel: 50,
+  minDropInterval: 200,
+  waterGracePeriod: 30000,
+  waterRiseRate: 0.0006,
+  waterDrainPerLine: 0.1,
+  perfectClearDrain: 0.4,
+  survivalBonusInterval: 30000,
+  scoreMultiplier: 1,
+  colors: {},
+  scoring: {
+    lineClearPoints: [0, 200, 600, 1200, 2000],
+    tetrisBonus: 1000,
+    softDropPoints: 1,
+    hardDropPoints: 2,
+    waterBonuses: [[0.25, 50], [0.5, 100], [0.75, 200], [0.9, 500]],
+    perfectClearMultiplier: 2,
+    formulas: DEFAULT_SCORE_FORMULAS
+  }
+};
+
+/** Flat per-line scoring of the classic game: no drop points, combos or water bonuses */
+export const CLASSIC_ENGINE_SCORING: Readonly<EngineScoring> = {
+  lineClearPoints: [0, 100, 200, 300, 400],
+  tetrisBonus: 0,
+  softDropPoints: 0,
+  hardDropPoints: 0,
+  waterBonuses: [],
+  perfectClearMultiplier: 0,
+  formulas: { ...DEFAULT_SCORE_FORMULAS, comboBonus: 0, backToBackMultiplier: 1 }
+};
+
+/** Rules of the classic game: pure random pieces, no hold, no water and plain line clear scoring */
+export const CLASSIC_ENGINE_RULES: Readonly<Partial<EngineConfig>> = {
+  randomizer: 'random',
+  holdEnabled: false,
+  baseDropInterval: 850,
+  minDropInterval: 100,
+  waterRiseRate: 0,
+  survivalBonusInterval: 0,
+  scoring: CLASSIC_ENGINE_SCORING
+};
+
+/** Something applied from outside the inputs: a rule change or a water drain */
+export interface EngineChange {
+  config?: EngineOptions;
+  drain?: number;
+}
+
+/** [engine time, index into ENGINE_INPUTS] or [engine time, change] */
+export type EngineCommand = [time: number, input: number] | [time: number, change: EngineChange];
+
+export type GameOverReason = 'spawn_blocked' | 'water_level';
+
+export interface EngineState {
+  board: number[][];
+  current: EnginePiece | null;
+  queue: PieceKind[];
+  hold: PieceKind | null;
+  holdUsed: boolean;
+  score: number;
+  lines: number;
+  level: number;
+  combo: number;
+  backToBack: boolean;
+  /** 0 = empty, 1 = overflowing */
+  water: number;
+  /** Game time in milliseconds */
+  elapsed: number;
+  piecesPlaced: number;
+  gameOver: GameOverReason | null;
+}
+
+export interface LockEvent {
+  type: 'lock';
+  piece: EnginePiece;
+  linesCleared: number;
+  /** Board rows (before collapsing) that were cleared */
+  clearedRows: number[];
+  tSpin: SpinType;
+  combo: number;
+  backToBackBonus: boolean;
+  perfectClear: boolean;
+  points: number;
+}
+
+export type EngineEvent =
+  | { type: 'spawn'; piece: EnginePiece }
+  | { type: 'hold'; held: PieceKind }
+  | LockEvent
+  | { type: 'levelUp'; level: number }
+  | { type: 'survivalBonus'; points: number; minutes: number }
+  | { type: 'gameOver'; reason: GameOverReason };
+
+export class GameEngine {
+  private config: EngineConfig;
+  private initialConfig: EngineConfig;
+  private state!: EngineState;
+  private randomizer!: Randomizer<PieceKind>;
+  private lockDelay = new LockDelay();
+  private started = false;
+  private dropCounter = 0;
+  // Kick test used by the last successful rotation, null if the piece moved since
+  private lastRotationKick: number | null = null;
+  private nextSurvivalCheck = 0;
+  // Frame time not yet simulated (always under one tick)
+  private pendingTime = 0;
+  private commands: EngineCommand[] = [];
+
+  constructor(options: EngineOptions = {}) {
+    this.config = GameEngine.mergeConfig(DEFAULT_ENGINE_CONFIG, options);
+    this.initialConfig = this.config;
+    this.reset();
+  }
+
+  /**
+   * Start (or restart) the game and spawn the first piece
+   */
+  public start(): EngineEvent[] {
+    this.reset();
+    this.started = true;
+    this.initialConfig = this.config;
+
+    const events: EngineEvent[] = [];
+    this.spawn(events);
+    return events;
+  }
+
+  /**
+   * Apply `inputs` in order, then advance the game clock by `deltaMs`
+   */
+  public step(inputs: readonly EngineInput[], deltaMs: number): EngineEvent[] {
+    const events: EngineEvent[] = [];
+    if (!this.started || this.state.gameOver) {
+      return events;
+    }
+
+    for (const input of inputs) {
+      if (this.state.gameOver) break;
+      this.commands.push([this.state.elapsed, ENGINE_INPUTS.indexOf(input)]);
+      this.applyInput(input, events);
+    }
+
+    this.pendingTime += Math.max(0, deltaMs);
+    while (!this.state.gameOver && this.pendingTime >= ENGINE_TICK_MS) {
+      this.pendingTime -= ENGINE_TICK_MS;
+      this.advanceTime(ENGINE_TICK_MS, events);
+    }
+
+    return events;
+  }
+
+  public getState(): EngineState {
+    return {
+      ...this.state,
+      board: this.state.board.map(row => [...row]),
+      current: this.state.current ? GameEngine.copyPiece(this.state.current) : null,
+      queue: [...this.state.queue]
+    };
+  }
+
+  public getConfig(): Readonly<EngineConfig> {
+    return this.config;
+  }
+
+  /** Config the current game started with */
+  public getInitialConfig(): Readonly<EngineConfig> {
+    return this.initialConfig;
+  }
+
+  /** Engine time in milliseconds (whole ticks) */
+  public getTime(): number {
+    return this.state.elapsed;
+  }
+
+  /** Inputs and changes applied since start(), stamped with engine time */
+  public getCommands(): readonly EngineCommand[] {
+    return this.commands;
+  }
+
+  /**
+   * Change rules mid-game (preview length, seasonal multipliers, water speed, ...)
+   */
+  public setConfig(options: EngineOptions): void {
+    const next = GameEngine.mergeConfig(this.config, options);
+    const changedKeys = (Object.keys(next) as (keyof EngineConfig)[])
+      .filter(key => JSON.stringify(next[key]) !== JSON.stringify(this.config[key]));
+    if (changedKeys.length === 0) return;
+
+    this.journal({ config: Object.fromEntries(changedKeys.map(key => [key, next[key]])) as EngineOptions });
+    this.config = next;
+    this.lockDelay.setConfig({ delay: this.config.lockDelay, maxResets: this.config.lockResetLimit });
+    if (this.started) {
+      this.fillQueue();
+    }
+  }
+
+  /**
+   * Apply a journaled command, e.g. while replaying
+   */
+  public applyCommand(command: EngineCommand): EngineEvent[] {
+    const [, action] = command;
+    if (typeof action === 'number') {
+      const input = ENGINE_INPUTS[action];
+      return input ? this.step([input], 0) : [];
+    }
+
+    if (action.config) this.setConfig(action.config);
+    if (action.drain !== undefined) this.lowerWater(action.drain);
+    return [];
+  }
+
+  public isStarted(): boolean {
+    return this.started;
+  }
+
+  public isGameOver(): boolean {
+    return this.state.gameOver !== null;
+  }
+
+  /** Drain water from outside the rules (power-ups) */
+  public lowerWater(amount: number): void {
+    this.journal({ drain: amount });
+    this.drainWater(amount);
+  }
+
+  /** Row the current piece would land on, for ghost rendering */
+  public getDropY(): number | null {
+    const piece = this.state.current;
+    if (!piece) return null;
+    return piece.y + this.getDropDistance(piece);
+  }
+
+  private journal(change: EngineChange): void {
+    if (this.started && !this.state.gameOver) {
+      this.commands.push([this.state.elapsed, change]);
+    }
+  }
+
+  private drainWater(amount: number): void {
+    this.state.water = Math.max(0, this.state.water - amount);
+  }
+
+  private reset(): void {
+    const { width, height, seed, randomizer, startLevel } = this.config;
+    this.state = {
+      board: Array.from({ length: height }, () => Array(width).fill(0)),
+      current: null,
+      queue: [],
+      hold: null,
+      holdUsed: false,
+      score: 0,
+      lines: 0,
+      level: startLevel,
+      combo: 0,
+      backToBack: false,
+      water: 0,
+      elapsed: 0,
+      piecesPlaced: 0,
+      gameOver: null
+    };
+    this.randomizer = createRandomizer(randomizer, PIECE_KINDS, new SeededRandom(seed), {
+      initialHistory: [...PIECE_HISTORY_SEED]
+    });
+    this.lockDelay.setConfig({ delay: this.config.lockDelay, maxResets: this.config.lockResetLimit });
+    this.lockDelay.reset();
+    this.started = false;
+    this.dropCounter = 0;
+    this.lastRotationKick = null;
+    this.nextSurvivalCheck = this.config.survivalBonusInterval;
+    this.pendingTime = 0;
+    this.commands = [];
+  }
+
+  private applyInput(input: EngineInput, events: EngineEvent[]): void {
+    if (!this.state.current) return;
+
+    switch (input) {
+      case 'MOVE_LEFT':
+        this.tryMove(-1, 0);
+        break;
+      case 'MOVE_RIGHT':
+        this.tryMove(1, 0);
+        break;
+      case 'SOFT_DROP':
+        if (this.tryMove(0, 1)) {
+          this.state.score += this.config.scoring.softDropPoints;
+        }
+        break;
+      case 'ROTATE':
+        this.tryRotate('cw');
+        break;
+      case 'ROTATE_CCW':
+        this.tryRotate('ccw');
+        break;
+      case 'ROTATE_180':
+        if (this.config.rotation180) {
+          this.tryRotate('180');
+        }
+        break;
+      case 'HARD_DROP':
+        this.hardDrop(events);
+        break;
+      case 'HOLD':
+        this.hold(events);
+        break;
+    }
+  }
+
+  private advanceTime(deltaMs: number, events: EngineEvent[]): void {
+    const previousElapsed = this.state.elapsed;
+    this.state.elapsed += deltaMs;
+
+    // Water only rises once the grace period is over
+    const risingMs = this.state.elapsed - Math.max(previousElapsed, this.config.waterGracePeriod);
+    if (risingMs > 0) {
+      this.state.water = Math.min(1, this.state.water + (this.config.waterRiseRate * risingMs) / 1000);
+      if (this.state.water >= 1) {
+        this.endGame('water_level', events);
+        return;
+      }
+    }
+
+    this.updateSurvivalBonus(events);
+
+    const piece = this.state.current;
+    if (!piece) return;
+
+    this.dropCounter += deltaMs;
+    if (this.dropCounter >= this.getDropInterval()) {
+      this.dropCounter = 0;
+      const fallen = { ...piece, y: piece.y + 1 };
+      if (!this.collides(fallen)) {
+        this.state.current = fallen;
+        this.lastRotationKick = null;
+      }
+    }
+
+    const current = this.state.current!;
+    const grounded = this.collides({ ...current, y: current.y + 1 });
+    if (this.lockDelay.update(deltaMs, grounded, current.y)) {
+      this.lock(events);
+    }
+  }
+
+  private getDropInterval(): number {
+    const { baseDropInterval, dropIntervalPerLevel, minDropInterval } = this.config;
+    return Math.max(minDropInterval, baseDropInterval - this.state.level * dropIntervalPerLevel);
+  }
+
+  private updateSurvivalBonus(events: EngineEvent[]): void {
+    const interval = this.config.survivalBonusInterval;
+    while (interval > 0 && this.state.elapsed >= this.nextSurvivalCheck) {
+      const minutes = Math.floor(this.nextSurvivalCheck / 60000);
+      this.nextSurvivalCheck += interval;
+
+      let points = 0;
+      if (minutes >= 1) points += 100;
+      if (minutes >= 2) points += 250;
+      if (minutes >= 5) points += 500;
+      if (minutes >= 10) points += 1000;
+
+      if (points > 0) {
+        this.state.score += points;
+        events.push({ type: 'survivalBonus', points, minutes });
+      }
+    }
+  }
+
+  private tryMove(dx: number, dy: number): boolean {
+    const piece = this.state.current!;
+    const moved = { ...piece, x: piece.x + dx, y: piece.y + dy };
+    if (this.collides(moved)) {
+      return false;
+    }
+
+    this.state.current = moved;
+    this.lockDelay.registerMove(moved.y);
+    this.lastRotationKick = null;
+    return true;
+  }
+
+  private tryRotate(direction: RotationDirection): boolean {
+    const piece = this.state.current!;
+    const definition = PIECE_DEFINITIONS[piece.kind];
+    const to = getRotationTarget(piece.rotation, direction);
+    const fromOffset = definition.rotationOffsets[piece.rotation]!;
+    const toOffset = definition.rotationOffsets[to]!;
+
+    // Turn about the SRS box, then try each kick in order
+    const rotated: EnginePiece = {
+      ...piece,
+      shape: definition.rotationStates[to]!.map(row => [...row]),
+      x: piece.x - fromOffset[0] + toOffset[0],
+      y: piece.y - fromOffset[1] + toOffset[1],
+      rotation: to
+    };
+    const kicks = getKickOffsets(getKickTableKind(piece.kind), piece.rotation, to);
+
+    for (let kickIndex = 0; kickIndex < kicks.length; kickIndex++) {
+      const [dx, dy] = kicks[kickIndex]!;
+      const candidate = { ...rotated, x: rotated.x + dx, y: rotated.y + dy };
+      if (!this.collides(candidate)) {
+        this.state.current = candidate;
+        this.lockDelay.registerMove(candidate.y);
+        this.lastRotationKick = kickIndex;
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private hardDrop(events: EngineEvent[]): void {
+    const piece = this.state.current!;
+    const rows = this.getDropDistance(piece);
+    if (rows > 0) {
+      this.state.current = { ...piece, y: piece.y + rows };
+      this.lastRotationKick = null;
+      this.state.score += rows * this.config.scoring.hardDropPoints;
+    }
+    this.lock(events);
+  }
+
+  private hold(events: EngineEvent[]): void {
+    const piece = this.state.current!;
+    if (!this.config.holdEnabled || this.state.holdUsed) return;
+
+    const held = this.state.hold;
+    this.state.hold = piece.kind;
+    this.state.current = null;
+    events.push({ type: 'hold', held: piece.kind });
+
+    this.spawn(events, held ?? undefined);
+    this.state.holdUsed = true;
+  }
+
+  private lock(events: EngineEvent[]): void {
+    const piece = this.state.current!;
+    const { scoring, waterDrainPerLine, perfectClearDrain, linesPerLevel, startLevel } = this.config;
+
+    // Spin detection needs the board without the piece on it
+    const tSpin = detectTSpin(
+      this.state.board,
+      { type: piece.kind, x: piece.x, y: piece.y, rotation: piece.rotation },
+      { rotated: this.lastRotationKick !== null, kickIndex: this.lastRotationKick ?? 0 }
+    );
+
+    const { board, clearedRows } = this.clearRows(this.placeOnBoard(piece));
+    const linesCleared = clearedRows.length;
+    const chain = advanceCombo(this.state, linesCleared, tSpin);
+    const perfectClear = linesCleared > 0 && board.every(row => row.every(cell => cell === 0));
+
+    // Score against the water level before this clear drains it
+    const level = this.state.level;
+    let points = tSpin !== 'none'
+      ? calculateScore({ linesCleared, level, tSpin }, scoring.formulas)
+      : (scoring.lineClearPoints[linesCleared] ?? 0) * level;
+    if (chain.backToBackBonus) {
+      points *= scoring.formulas.backToBackMultiplier;
+    }
+    points *= this.config.scoreMultiplier;
+    for (const [threshold, bonus] of scoring.waterBonuses) {
+      if (this.state.water > threshold) {
+        points += bonus * linesCleared;
+      }
+    }
+    if (linesCleared === 4) {
+      points += scoring.tetrisBonus;
+    }
+    points += calculateScore({ linesCleared: 0, level, combo: chain.combo }, scoring.formulas);
+    points = Math.floor(points);
+    if (perfectClear) {
+      points += getPerfectClearBonus(linesCleared, level, scoring.formulas) * scoring.perfectClearMultiplier;
+    }
+
+    this.state.board = board;
+    this.state.current = null;
+    this.state.holdUsed = false;
+    this.state.score += points;
+    this.state.lines += linesCleared;
+    this.state.combo = chain.combo;
+    this.state.backToBack = chain.backToBack;
+    this.state.piecesPlaced++;
+    if (linesCleared > 0) {
+      this.drainWater(linesCleared * waterDrainPerLine + (perfectClear ? perfectClearDrain : 0));
+    }
+
+    events.push({
+      type: 'lock',
+      piece,
+      linesCleared,
+      clearedRows,
+      tSpin,
+      combo: chain.combo,
+      backToBackBonus: chain.backToBackBonus,
+      perfectClear,
+      points
+    });
+
+    if (linesPerLevel > 0) {
+      const newLevel = startLevel + Math.floor(this.state.lines / linesPerLevel);
+      if (newLevel > this.state.level) {
+        this.state.level = newLevel;
+        events.push({ type: 'levelUp', level: newLevel });
+      }
+    }
+
+    this.spawn(events);
+  }
+
+  /**
+   * Put `kind` (or the front of the queue) at the top of the board
+   */
+  private spawn(events: EngineEvent[], kind?: PieceKind): void {
+    const nextKind = kind ?? this.state.queue.shift() ?? this.randomizer.next();
+    this.fillQueue();
+
+    const piece = this.createPiece(nextKind);
+    if (this.collides(piece)) {
+      this.endGame('spawn_blocked', events);
+      return;
+    }
+
+    this.state.current = piece;
+    this.lockDelay.reset();
+    this.dropCounter = 0;
+    this.lastRotationKick = null;
+    events.push({ type: 'spawn', piece: GameEngine.copyPiece(piece) });
+  }
+
+  private fillQueue(): void {
+    while (this.state.queue.length < this.config.previewCount) {
+      this.state.queue.push(this.randomizer.next());
+    }
+  }
+
+  private createPiece(kind: PieceKind): EnginePiece {
+    const definition = PIECE_DEFINITIONS[kind];
+    const shape = definition.rotationStates[0]!.map(row => [...row]);
+    return {
+      kind,
+      shape,
+      color: this.config.colors[kind] ?? definition.color,
+      // Centered like the guideline spawn columns
+      x: Math.floor((this.config.width - (shape[0]?.length ?? 0)) / 2),
+      y: 0,
+      rotation: 0
+    };
+  }
+
+  private endGame(reason: GameOverReason, events: EngineEvent[]): void {
+    this.state.gameOver = reason;
+    this.state.current = null;
+    events.push({ type: 'gameOver', reason });
+  }
+
+  private getDropDistance(piece: EnginePiece): number {
+    let rows = 0;
+    while (!this.collides({ ...piece, y: piece.y + rows + 1 })) {
+      rows++;
+    }
+    return rows;
+  }
+
+  private collides(piece: EnginePiece): boolean {
+    const { width, height } = this.config;
+    for (let y = 0; y < piece.shape.length; y++) {
+      const row = piece.shape[y]!;
+      for (let x = 0; x < row.length; x++) {
+        if (!row[x]) continue;
+
+        const boardX = piece.x + x;
+        const boardY = piece.y + y;
+        if (boardX < 0 || boardX >= width || boardY >= height) {
+          return true;
+        }
+        // Cells above the board are open
+        if (boardY >= 0 && this.state.board[boardY]![boardX]) {
+          return true;
+        }
+      }
+    }
+    return false;
+  }
+
+  private placeOnBoard(piece: EnginePiece): number[][] {
+    const board = this.state.board.map(row => [...row]);
+    piece.shape.forEach((row, y) => {
+      row.forEach((cell, x) => {
+        const boardRow = board[piece.y + y];
+        if (cell && boardRow) {
+          boardRow[piece.x + x] = piece.color;
+        }
+      });
+    });
+    return board;
+  }
+
+  private clearRows(board: number[][]): { board: number[][]; clearedRows: number[] } {
+    const clearedRows: number[] = [];
+    const kept = board.filter((row, y) => {
+      const full = row.every(cell => cell !== 0);
+      if (full) clearedRows.push(y);
+      return !full;
+    });
+    const empty = Array.from({ length: clearedRows.length }, () => Array(this.config.width).fill(0));
+    return { board: [...empty, ...kept], clearedRows };
+  }
+
+  private static mergeConfig(base: EngineConfig, options: EngineOptions): EngineConfig {
+    return {
+      ...base,
+      ...options,
+      scoring: { ...base.scoring, ...options.scoring }
+    } as EngineConfig;
+  }
+
+  private static copyPiece(piece: EnginePiece): EnginePiece {
+    return { ...piece, shape: piece.shape.map(row => [...row]) };
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * Lock delay state machine shared by every game scene.
+ *
+ * A piece that touches the stack gets `delay` ms before it locks. Moving or
+ * rotating it restarts that timer, but only `maxResets` times per row reached,
+ * so a piece cannot be spun on the spot forever.
+ */
+
+export interface LockDelayConfig {
+  /** Milliseconds between ground contact and locking (0 = lock on contact) */
+  delay: number;
+  /** Move/rotate resets allowed before the timer stops restarting */
+  maxResets: number;
+}
+
+export const DEFAULT_LOCK_DELAY_CONFIG: LockDelayConfig = {
+  delay: 500,
+  maxResets: 15
+};
+
+export class LockDelay {
+  private config: LockDelayConfig;
+  private elapsed = 0;
+  private grounded = false;
+  private resets = 0;
+  private lowestRow = Number.NEGATIVE_INFINITY;
+
+  constructor(config: Partial<LockDelayConfig> = {}) {
+    this.config = { ...DEFAULT_LOCK_DELAY_CONFIG, ...config };
+  }
+
+  public setConfig(config: Partial<LockDelayConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  public getConfig(): Readonly<LockDelayConfig> {
+    return this.config;
+  }
+
+  /** Forget the previous piece; call on every spawn */
+  public reset(): void {
+    this.elapsed = 0;
+    this.grounded = false;
+    this.resets = 0;
+    this.lowestRow = Number.NEGATIVE_INFINITY;
+  }
+
+  /**
+   * Advance the timer by `delta` ms. Returns true once the piece should lock.
+   * `row` is the piece's current y; falling to a new lowest row earns the resets back.
+   */
+  public update(delta: number, grounded: boolean, row: number): boolean {
+    this.trackRow(row);
+
+    if (!grounded) {
+      // Walked off a ledge: the timer starts over on the next contact
+      this.grounded = false;
+      this.elapsed = 0;
+      return false;
+    }
+
+    if (!this.grounded) {
+      this.grounded = true;
+      this.elapsed = 0;
+    }
+
+    this.elapsed += delta;
+    return this.elapsed >= this.config.delay || this.isExhausted();
+  }
+
+  /** Record a successful move or rotation of the active piece */
+  public registerMove(row: number): void {
+    this.trackRow(row);
+
+    if (this.grounded && !this.isExhausted()) {
+      this.resets++;
+      this.elapsed = 0;
+    }
+  }
+
+  public isGrounded(): boolean {
+    return this.grounded;
+  }
+
+  /** True when no resets are left: the next ground contact locks immediately */
+  public isExhausted(): boolean {
+    return this.resets >= this.config.maxResets;
+  }
+
+  public getResetsRemaining(): number {
+    return Math.max(0, this.config.maxResets - this.resets);
+  }
+
+  /** 0..1 progress towards locking, for lock flash / meter rendering */
+  public getProgress(): number {
+    if (!this.grounded) return 0;
+    if (this.config.delay <= 0) return 1;
+    return Math.min(1, this.elapsed / this.config.delay);
+  }
+
+  private trackRow(row: number): void {
+    if (row > this.lowestRow) {
+      this.lowestRow = row;
+      this.resets = 0;
+    }
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * Tetromino definitions shared by the client and server.
+ *
+ * Shapes are stored trimmed (no empty rows/columns); `rotationOffsets` records
+ * where each trimmed state sits inside its SRS bounding box so rotations and
+ * kicks line up with the reference tables in Rotation.ts.
+ */
+
+import { KickTableKind } from './Rotation';
+
+export type PieceKind = 'I' | 'O' | 'T' | 'S' | 'Z' | 'L' | 'J';
+
+/** Fixed order keeps seeded sequences identical everywhere */
+export const PIECE_KINDS: readonly PieceKind[] = ['I', 'O', 'T', 'S', 'Z', 'L', 'J'];
+
+export interface PieceShapeDefinition {
+  color: number;
+  /** Trimmed shape for rotation states 0, R, 2, L */
+  rotationStates: number[][][];
+  /** Where each trimmed rotation state sits inside the SRS bounding box */
+  rotationOffsets: [number, number][];
+}
+
+// Trimmed 3x3-box states: R is shifted one column right, 180 one row down
+const THREE_BY_THREE_OFFSETS: [number, number][] = [[0, 0], [1, 0], [0, 1], [0, 0]];
+
+export const PIECE_DEFINITIONS: Readonly<Record<PieceKind, PieceShapeDefinition>> = {
+  I: {
+    color: 0x8B4513, // Saddle brown - thick log
+    rotationStates: [
+      [[1, 1, 1, 1]],
+      [[1], [1], [1], [1]],
+      [[1, 1, 1, 1]],
+      [[1], [1], [1], [1]]
+    ],
+    rotationOffsets: [[0, 1], [2, 0], [0, 2], [1, 0]]
+  },
+  O: {
+    color: 0xCD853F, // Peru - tree stump cross-section
+    rotationStates: [
+      [[1, 1], [1, 1]],
+      [[1, 1], [1, 1]],
+      [[1, 1], [1, 1]],
+      [[1, 1], [1, 1]]
+    ],
+    rotationOffsets: [[0, 0], [0, 0], [0, 0], [0, 0]]
+  },
+  T: {
+    color: 0xDEB887, // Burlywood - main branch with shoots
+    rotationStates: [
+      [[0, 1, 0], [1, 1, 1]],
+      [[1, 0], [1, 1], [1, 0]],
+      [[1, 1, 1], [0, 1, 0]],
+      [[0, 1], [1, 1], [0, 1]]
+    ],
+    rotationOffsets: THREE_BY_THREE_OFFSETS
+  },
+  S: {
+    color: 0x228B22, // Forest green - leafy branch
+    rotationStates: [
+      [[0, 1, 1], [1, 1, 0]],
+      [[1, 0], [1, 1], [0, 1]],
+      [[0, 1, 1], [1, 1, 0]],
+      [[1, 0], [1, 1], [0, 1]]
+    ],
+    rotationOffsets: THREE_BY_THREE_OFFSETS
+  },
+  Z: {
+    color: 0x90EE90, // Light green - young leafy branch
+    rotationStates: [
+      [[1, 1, 0], [0, 1, 1]],
+      [[0, 1], [1, 1], [1, 0]],
+      [[1, 1, 0], [0, 1, 1]],
+      [[0, 1], [1, 1], [1, 0]]
+    ],
+    rotationOffsets: THREE_BY_THREE_OFFSETS
+  },
+  L: {
+    color: 0xDAA520, // Goldenrod - bent branch
+    rotationStates: [
+      [[1, 0, 0], [1, 1, 1]],
+      [[1, 1], [1, 0], [1, 0]],
+      [[1, 1, 1], [0, 0, 1]],
+      [[0, 1], [0, 1], [1, 1]]
+    ],
+    rotationOffsets: THREE_BY_THREE_OFFSETS
+  },
+  J: {
+    color: 0xA0522D, // Sienna - curved branch with bark
+    rotationStates: [
+      [[0, 0, 1], [1, 1, 1]],
+      [[1, 0], [1, 0], [1, 1]],
+      [[1, 1, 1], [1, 0, 0]],
+      [[1, 1], [0, 1], [0, 1]]
+    ],
+    rotationOffsets: THREE_BY_THREE_OFFSETS
+  }
+};
+
+/** Initial randomizer history that keeps S/Z from coming first (TGM style) */
+export const PIECE_HISTORY_SEED: readonly PieceKind[] = ['Z', 'S', 'Z', 'S'];
+
+export function getKickTableKind(kind: PieceKind): KickTableKind {
+  return kind === 'I' || kind === 'O' ? kind : 'JLSTZ';
+}
@@ -0,0 +1,139 @@
+/**
+ * Limits on what a finished run can add up to. The server rejects score
+ * submissions outside them and ValidationUtils applies them to saved
+ * entries, so a hand-crafted request can't claim more than the rules allow
+ * for the lines it cleared.
+ *
+ * The bounds are deliberately loose: every line is assumed to be scored as
+ * well as the formulas allow, at the final level, with the largest
+ * multipliers the game hands out.
+ */
+
+import { DEFAULT_SCORE_FORMULAS, ScoreFormulas, calculateScore } from './Scoring';
+import { DEFAULT_ENGINE_CONFIG } from './GameEngine';
+import { SPRINT_TARGET_LINES } from '../leaderboard/Modes';
+
+export const MAX_SCORE = 99999999;
+export const MAX_LEVEL = 100;
+export const MAX_LINES = 9999;
+
+/** Highest level a mode starts on (Expert) */
+export const MAX_START_LEVEL = 10;
+export const LINES_PER_LEVEL = 10;
+
+/** Difficulty and seasonal score multipliers combined, rounded up */
+const MAX_SCORE_MULTIPLIER = 4;
+/** Longest combo credited to every line */
+const MAX_COMBO = 20;
+/**
+ * Points a run can earn without clearing anything (drops, zero-line T-spins
+ * and the survival bonus until the water tops out), and the extra survival
+ * bonus each cleared line buys by draining the water
+ */
+const LINELESS_POINTS = 150000;
+const LINELESS_POINTS_PER_LINE = 10000;
+
+/** Ten pieces a second, faster than anyone plays */
+const MIN_MS_PER_PIECE = 100;
+/** Fastest possible Sprint: the pieces that fill its line target, placed as fast as that */
+export const MIN_SPRINT_TIME_MS = Math.ceil(SPRINT_TARGET_LINES * DEFAULT_ENGINE_CONFIG.width / 4) * MIN_MS_PER_PIECE;
+
+export type PlausibilityField = 'score' | 'level' | 'lines' | 'time';
+
+export interface PlausibilityIssue {
+  field: PlausibilityField;
+  /** `invalid` for malformed values, `implausible` for ones the rules can't produce */
+  kind: 'invalid' | 'implausible';
+  message: string;
+}
+
+export interface RunTotals {
+  score: unknown;
+  /** The speed level the run ended on, never a campaign level */
+  level: unknown;
+  lines: unknown;
+  /** Checked against the fastest possible Sprint when the mode is given */
+  mode?: unknown;
+  time?: unknown;
+}
+
+const isCount = (value: unknown, min: number, max: number): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+
+/**
+ * The highest level a run can have reached after clearing `lines`
+ */
+export function getMaxLevelForLines(lines: number): number {
+  return Math.min(MAX_LEVEL, MAX_START_LEVEL + Math.floor(lines / LINES_PER_LEVEL));
+}
+
+/**
+ * The most a single cleared line can be worth at `level`: the best of every
+ * clear size as a back-to-back T-spin (or tetris) perfect clear at the end
+ * of a long combo
+ */
+export function getMaxPointsPerLine(level: number, formulas: ScoreFormulas = DEFAULT_SCORE_FORMULAS): number {
+  return Math.max(...[1, 2, 3, 4].map((linesCleared) => calculateScore({
+    linesCleared,
+    level,
+    ...(linesCleared < 4 && { tSpin: 'full' as const }),
+    scoreMultiplier: MAX_SCORE_MULTIPLIER,
+    backToBack: true,
+    perfectClear: true,
+    combo: MAX_COMBO
+  }, formulas) / linesCleared));
+}
+
+/**
+ * The highest score a run that ended on `level` with `lines` cleared can have
+ */
+export function getMaxPlausibleScore(level: number, lines: number): number {
+  return Math.min(MAX_SCORE, Math.ceil(lines * getMaxPointsPerLine(level)) + LINELESS_POINTS + lines * LINELESS_POINTS_PER_LINE);
+}
+
+/**
+ * Everything wrong with a run's totals; empty if it is plausible
+ */
+export function checkRunPlausibility({ score, level, lines, mode, time }: RunTotals): PlausibilityIssue[] {
+  const issues: PlausibilityIssue[] = [];
+
+  if (!isCount(score, 0, MAX_SCORE)) {
+    issues.push({ field: 'score', kind: 'invalid', message: `Score must be an integer from 0 to ${MAX_SCORE}` });
+  }
+  if (!isCount(level, 1, MAX_LEVEL)) {
+    issues.push({ field: 'level', kind: 'invalid', message: `Level must be an integer from 1 to ${MAX_LEVEL}` });
+  }
+  if (!isCount(lines, 0, MAX_LINES)) {
+    issues.push({ field: 'lines', kind: 'invalid', message: `Lines must be an integer from 0 to ${MAX_LINES}` });
+  }
+  if (issues.length > 0) return issues;
+
+  const totals = { score, level, lines } as { score: number; level: number; lines: number };
+  const maxLevel = getMaxLevelForLines(totals.lines);
+  if (totals.level > maxLevel) {
+    issues.push({
+      field: 'level',
+      kind: 'implausible',
+      message: `Level ${totals.level} can't be reached with ${totals.lines} lines (at most ${maxLevel})`
+    });
+  }
+
+  const maxScore = getMaxPlausibleScore(Math.min(totals.level, maxLevel), totals.lines);
+  if (totals.score > maxScore) {
+    issues.push({
+      field: 'score',
+      kind: 'implausible',
+      message: `Score ${totals.score} is more than ${totals.lines} lines can earn (at most ${maxScore})`
+    });
+  }
+
+  if (mode === 'sprint' && totals.lines >= SPRINT_TARGET_LINES && typeof time === 'number' && time < MIN_SPRINT_TIME_MS) {
+    issues.push({
+      field: 'time',
+      kind: 'implausible',
+      message: `A Sprint can't be finished in ${time}ms (at least ${MIN_SPRINT_TIME_MS}ms)`
+    });
+  }
+
+  return issues;
+}
@@ -0,0 +1,179 @@
+/**
+ * Seeded randomness and piece randomizers shared by the client and server.
+ *
+ * Everything here is deterministic for a given seed so a run can be rebuilt
+ * from its seed alone (replays, daily challenges, server verification).
+ */
+
+export type RandomizerType = 'random' | '7-bag' | '14-bag' | 'history';
+
+export const RANDOMIZER_TYPES: readonly RandomizerType[] = ['random', '7-bag', '14-bag', 'history'];
+
+export interface RandomSource {
+  /** Next float in [0, 1) */
+  next(): number;
+  /** Next integer in [0, maxExclusive) */
+  nextInt(maxExclusive: number): number;
+}
+
+export interface Randomizer<T> {
+  readonly type: RandomizerType;
+  next(): T;
+}
+
+export interface RandomizerOptions<T> {
+  /** History randomizer: number of recent items to avoid (TGM uses 4) */
+  historySize?: number;
+  /** History randomizer: rerolls before accepting a repeat (TGM2 uses 6) */
+  rolls?: number;
+  /** History randomizer: history to start from (TGM seeds it with S/Z so they never come first) */
+  initialHistory?: T[];
+}
+
+/**
+ * Small, fast 32-bit PRNG (mulberry32). Not cryptographic - just reproducible.
+ */
+export class SeededRandom implements RandomSource {
+  private readonly seed: number;
+  private state: number;
+
+  constructor(seed: number) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  public next(): number {
+    this.state = (this.state + 0x6D2B79F5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  public nextInt(maxExclusive: number): number {
+    return Math.floor(this.next() * maxExclusive);
+  }
+
+  public getSeed(): number {
+    return this.seed;
+  }
+}
+
+/**
+ * Generate a fresh seed for a new run
+ */
+export function createSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
+
+/**
+ * Every pick is independent - the classic (drought-prone) behavior
+ */
+class PureRandomizer<T> implements Randomizer<T> {
+  public readonly type: RandomizerType = 'random';
+
+  constructor(private readonly items: readonly T[], private readonly random: RandomSource) {}
+
+  public next(): T {
+    return this.items[this.random.nextInt(this.items.length)]!;
+  }
+}
+
+/**
+ * Shuffled bag of every item (times `copies`), refilled when empty
+ */
+class BagRandomizer<T> implements Randomizer<T> {
+  private bag: T[] = [];
+
+  constructor(
+    public readonly type: RandomizerType,
+    private readonly items: readonly T[],
+    private readonly copies: number,
+    private readonly random: RandomSource
+  ) {}
+
+  public next(): T {
+    if (this.bag.length === 0) {
+      this.refill();
+    }
+    return this.bag.shift()!;
+  }
+
+  private refill(): void {
+    for (let i = 0; i < this.copies; i++) {
+      this.bag.push(...this.items);
+    }
+
+    // Fisher-Yates shuffle driven by the seeded source
+    for (let i = this.bag.length - 1; i > 0; i--) {
+      const j = this.random.nextInt(i + 1);
+      [this.bag[i], this.bag[j]] = [this.bag[j]!, this.bag[i]!];
+    }
+  }
+}
+
+/**
+ * TGM-style history randomizer: reroll picks found in the recent history
+ */
+class HistoryRandomizer<T> implements Randomizer<T> {
+  public readonly type: RandomizerType = 'history';
+  private history: T[];
+
+  constructor(
+    private readonly items: readonly T[],
+    private readonly random: RandomSource,
+    private readonly historySize: number,
+    private readonly rolls: number,
+    initialHistory: T[]
+  ) {
+    this.history = initialHistory.slice(-historySize);
+  }
+
+  public next(): T {
+    let pick = this.items[this.random.nextInt(this.items.length)]!;
+
+    for (let roll = 1; roll < this.rolls && this.history.includes(pick); roll++) {
+      pick = this.items[this.random.nextInt(this.items.length)]!;
+    }
+
+    this.history.push(pick);
+    if (this.history.length > this.historySize) {
+      this.history.shift();
+    }
+
+    return pick;
+  }
+}
+
+/**
+ * Create a randomizer of the given type over `items`
+ */
+export function createRandomizer<T>(
+  type: RandomizerType,
+  items: readonly T[],
+  random: RandomSource,
+  options: RandomizerOptions<T> = {}
+): Randomizer<T> {
+  if (items.length === 0) {
+    throw new Error('Randomizer needs at least one item');
+  }
+
+  switch (type) {
+    case 'random':
+      return new PureRandomizer(items, random);
+    case '7-bag':
+      return new BagRandomizer(type, items, 1, random);
+    case '14-bag':
+      return new BagRandomizer(type, items, 2, random);
+    case 'history':
+      return new HistoryRandomizer(
+        items,
+        random,
+        options.historySize ?? 4,
+        options.rolls ?? 6,
+        options.initialHistory ?? []
+      );
+    default:
+      throw new Error(`Unknown randomizer type: ${type}`);
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * Replays: everything needed to re-run a game through GameEngine.
+ *
+ * A replay is the config the engine started with plus its command journal
+ * (inputs, rule changes and water drains stamped with engine time). Feeding
+ * the same commands at the same engine times rebuilds the game exactly, which
+ * is how the client plays replays back and how the server can check them.
+ */
+
+import { EngineCommand, EngineConfig, EngineEvent, ENGINE_INPUTS, ENGINE_TICK_MS, GameEngine } from './GameEngine';
+
+export const REPLAY_VERSION = 1;
+
+export interface ReplayData {
+  version: number;
+  seed: number;
+  /** Mode the run was played in: campaign, endless, a game mode id or classic */
+  mode: string;
+  /** Campaign or seasonal level the run was played on (the level reached in classic); only shown, never verified */
+  level: number;
+  /** Engine config snapshot the run started with (seed excluded) */
+  settings: Omit<EngineConfig, 'seed'>;
+  commands: EngineCommand[];
+  /** Engine time when the recording stopped */
+  duration: number;
+  score: number;
+  lines: number;
+  recordedAt: number;
+}
+
+/**
+ * Snapshot a finished (or running) game as a replay
+ */
+export function createReplay(engine: GameEngine, meta: { mode: string; level: number }): ReplayData {
+  const { seed, ...settings } = engine.getInitialConfig();
+  const state = engine.getState();
+
+  return {
+    version: REPLAY_VERSION,
+    seed,
+    mode: meta.mode,
+    level: meta.level,
+    settings,
+    commands: [...engine.getCommands()],
+    duration: state.elapsed,
+    score: state.score,
+    lines: state.lines,
+    recordedAt: Date.now()
+  };
+}
+
+export function serializeReplay(replay: ReplayData): string {
+  return JSON.stringify(replay);
+}
+
+/**
+ * Parse a serialized replay, or null if it is malformed or from another version
+ */
+export function parseReplay(text: string): ReplayData | null {
+  try {
+    const value: unknown = JSON.parse(text);
+    return isReplayData(value) ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+export function isReplayData(value: unknown): value is ReplayData {
+  if (typeof value !== 'object' || value === null) return false;
+
+  const replay = value as Partial<ReplayData>;
+  const numbers = [replay.seed, replay.level, replay.duration, replay.score, replay.lines, replay.recordedAt];
+  return replay.version === REPLAY_VERSION &&
+    numbers.every(n => typeof n === 'number' && Number.isFinite(n)) &&
+    typeof replay.mode === 'string' &&
+    typeof replay.settings === 'object' && replay.settings !== null &&
+    Array.isArray(replay.commands) &&
+    replay.commands.every(isEngineCommand);
+}
+
+function isEngineCommand(value: unknown): value is EngineCommand {
+  if (!Array.isArray(value) || value.length !== 2) return false;
+
+  const [time, action] = value as unknown[];
+  if (typeof time !== 'number' || time < 0 || time % ENGINE_TICK_MS !== 0) return false;
+  if (typeof action === 'number') {
+    return Number.isInteger(action) && action >= 0 && action < ENGINE_INPUTS.length;
+  }
+  return typeof action === 'object' && action !== null;
+}
+
+/**
+ * Plays a replay back on a fresh engine. Seeking backwards re-simulates from
+ * the start, which is cheap for a headless engine.
+ */
+export class ReplayPlayer {
+  private replay: ReplayData;
+  private engine!: GameEngine;
+  private nextCommand = 0;
+
+  constructor(replay: ReplayData) {
+    this.replay = replay;
+    this.restart();
+  }
+
+  public getEngine(): GameEngine {
+    return this.engine;
+  }
+
+  public getTime(): number {
+    return this.engine.getTime();
+  }
+
+  public getDuration(): number {
+    return this.replay.duration;
+  }
+
+  public isFinished(): boolean {
+    return this.engine.isGameOver() || this.getTime() >= this.replay.duration;
+  }
+
+  /**
+   * Move playback to `time` (clamped to the replay), returning the events on the way
+   */
+  public seek(time: number): EngineEvent[] {
+    const target = Math.floor(Math.max(0, Math.min(time, this.replay.duration)) / ENGINE_TICK_MS) * ENGINE_TICK_MS;
+    if (target < this.getTime()) {
+      this.restart();
+    }
+
+    const events: EngineEvent[] = [];
+    let command = this.replay.commands[this.nextCommand];
+    while (command && command[0] <= target && !this.engine.isGameOver()) {
+      events.push(...this.advanceTo(command[0]), ...this.engine.applyCommand(command));
+      command = this.replay.commands[++this.nextCommand];
+    }
+    events.push(...this.advanceTo(target));
+    return events;
+  }
+
+  private restart(): void {
+    this.engine = new GameEngine({ ...this.replay.settings, seed: this.replay.seed });
+    this.engine.start();
+    this.nextCommand = 0;
+  }
+
+  private advanceTo(time: number): EngineEvent[] {
+    const remaining = time - this.engine.getTime();
+    return remaining > 0 ? this.engine.step([], remaining) : [];
+  }
+}
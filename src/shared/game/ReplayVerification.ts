@@ -0,0 +1,230 @@
+/**
+ * Replay verification: re-run a submitted replay with the shared rules and
+ * check that it really produces the score, level and lines it claims.
+ *
+ * Only the seed and the commands are taken from the replay as they are. The
+ * engine is built from one of the rule sets the game plays, picked by the
+ * replay's scoring table, and the only settings copied over are the ones a
+ * player (or their mode) chooses, once they are checked to be values a real
+ * client can produce. Rule changes and water drains made mid-run are held to
+ * the same ranges.
+ */
+
+import { CLASSIC_ENGINE_RULES, DEFAULT_ENGINE_CONFIG, EngineChange, EngineConfig } from './GameEngine';
+import { DEFAULT_LOCK_DELAY_CONFIG } from './LockDelay';
+import { RANDOMIZER_TYPES } from './Randomizer';
+import { ReplayData, ReplayPlayer, isReplayData } from './Replay';
+
+/**
+ * Longest run the server is willing to re-simulate. Verification runs the
+ * engine tick by tick on the request, so this bounds it to 360k ticks.
+ */
+export const MAX_REPLAY_DURATION_MS = 30 * 60 * 1000;
+export const MAX_REPLAY_COMMANDS = 100000;
+/** Largest seasonal score multiplier, with some headroom */
+export const MAX_SCORE_MULTIPLIER = 1.5;
+/** Largest single water drain (the water pump power-up) */
+export const MAX_WATER_DRAIN = 0.2;
+/** Longest next queue: the five the settings allow plus one while an extra-preview critter is around */
+export const MAX_PREVIEW_COUNT = 6;
+/** Longest lock delay the settings allow */
+export const MAX_LOCK_DELAY = 2000;
+
+type EngineRule = Exclude<keyof EngineConfig, 'seed'>;
+type RuleCheck = (value: unknown) => boolean;
+
+const isNumberIn = (min: number, max: number, integer: boolean = false): RuleCheck => (value) =>
+  typeof value === 'number' && !Number.isNaN(value) && value >= min && value <= max && (!integer || Number.isInteger(value));
+const isBoolean: RuleCheck = (value) => typeof value === 'boolean';
+
+/**
+ * The values a real client can give each rule it chooses. The water is never
+ * gentler than on the first seasonal level.
+ */
+const RULE_CHECKS: Partial<Record<EngineRule, RuleCheck>> = {
+  randomizer: (value) => (RANDOMIZER_TYPES as readonly unknown[]).includes(value),
+  previewCount: isNumberIn(1, MAX_PREVIEW_COUNT, true),
+  holdEnabled: isBoolean,
+  rotation180: isBoolean,
+  lockDelay: isNumberIn(0, MAX_LOCK_DELAY),
+  lockResetLimit: isNumberIn(0, DEFAULT_LOCK_DELAY_CONFIG.maxResets, true),
+  waterGracePeriod: isNumberIn(0, DEFAULT_ENGINE_CONFIG.waterGracePeriod),
+  waterRiseRate: isNumberIn(DEFAULT_ENGINE_CONFIG.waterRiseRate, Infinity),
+  scoreMultiplier: (value) => typeof value === 'number' && value > 0 && value <= MAX_SCORE_MULTIPLIER
+};
+
+interface Ruleset {
+  config: Readonly<EngineConfig>;
+  /** Rules taken from the replay's settings */
+  settings: ReadonlyArray<EngineRule>;
+  /** Rules the game may change while the run is played */
+  changes: ReadonlyArray<EngineRule>;
+  /** Whether power-ups can drain the water */
+  drains: boolean;
+}
+
+/** The standard game (EnhancedGame) and the classic one (Game) */
+const RULESETS: readonly Ruleset[] = [
+  {
+    config: DEFAULT_ENGINE_CONFIG,
+    settings: ['randomizer', 'previewCount', 'holdEnabled', 'rotation180', 'lockDelay', 'lockResetLimit', 'waterGracePeriod', 'waterRiseRate'],
+    changes: ['previewCount', 'scoreMultiplier', 'waterRiseRate'],
+    drains: true
+  },
+  {
+    config: { ...DEFAULT_ENGINE_CONFIG, ...CLASSIC_ENGINE_RULES },
+    settings: ['lockDelay'],
+    changes: [],
+    drains: false
+  }
+];
+
+/**
+ * verified: the replay reproduces the claim
+ * unverified: no replay was submitted
+ * mismatch: the replay plays out to a different result
+ * invalid: the replay is malformed or breaks the rules
+ */
+export type ReplayVerificationStatus = 'verified' | 'unverified' | 'mismatch' | 'invalid';
+
+export interface ReplayClaim {
+  score: number;
+  /** The speed level the run ended on */
+  level: number;
+  lines: number;
+  /** Checked against the replay's mode when given */
+  mode?: string;
+}
+
+export interface ReplayVerification {
+  status: ReplayVerificationStatus;
+  reason?: string;
+  /** What the re-simulation produced, when it ran */
+  score?: number;
+  level?: number;
+  lines?: number;
+  duration?: number;
+  checkedAt: number;
+}
+
+/**
+ * Re-simulate `replay` and compare it with what the client claims
+ */
+export function verifyReplay(replay: unknown, claim: ReplayClaim): ReplayVerification {
+  const checkedAt = Date.now();
+  if (replay === undefined || replay === null) {
+    return { status: 'unverified', reason: 'No replay submitted', checkedAt };
+  }
+  if (!isReplayData(replay)) {
+    return { status: 'invalid', reason: 'Malformed replay', checkedAt };
+  }
+
+  const violation = findRuleViolation(replay);
+  if (violation) {
+    return { status: 'invalid', reason: violation, checkedAt };
+  }
+
+  // Re-simulated under the server's rules, not the ones the replay brought along
+  const player = new ReplayPlayer({ ...replay, settings: getReplayConfig(replay)! });
+  player.seek(replay.duration);
+  const { score, level, lines, elapsed } = player.getEngine().getState();
+  const result = { score, level, lines, duration: elapsed, checkedAt };
+
+  if (score !== claim.score) {
+    return { ...result, status: 'mismatch', reason: `Replay scores ${score}, not ${claim.score}` };
+  }
+  if (lines !== claim.lines) {
+    return { ...result, status: 'mismatch', reason: `Replay clears ${lines} lines, not ${claim.lines}` };
+  }
+  if (level !== claim.level) {
+    return { ...result, status: 'mismatch', reason: `Replay reaches level ${level}, not ${claim.level}` };
+  }
+  if (claim.mode !== undefined && replay.mode !== claim.mode) {
+    return { ...result, status: 'mismatch', reason: `Replay was played in ${replay.mode}, not ${claim.mode}` };
+  }
+  return { ...result, status: 'verified' };
+}
+
+/**
+ * The engine config to re-simulate `replay` with: its rule set's, with only
+ * the player's own settings taken from the replay. Null if the replay's
+ * scoring matches none of the game's rule sets.
+ */
+export function getReplayConfig(replay: ReplayData): EngineConfig | null {
+  const ruleset = findRuleset(replay);
+  if (!ruleset) return null;
+
+  const settings = Object.fromEntries(ruleset.settings.map(key => [key, replay.settings[key]]));
+  return { ...ruleset.config, ...settings, seed: replay.seed };
+}
+
+/**
+ * Describe the first way the replay breaks the rules, or null if it plays fair
+ */
+export function findRuleViolation(replay: ReplayData): string | null {
+  const { settings, commands } = replay;
+
+  if (replay.duration > MAX_REPLAY_DURATION_MS || commands.length > MAX_REPLAY_COMMANDS) {
+    return 'Replay is too long';
+  }
+  if (!Number.isInteger(replay.seed) || replay.seed < 0 || replay.seed > 0xFFFFFFFF) {
+    return 'Invalid seed';
+  }
+
+  const ruleset = findRuleset(replay);
+  if (!ruleset) {
+    return 'Unknown scoring rules';
+  }
+  const setting = ruleset.settings.find(key => !RULE_CHECKS[key]?.(settings[key]));
+  if (setting) {
+    return `${setting} out of range`;
+  }
+
+  let lastTime = 0;
+  for (const [time, action] of commands) {
+    if (time < lastTime || time > replay.duration) {
+      return 'Commands out of order';
+    }
+    lastTime = time;
+
+    if (typeof action !== 'number') {
+      const violation = findChangeViolation(action, ruleset);
+      if (violation) return violation;
+    }
+  }
+  return null;
+}
+
+function findChangeViolation(change: EngineChange, ruleset: Ruleset): string | null {
+  if (change.drain !== undefined && !(ruleset.drains && change.drain > 0 && change.drain <= MAX_WATER_DRAIN)) {
+    return 'Water drain out of range';
+  }
+  if (change.config) {
+    const keys = Object.keys(change.config) as EngineRule[];
+    if (keys.some(key => !ruleset.changes.includes(key))) {
+      return 'Rule change not allowed mid-game';
+    }
+    const outOfRange = keys.find(key => !RULE_CHECKS[key]?.(change.config![key]));
+    if (outOfRange) {
+      return `${outOfRange} out of range`;
+    }
+  }
+  return null;
+}
+
+function findRuleset(replay: ReplayData): Ruleset | null {
+  return RULESETS.find(ruleset => sameValue(ruleset.config.scoring, replay.settings.scoring)) ?? null;
+}
+
+/** Structural equality that ignores key order (replays arrive as JSON) */
+function sameValue(a: unknown, b: unknown): boolean {
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+    return a === b;
+  }
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const aKeys = Object.keys(a);
+  const bKeys = Object.keys(b);
+  return aKeys.length === bKeys.length &&
+    aKeys.every(key => sameValue((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]));
+}
@@ -0,0 +1,75 @@
+/**
+ * Super Rotation System (SRS) rotation states and wall kick tables.
+ *
+ * Tables are written exactly as in the SRS reference (x right, y UP) so they
+ * can be checked against it line by line; getKickOffsets() flips y for our
+ * board, where y grows downwards.
+ */
+
+/** 0 = spawn, 1 = R (clockwise), 2 = 180, 3 = L (counter-clockwise) */
+export type RotationState = 0 | 1 | 2 | 3;
+
+export type RotationDirection = 'cw' | 'ccw' | '180';
+
+export type KickOffset = readonly [number, number];
+
+/** Which kick table a piece uses: O never kicks, I has its own table */
+export type KickTableKind = 'JLSTZ' | 'I' | 'O';
+
+type KickTable = Readonly<Record<string, readonly KickOffset[]>>;
+
+export const JLSTZ_KICKS: KickTable = {
+  '0>1': [[0, 0], [-1, 0], [-1, 1], [0, -2], [-1, -2]],
+  '1>0': [[0, 0], [1, 0], [1, -1], [0, 2], [1, 2]],
+  '1>2': [[0, 0], [1, 0], [1, -1], [0, 2], [1, 2]],
+  '2>1': [[0, 0], [-1, 0], [-1, 1], [0, -2], [-1, -2]],
+  '2>3': [[0, 0], [1, 0], [1, 1], [0, -2], [1, -2]],
+  '3>2': [[0, 0], [-1, 0], [-1, -1], [0, 2], [-1, 2]],
+  '3>0': [[0, 0], [-1, 0], [-1, -1], [0, 2], [-1, 2]],
+  '0>3': [[0, 0], [1, 0], [1, 1], [0, -2], [1, -2]]
+};
+
+export const I_KICKS: KickTable = {
+  '0>1': [[0, 0], [-2, 0], [1, 0], [-2, -1], [1, 2]],
+  '1>0': [[0, 0], [2, 0], [-1, 0], [2, 1], [-1, -2]],
+  '1>2': [[0, 0], [-1, 0], [2, 0], [-1, 2], [2, -1]],
+  '2>1': [[0, 0], [1, 0], [-2, 0], [1, -2], [-2, 1]],
+  '2>3': [[0, 0], [2, 0], [-1, 0], [2, 1], [-1, -2]],
+  '3>2': [[0, 0], [-2, 0], [1, 0], [-2, -1], [1, 2]],
+  '3>0': [[0, 0], [1, 0], [-2, 0], [1, -2], [-2, 1]],
+  '0>3': [[0, 0], [-1, 0], [2, 0], [-1, 2], [2, -1]]
+};
+
+/** SRS has no 180° rotation; these are the widely used SRS+ 180° kicks */
+export const ROTATE_180_KICKS: KickTable = {
+  '0>2': [[0, 0], [0, 1], [1, 1], [-1, 1], [1, 0], [-1, 0]],
+  '2>0': [[0, 0], [0, -1], [-1, -1], [1, -1], [-1, 0], [1, 0]],
+  '1>3': [[0, 0], [1, 0], [1, 2], [1, 1], [0, 2], [0, 1]],
+  '3>1': [[0, 0], [-1, 0], [-1, 2], [-1, 1], [0, 2], [0, 1]]
+};
+
+const NO_KICKS: readonly KickOffset[] = [[0, 0]];
+
+export function getRotationTarget(from: RotationState, direction: RotationDirection): RotationState {
+  const steps = direction === 'cw' ? 1 : direction === '180' ? 2 : 3;
+  return ((from + steps) % 4) as RotationState;
+}
+
+/**
+ * Kick tests for a rotation, in board coordinates (y down), first test first
+ */
+export function getKickOffsets(kind: KickTableKind, from: RotationState, to: RotationState): readonly KickOffset[] {
+  if (kind === 'O' || from === to) {
+    return NO_KICKS;
+  }
+
+  const key = `${from}>${to}`;
+  const table = (from + 2) % 4 === to ? ROTATE_180_KICKS : kind === 'I' ? I_KICKS : JLSTZ_KICKS;
+  const kicks = table[key];
+  if (!kicks) {
+    throw new Error(`No kick data for ${kind} rotation ${key}`);
+  }
+
+  // Flip to y-down (without producing -0 for horizontal kicks)
+  return kicks.map(([dx, dy]) => [dx, dy === 0 ? 0 : -dy] as const);
+}
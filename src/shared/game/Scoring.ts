@@ -0,0 +1,181 @@
+/**
+ * Guideline score formulas shared by the client and server.
+ *
+ * ScoreManager wraps these for the client; the headless GameEngine calls them
+ * directly so both sides agree on points.
+ */
+
+import { SpinType } from './TSpin';
+
+export interface ScoreCalculationData {
+  linesCleared: number;
+  level: number;
+  dropBonus?: number;
+  softDropDistance?: number;
+  hardDropDistance?: number;
+  isTetris?: boolean;
+  scoreMultiplier?: number;
+  levelBonus?: number;
+  tSpin?: SpinType;
+  combo?: number;
+  backToBack?: boolean;
+  perfectClear?: boolean;
+}
+
+export interface ScoreFormulas {
+  singleLine: number;
+  doubleLine: number;
+  tripleLine: number;
+  tetris: number;
+  softDrop: number;
+  hardDrop: number;
+  levelMultiplier: number;
+  tSpinZero: number;
+  tSpinSingle: number;
+  tSpinDouble: number;
+  tSpinTriple: number;
+  miniTSpinZero: number;
+  miniTSpinSingle: number;
+  miniTSpinDouble: number;
+  comboBonus: number;
+  backToBackMultiplier: number;
+  perfectClearSingle: number;
+  perfectClearDouble: number;
+  perfectClearTriple: number;
+  perfectClearTetris: number;
+}
+
+export const DEFAULT_SCORE_FORMULAS: Readonly<ScoreFormulas> = {
+  singleLine: 100,
+  doubleLine: 300,
+  tripleLine: 500,
+  tetris: 800,
+  softDrop: 1,
+  hardDrop: 2,
+  levelMultiplier: 1,
+  tSpinZero: 400,
+  tSpinSingle: 800,
+  tSpinDouble: 1200,
+  tSpinTriple: 1600,
+  miniTSpinZero: 100,
+  miniTSpinSingle: 200,
+  miniTSpinDouble: 400,
+  comboBonus: 50,
+  backToBackMultiplier: 1.5,
+  perfectClearSingle: 800,
+  perfectClearDouble: 1200,
+  perfectClearTriple: 1800,
+  perfectClearTetris: 2000
+};
+
+/**
+ * Calculate score based on game actions
+ */
+export function calculateScore(data: ScoreCalculationData, formulas: ScoreFormulas = DEFAULT_SCORE_FORMULAS): number {
+  let score = 0;
+
+  // T-spins replace the line clear table and score even without clearing lines
+  if (data.tSpin && data.tSpin !== 'none') {
+    score += getTSpinBase(data.tSpin, data.linesCleared, formulas) * (data.level * formulas.levelMultiplier);
+
+    if (data.scoreMultiplier && data.scoreMultiplier > 1) {
+      score *= data.scoreMultiplier;
+    }
+
+    if (data.backToBack && data.linesCleared > 0) {
+      score *= formulas.backToBackMultiplier;
+    }
+  } else if (data.linesCleared > 0) {
+    // Line clear scoring
+    let baseScore = 0;
+
+    switch (data.linesCleared) {
+      case 1:
+        baseScore = formulas.singleLine;
+        break;
+      case 2:
+        baseScore = formulas.doubleLine;
+        break;
+      case 3:
+        baseScore = formulas.tripleLine;
+        break;
+      case 4:
+        baseScore = formulas.tetris;
+        break;
+      default:
+        // For more than 4 lines (shouldn't happen in standard Tetris)
+        baseScore = formulas.tetris * Math.floor(data.linesCleared / 4);
+        break;
+    }
+
+    // Apply level multiplier
+    score += baseScore * (data.level * formulas.levelMultiplier);
+
+    // Apply difficulty score multiplier if provided
+    if (data.scoreMultiplier && data.scoreMultiplier > 1) {
+      score *= data.scoreMultiplier;
+    }
+
+    // Bonus for Tetris (4 lines at once)
+    if (data.linesCleared === 4 || data.isTetris) {
+      score += baseScore * 0.5; // 50% bonus for Tetris
+    }
+
+    // Back-to-back difficult clears
+    if (data.backToBack) {
+      score *= formulas.backToBackMultiplier;
+    }
+  }
+
+  // Combo bonus from the second consecutive clearing placement on
+  if (data.combo && data.combo > 1) {
+    score += formulas.comboBonus * (data.combo - 1) * data.level;
+  }
+
+  if (data.perfectClear) {
+    score += getPerfectClearBonus(data.linesCleared, data.level, formulas);
+  }
+
+  // Drop bonuses
+  if (data.softDropDistance) {
+    score += data.softDropDistance * formulas.softDrop;
+  }
+
+  if (data.hardDropDistance) {
+    score += data.hardDropDistance * formulas.hardDrop;
+  }
+
+  // General drop bonus
+  if (data.dropBonus) {
+    score += data.dropBonus;
+  }
+
+  // Level completion bonus
+  if (data.levelBonus) {
+    score += data.levelBonus;
+  }
+
+  return Math.floor(score);
+}
+
+/**
+ * Bonus for emptying the whole board, on top of the clear itself
+ */
+export function getPerfectClearBonus(linesCleared: number, level: number, formulas: ScoreFormulas = DEFAULT_SCORE_FORMULAS): number {
+  if (linesCleared <= 0) {
+    return 0;
+  }
+  const base = [formulas.perfectClearSingle, formulas.perfectClearDouble, formulas.perfectClearTriple][linesCleared - 1]
+    ?? formulas.perfectClearTetris;
+  return base * level * formulas.levelMultiplier;
+}
+
+/**
+ * Base points for a T-spin before the level multiplier
+ */
+function getTSpinBase(spin: Exclude<SpinType, 'none'>, linesCleared: number, formulas: ScoreFormulas): number {
+  if (spin === 'mini') {
+    return [formulas.miniTSpinZero, formulas.miniTSpinSingle, formulas.miniTSpinDouble][linesCleared] ?? formulas.miniTSpinDouble;
+  }
+  return [formulas.tSpinZero, formulas.tSpinSingle, formulas.tSpinDouble, formulas.tSpinTriple][linesCleared] ?? formulas.tSpinTriple;
+}
@@ -0,0 +1,93 @@
+/**
+ * T-spin detection using the guideline 3-corner rule.
+ *
+ * A T piece locked right after a successful rotation is a T-spin when at
+ * least three of the four cells diagonal to its center are blocked (walls and
+ * floor count). It is a full T-spin when both corners on the side the T
+ * points to are blocked, otherwise a mini - unless the rotation needed the
+ * last SRS kick test, which always counts as full.
+ */
+
+import { RotationState } from './Rotation';
+
+export type SpinType = 'none' | 'mini' | 'full';
+
+export interface SpinPiece {
+  type?: string;
+  x: number;
+  y: number;
+  rotation?: RotationState;
+}
+
+export interface LastMove {
+  /** The piece's last successful action was a rotation */
+  rotated: boolean;
+  /** Kick test that rotation used (0 = no kick) */
+  kickIndex: number;
+}
+
+/** Index of the SRS kick test that upgrades a mini T-spin to a full one */
+export const FULL_SPIN_KICK_INDEX = 4;
+
+// Center of the T within its trimmed shape, per rotation state
+const T_CENTERS: Record<RotationState, [number, number]> = {
+  0: [1, 1],
+  1: [0, 1],
+  2: [1, 0],
+  3: [1, 1]
+};
+
+// Diagonal corners on the side the T points to, relative to its center
+const FRONT_CORNERS: Record<RotationState, [number, number][]> = {
+  0: [[-1, -1], [1, -1]],
+  1: [[1, -1], [1, 1]],
+  2: [[-1, 1], [1, 1]],
+  3: [[-1, -1], [-1, 1]]
+};
+
+const ALL_CORNERS: [number, number][] = [[-1, -1], [1, -1], [-1, 1], [1, 1]];
+
+function isBlocked(board: number[][], x: number, y: number): boolean {
+  const width = board[0]?.length ?? 0;
+  if (x < 0 || x >= width || y >= board.length) {
+    return true;
+  }
+  // Cells above the visible board are open
+  return y >= 0 && (board[y]?.[x] ?? 0) !== 0;
+}
+
+/**
+ * Classify a T piece at its lock position; `board` must not contain the piece itself
+ */
+export function detectTSpin(board: number[][], piece: SpinPiece, lastMove: LastMove): SpinType {
+  if (piece.type !== 'T' || !lastMove.rotated) {
+    return 'none';
+  }
+
+  const rotation = piece.rotation ?? 0;
+  const [centerX, centerY] = T_CENTERS[rotation];
+  const cx = piece.x + centerX;
+  const cy = piece.y + centerY;
+  const blocked = ([dx, dy]: [number, number]) => isBlocked(board, cx + dx, cy + dy);
+
+  if (ALL_CORNERS.filter(blocked).length < 3) {
+    return 'none';
+  }
+
+  if (FRONT_CORNERS[rotation].every(blocked) || lastMove.kickIndex === FULL_SPIN_KICK_INDEX) {
+    return 'full';
+  }
+  return 'mini';
+}
+
+/**
+ * Callout text such as "T-SPIN DOUBLE" or "MINI T-SPIN"
+ */
+export function getSpinLabel(spin: SpinType, linesCleared: number): string {
+  if (spin === 'none') {
+    return '';
+  }
+  const base = spin === 'mini' ? 'MINI T-SPIN' : 'T-SPIN';
+  const suffix = ['', ' SINGLE', ' DOUBLE', ' TRIPLE'][linesCleared] ?? '';
+  return base + suffix;
+}
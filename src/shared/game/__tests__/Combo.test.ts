@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { advanceCombo, isDifficultClear, INITIAL_COMBO_STATE } from '../Combo';
+
+describe('isDifficultClear', () => {
+  it('should treat tetrises and line-clearing T-spins as difficult', () => {
+    expect(isDifficultClear(4)).toBe(true);
+    expect(isDifficultClear(1, 'full')).toBe(true);
+    expect(isDifficultClear(1, 'mini')).toBe(true);
+    expect(isDifficultClear(3)).toBe(false);
+    expect(isDifficultClear(0, 'full')).toBe(false);
+  });
+});
+
+describe('advanceCombo', () => {
+  it('should count consecutive clearing placements', () => {
+    let state = advanceCombo(INITIAL_COMBO_STATE, 1);
+    state = advanceCombo(state, 2);
+    state = advanceCombo(state, 1);
+
+    expect(state.combo).toBe(3);
+  });
+
+  it('should end the combo on a placement that clears nothing', () => {
+    const state = advanceCombo(advanceCombo(INITIAL_COMBO_STATE, 2), 0);
+
+    expect(state.combo).toBe(0);
+  });
+
+  it('should award back-to-back only from the second difficult clear', () => {
+    const first = advanceCombo(INITIAL_COMBO_STATE, 4);
+    const second = advanceCombo(first, 2, 'full');
+
+    expect(first.backToBackBonus).toBe(false);
+    expect(second.backToBackBonus).toBe(true);
+  });
+
+  it('should keep back-to-back across placements that clear nothing', () => {
+    const gap = advanceCombo(advanceCombo(INITIAL_COMBO_STATE, 4), 0);
+
+    expect(gap.backToBack).toBe(true);
+    expect(advanceCombo(gap, 4).backToBackBonus).toBe(true);
+  });
+
+  it('should break back-to-back on an easy clear', () => {
+    const broken = advanceCombo(advanceCombo(INITIAL_COMBO_STATE, 4), 2);
+
+    expect(broken.backToBack).toBe(false);
+    expect(advanceCombo(broken, 4).backToBackBonus).toBe(false);
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { DAILY_CHALLENGE_MODES, createDailyChallenge, parseDailyChallenge } from '../DailyChallenge';
+
+// Monday 2026-10-19, 00:05 UTC
+const MONDAY = Date.UTC(2026, 9, 19, 0, 5);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('DailyChallenge', () => {
+  it('should describe the UTC day it was created on', () => {
+    const challenge = createDailyChallenge(MONDAY, 12345);
+
+    expect(challenge).toMatchObject({ type: 'dailyChallenge', date: '2026-10-19', seed: 12345 });
+    expect(challenge.level).toBeGreaterThanOrEqual(1);
+    expect(challenge.level).toBeLessThanOrEqual(20);
+  });
+
+  it('should rotate the mode and level from one day to the next', () => {
+    const today = createDailyChallenge(MONDAY, 1);
+    const tomorrow = createDailyChallenge(MONDAY + DAY_MS, 1);
+
+    const modeIndex = DAILY_CHALLENGE_MODES.indexOf(today.mode);
+    expect(tomorrow.mode).toBe(DAILY_CHALLENGE_MODES[(modeIndex + 1) % DAILY_CHALLENGE_MODES.length]);
+    expect(tomorrow.level).toBe((today.level % 20) + 1);
+  });
+
+  it('should read a challenge back from post data', () => {
+    const challenge = createDailyChallenge(MONDAY, 987654321);
+
+    expect(parseDailyChallenge(JSON.parse(JSON.stringify(challenge)))).toEqual(challenge);
+  });
+
+  it('should ignore post data that is not a challenge', () => {
+    expect(parseDailyChallenge(undefined)).toBeNull();
+    expect(parseDailyChallenge({ gameState: 'initial', score: 0, level: 1 })).toBeNull();
+    expect(parseDailyChallenge({ ...createDailyChallenge(MONDAY, 1), mode: 'zen' })).toBeNull();
+    expect(parseDailyChallenge({ ...createDailyChallenge(MONDAY, 1), seed: -1 })).toBeNull();
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import { GameEngine, EngineInput, ENGINE_INPUTS, EngineOptions } from '../GameEngine';
+import { SeededRandom, createRandomizer } from '../Randomizer';
+import { PIECE_HISTORY_SEED, PIECE_KINDS, PieceKind } from '../Pieces';
+
+/** First seed whose 7-bag deals `kind` first */
+function seedStartingWith(kind: PieceKind): number {
+  for (let seed = 1; ; seed++) {
+    const randomizer = createRandomizer('7-bag', PIECE_KINDS, new SeededRandom(seed), {
+      initialHistory: [...PIECE_HISTORY_SEED]
+    });
+    if (randomizer.next() === kind) return seed;
+  }
+}
+
+function play(options: EngineOptions, steps: number): GameEngine {
+  const engine = new GameEngine(options);
+  const script = new SeededRandom(99);
+  engine.start();
+
+  for (let i = 0; i < steps && !engine.isGameOver(); i++) {
+    const inputs: EngineInput[] = script.next() < 0.5 ? [ENGINE_INPUTS[script.nextInt(ENGINE_INPUTS.length)]!] : [];
+    engine.step(inputs, 16 + script.nextInt(20));
+  }
+  return engine;
+}
+
+describe('GameEngine', () => {
+  it('should spawn the first piece centered with a filled preview queue', () => {
+    const engine = new GameEngine({ seed: seedStartingWith('T'), previewCount: 3 });
+    const events = engine.start();
+    const state = engine.getState();
+
+    expect(events).toEqual([{ type: 'spawn', piece: state.current }]);
+    expect(state.current?.kind).toBe('T');
+    expect(state.current?.x).toBe(5);
+    expect(state.queue).toHaveLength(3);
+  });
+
+  it('should replay identically from the same seed and inputs', () => {
+    const first = play({ seed: 42 }, 2000).getState();
+    const second = play({ seed: 42 }, 2000).getState();
+
+    expect(first.piecesPlaced).toBeGreaterThan(0);
+    expect(second).toEqual(first);
+  });
+
+  it('should not depend on how frame time is split', () => {
+    const whole = new GameEngine({ seed: 5 });
+    const split = new GameEngine({ seed: 5 });
+    whole.start();
+    split.start();
+
+    whole.step([], 4000);
+    for (let i = 0; i < 250; i++) {
+      split.step([], 16);
+    }
+
+    expect(split.getState()).toEqual(whole.getState());
+  });
+
+  it('should move and stop at the walls', () => {
+    const engine = new GameEngine({ seed: seedStartingWith('O'), width: 6 });
+    engine.start();
+
+    engine.step(['MOVE_LEFT'], 0);
+    expect(engine.getState().current?.x).toBe(1);
+
+    engine.step(['MOVE_LEFT', 'MOVE_LEFT', 'MOVE_LEFT'], 0);
+    expect(engine.getState().current?.x).toBe(0);
+  });
+
+  it('should lock on hard drop, score the drop and spawn the next piece', () => {
+    const engine = new GameEngine({ seed: seedStartingWith('O'), height: 10 });
+    engine.start();
+
+    const events = engine.step(['HARD_DROP'], 0);
+    const state = engine.getState();
+
+    expect(events.map(event => event.type)).toEqual(['lock', 'spawn']);
+    expect(state.score).toBe(8 * 2);
+    expect(state.piecesPlaced).toBe(1);
+    expect(state.board[9]!.filter(cell => cell !== 0)).toHaveLength(2);
+  });
+
+  it('should score a line clear that empties the board as a perfect clear', () => {
+    const engine = new GameEngine({ seed: seedStartingWith('I'), width: 4, linesPerLevel: 1 });
+    engine.start();
+
+    const events = engine.step(['HARD_DROP'], 0);
+    const lock = events.find(event => event.type === 'lock');
+
+    expect(lock).toMatchObject({ linesCleared: 1, clearedRows: [19], perfectClear: true, points: 200 + 800 * 2 });
+    expect(events).toContainEqual({ type: 'levelUp', level: 2 });
+    expect(engine.getState().lines).toBe(1);
+  });
+
+  it('should allow one hold per piece', () => {
+    const engine = new GameEngine({ seed: 7 });
+    engine.start();
+    const first = engine.getState().current!.kind;
+    const next = engine.getState().queue[0];
+
+    engine.step(['HOLD'], 0);
+    expect(engine.getState().hold).toBe(first);
+    expect(engine.getState().current?.kind).toBe(next);
+
+    engine.step(['HOLD'], 0);
+    expect(engine.getState().current?.kind).toBe(next);
+  });
+
+  it('should fall with gravity and lock after the lock delay', () => {
+    const engine = new GameEngine({ seed: 3, height: 4, baseDropInterval: 100, dropIntervalPerLevel: 0, minDropInterval: 0 });
+    engine.start();
+
+    engine.step([], 100);
+    expect(engine.getState().current?.y).toBe(1);
+
+    engine.step([], 100);
+    engine.step([], 100);
+    expect(engine.step([], 500).map(event => event.type)).toContain('lock');
+  });
+
+  it('should raise the water after the grace period and end the game when it overflows', () => {
+    const engine = new GameEngine({ seed: 1, waterGracePeriod: 1000, waterRiseRate: 0.5, lockDelay: 1e9 });
+    engine.start();
+
+    engine.step([], 1500);
+    expect(engine.getState().water).toBeCloseTo(0.25);
+
+    const events = engine.step([], 2000);
+    expect(events).toContainEqual({ type: 'gameOver', reason: 'water_level' });
+    expect(engine.step(['HARD_DROP'], 16)).toEqual([]);
+  });
+});
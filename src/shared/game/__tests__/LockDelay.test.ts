@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { LockDelay } from '../LockDelay';
+
+describe('LockDelay', () => {
+  it('should not lock while the piece is falling', () => {
+    const lockDelay = new LockDelay({ delay: 500 });
+
+    expect(lockDelay.update(10000, false, 3)).toBe(false);
+    expect(lockDelay.isGrounded()).toBe(false);
+  });
+
+  it('should lock once the delay has elapsed on the ground', () => {
+    const lockDelay = new LockDelay({ delay: 500 });
+
+    expect(lockDelay.update(300, true, 18)).toBe(false);
+    expect(lockDelay.getProgress()).toBeCloseTo(0.6);
+    expect(lockDelay.update(200, true, 18)).toBe(true);
+  });
+
+  it('should lock on contact when the delay is zero', () => {
+    const lockDelay = new LockDelay({ delay: 0 });
+
+    expect(lockDelay.update(16, true, 18)).toBe(true);
+  });
+
+  it('should restart the timer when the piece moves on the ground', () => {
+    const lockDelay = new LockDelay({ delay: 500 });
+
+    lockDelay.update(400, true, 18);
+    lockDelay.registerMove(18);
+
+    expect(lockDelay.update(400, true, 18)).toBe(false);
+    expect(lockDelay.getResetsRemaining()).toBe(14);
+  });
+
+  it('should stop resetting after the reset limit (infinite spin protection)', () => {
+    const lockDelay = new LockDelay({ delay: 500, maxResets: 3 });
+
+    lockDelay.update(16, true, 18);
+    for (let i = 0; i < 3; i++) {
+      lockDelay.update(400, true, 18);
+      lockDelay.registerMove(18);
+    }
+
+    expect(lockDelay.isExhausted()).toBe(true);
+    expect(lockDelay.update(16, true, 18)).toBe(true);
+  });
+
+  it('should not earn resets back by being kicked upwards', () => {
+    const lockDelay = new LockDelay({ delay: 500, maxResets: 2 });
+
+    lockDelay.update(16, true, 18);
+    lockDelay.registerMove(17);
+    lockDelay.registerMove(18);
+
+    expect(lockDelay.getResetsRemaining()).toBe(0);
+  });
+
+  it('should restore resets when the piece reaches a new lowest row', () => {
+    const lockDelay = new LockDelay({ delay: 500, maxResets: 2 });
+
+    lockDelay.update(16, true, 10);
+    lockDelay.registerMove(10);
+    lockDelay.registerMove(10);
+    lockDelay.update(16, false, 11);
+
+    expect(lockDelay.getResetsRemaining()).toBe(2);
+  });
+
+  it('should restart the timer after walking off a ledge', () => {
+    const lockDelay = new LockDelay({ delay: 500 });
+
+    lockDelay.update(450, true, 10);
+    lockDelay.update(16, false, 10);
+
+    expect(lockDelay.update(100, true, 10)).toBe(false);
+  });
+
+  it('should start clean after reset', () => {
+    const lockDelay = new LockDelay({ delay: 500, maxResets: 1 });
+
+    lockDelay.update(16, true, 18);
+    lockDelay.registerMove(18);
+    lockDelay.reset();
+
+    expect(lockDelay.isExhausted()).toBe(false);
+    expect(lockDelay.getProgress()).toBe(0);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { MIN_SPRINT_TIME_MS, checkRunPlausibility, getMaxLevelForLines, getMaxPlausibleScore, getMaxPointsPerLine } from '../Plausibility';
+
+describe('Plausibility', () => {
+  it('should accept ordinary runs', () => {
+    expect(checkRunPlausibility({ score: 0, level: 1, lines: 0 })).toEqual([]);
+    expect(checkRunPlausibility({ score: 12400, level: 5, lines: 42 })).toEqual([]);
+  });
+
+  it('should reject malformed totals', () => {
+    const issues = checkRunPlausibility({ score: 1.5, level: 10000, lines: -3 });
+
+    expect(issues.map((issue) => issue.field)).toEqual(['score', 'level', 'lines']);
+    expect(issues.every((issue) => issue.kind === 'invalid')).toBe(true);
+  });
+
+  it('should cap the level by the lines cleared', () => {
+    expect(getMaxLevelForLines(0)).toBe(10);
+    expect(getMaxLevelForLines(55)).toBe(15);
+
+    const [issue] = checkRunPlausibility({ score: 100, level: 20, lines: 5 });
+    expect(issue).toMatchObject({ field: 'level', kind: 'implausible' });
+  });
+
+  it('should reject more points than the lines cleared can earn', () => {
+    const [issue] = checkRunPlausibility({ score: 1000000, level: 1, lines: 0 });
+
+    expect(issue).toMatchObject({ field: 'score', kind: 'implausible' });
+    expect(checkRunPlausibility({ score: getMaxPlausibleScore(3, 20), level: 3, lines: 20 })).toEqual([]);
+  });
+
+  it('should reject a Sprint finished faster than its pieces can be placed', () => {
+    const sprint = { score: 8000, level: 5, lines: 40, mode: 'sprint' };
+
+    expect(checkRunPlausibility({ ...sprint, time: 1 })).toEqual([expect.objectContaining({ field: 'time', kind: 'implausible' })]);
+    expect(checkRunPlausibility({ ...sprint, time: MIN_SPRINT_TIME_MS })).toEqual([]);
+    expect(checkRunPlausibility({ ...sprint, mode: 'classic', time: 1 })).toEqual([]);
+  });
+
+  it('should allow more points per line at higher levels', () => {
+    expect(getMaxPointsPerLine(10)).toBeGreaterThan(getMaxPointsPerLine(1));
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { SeededRandom, createRandomizer, RANDOMIZER_TYPES } from '../Randomizer';
+
+const ITEMS = ['I', 'O', 'T', 'S', 'Z', 'L', 'J'];
+
+const take = <T>(next: () => T, count: number): T[] =>
+  Array.from({ length: count }, () => next());
+
+describe('SeededRandom', () => {
+  it('should produce the same sequence for the same seed', () => {
+    const a = new SeededRandom(12345);
+    const b = new SeededRandom(12345);
+
+    expect(take(() => a.next(), 50)).toEqual(take(() => b.next(), 50));
+  });
+
+  it('should produce different sequences for different seeds', () => {
+    const a = new SeededRandom(1);
+    const b = new SeededRandom(2);
+
+    expect(take(() => a.next(), 10)).not.toEqual(take(() => b.next(), 10));
+  });
+
+  it('should stay within range', () => {
+    const random = new SeededRandom(42);
+
+    for (let i = 0; i < 1000; i++) {
+      const value = random.next();
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+
+      const int = random.nextInt(7);
+      expect(Number.isInteger(int)).toBe(true);
+      expect(int).toBeGreaterThanOrEqual(0);
+      expect(int).toBeLessThan(7);
+    }
+  });
+});
+
+describe('createRandomizer', () => {
+  it('should be deterministic for every randomizer type', () => {
+    RANDOMIZER_TYPES.forEach(type => {
+      const a = createRandomizer(type, ITEMS, new SeededRandom(99));
+      const b = createRandomizer(type, ITEMS, new SeededRandom(99));
+
+      expect(take(() => a.next(), 100)).toEqual(take(() => b.next(), 100));
+      expect(a.type).toBe(type);
+    });
+  });
+
+  it('should deal every item exactly once per 7-bag', () => {
+    const randomizer = createRandomizer('7-bag', ITEMS, new SeededRandom(7));
+
+    for (let bag = 0; bag < 20; bag++) {
+      const dealt = take(() => randomizer.next(), ITEMS.length);
+      expect([...dealt].sort()).toEqual([...ITEMS].sort());
+    }
+  });
+
+  it('should deal every item exactly twice per 14-bag', () => {
+    const randomizer = createRandomizer('14-bag', ITEMS, new SeededRandom(14));
+
+    for (let bag = 0; bag < 10; bag++) {
+      const dealt = take(() => randomizer.next(), ITEMS.length * 2);
+      ITEMS.forEach(item => {
+        expect(dealt.filter(d => d === item)).toHaveLength(2);
+      });
+    }
+  });
+
+  it('should never go more than 12 picks without an item in a 7-bag', () => {
+    const randomizer = createRandomizer('7-bag', ITEMS, new SeededRandom(2024));
+    const sequence = take(() => randomizer.next(), 700);
+
+    ITEMS.forEach(item => {
+      let gap = 0;
+      sequence.forEach(pick => {
+        gap = pick === item ? 0 : gap + 1;
+        expect(gap).toBeLessThanOrEqual(12);
+      });
+    });
+  });
+
+  it('should avoid recent history with the history randomizer', () => {
+    const randomizer = createRandomizer('history', ITEMS, new SeededRandom(5), {
+      historySize: 4,
+      rolls: 6
+    });
+    const sequence = take(() => randomizer.next(), 1000);
+
+    // Immediate repeats are possible but should be far rarer than pure random (~1/7)
+    let repeats = 0;
+    for (let i = 1; i < sequence.length; i++) {
+      if (sequence[i] === sequence[i - 1]) repeats++;
+    }
+    expect(repeats / sequence.length).toBeLessThan(0.05);
+  });
+
+  it('should reject empty item lists', () => {
+    expect(() => createRandomizer('7-bag', [], new SeededRandom(1))).toThrow(
+      'Randomizer needs at least one item'
+    );
+  });
+});
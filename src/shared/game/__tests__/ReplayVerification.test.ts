@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { GameEngine, ENGINE_INPUTS } from '../GameEngine';
+import { SeededRandom } from '../Randomizer';
+import { ReplayData, createReplay } from '../Replay';
+import { verifyReplay } from '../ReplayVerification';
+
+function recordReplay(): ReplayData {
+  const engine = new GameEngine({ seed: 21, waterGracePeriod: 2000 });
+  const script = new SeededRandom(8);
+  engine.start();
+
+  for (let frame = 0; frame < 1200 && !engine.isGameOver(); frame++) {
+    const input = script.next() < 0.3 ? ENGINE_INPUTS[script.nextInt(ENGINE_INPUTS.length)] : undefined;
+    engine.step(input ? [input] : [], 16);
+    if (frame === 300) engine.setConfig({ scoreMultiplier: 1.2 });
+    if (frame === 600) engine.lowerWater(0.2);
+  }
+  return createReplay(engine, { mode: 'endless', level: engine.getState().level });
+}
+
+function claimOf(replay: ReplayData) {
+  return { score: replay.score, level: replay.level, lines: replay.lines };
+}
+
+function withSettings(replay: ReplayData, settings: Partial<ReplayData['settings']>): ReplayData {
+  return { ...replay, settings: { ...replay.settings, ...settings } };
+}
+
+describe('ReplayVerification', () => {
+  it('should verify a replay that reproduces its claim', () => {
+    const replay = recordReplay();
+    const result = verifyReplay(JSON.parse(JSON.stringify(replay)), claimOf(replay));
+
+    expect(result.status).toBe('verified');
+    expect(result.score).toBe(replay.score);
+    expect(result.duration).toBe(replay.duration);
+  });
+
+  it('should report a claim the replay does not reach as a mismatch', () => {
+    const replay = recordReplay();
+    const result = verifyReplay(replay, { ...claimOf(replay), score: replay.score + 5000 });
+
+    expect(result.status).toBe('mismatch');
+    expect(result.score).toBe(replay.score);
+  });
+
+  it('should report a replay played in another mode as a mismatch', () => {
+    const replay = recordReplay();
+
+    expect(verifyReplay(replay, { ...claimOf(replay), mode: 'endless' }).status).toBe('verified');
+    expect(verifyReplay(replay, { ...claimOf(replay), mode: 'sprint' }).status).toBe('mismatch');
+  });
+
+  it('should leave submissions without a replay unverified', () => {
+    expect(verifyReplay(undefined, { score: 100, level: 1, lines: 0 }).status).toBe('unverified');
+  });
+
+  it('should reject replays that change the rules', () => {
+    const replay = recordReplay();
+    const richer = { ...replay, settings: { ...replay.settings, scoring: { ...replay.settings.scoring, hardDropPoints: 50 } } };
+    const boosted: ReplayData = { ...replay, commands: [...replay.commands, [replay.duration, { config: { scoreMultiplier: 10 } }]] };
+    const drained: ReplayData = { ...replay, commands: [[0, { drain: 1 }], ...replay.commands] };
+    const resized: ReplayData = { ...replay, commands: [[0, { config: { width: 4 } }], ...replay.commands] };
+
+    expect(verifyReplay(richer, claimOf(replay))).toMatchObject({ status: 'invalid', reason: 'Unknown scoring rules' });
+    expect(verifyReplay(boosted, claimOf(replay))).toMatchObject({ status: 'invalid', reason: 'scoreMultiplier out of range' });
+    expect(verifyReplay(drained, claimOf(replay))).toMatchObject({ status: 'invalid', reason: 'Water drain out of range' });
+    expect(verifyReplay(resized, claimOf(replay))).toMatchObject({ status: 'invalid', reason: 'Rule change not allowed mid-game' });
+    expect(verifyReplay({ ...replay, version: 0 }, claimOf(replay)).status).toBe('invalid');
+  });
+
+  it('should range-check the settings a player chooses and the water the game changes', () => {
+    const replay = recordReplay();
+    const stillWater: ReplayData = { ...replay, commands: [[0, { config: { waterRiseRate: 0 } }], ...replay.commands] };
+
+    expect(verifyReplay(withSettings(replay, { waterRiseRate: 0 }), claimOf(replay))).toMatchObject({ status: 'invalid', reason: 'waterRiseRate out of range' });
+    expect(verifyReplay(withSettings(replay, { lockDelay: 60000 }), claimOf(replay))).toMatchObject({ status: 'invalid', reason: 'lockDelay out of range' });
+    expect(verifyReplay(stillWater, claimOf(replay))).toMatchObject({ status: 'invalid', reason: 'waterRiseRate out of range' });
+  });
+
+  it('should re-simulate with the game rules instead of the replay settings', () => {
+    const replay = recordReplay();
+    const slowed = withSettings(replay, { survivalBonusInterval: 5, baseDropInterval: 1e9, minDropInterval: 1e9, startLevel: 30 });
+
+    expect(verifyReplay(slowed, claimOf(replay)).status).toBe('verified');
+  });
+
+  it('should check the claimed level against the re-simulated run', () => {
+    const replay = recordReplay();
+    const claim = { ...claimOf(replay), level: replay.level + 14 };
+
+    expect(verifyReplay({ ...replay, level: claim.level }, claim)).toMatchObject({ status: 'mismatch', level: replay.level });
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { detectTSpin, getSpinLabel } from '../TSpin';
+
+const rotated = { rotated: true, kickIndex: 0 };
+
+// T pointing down into a slot with an overhang: the classic T-spin double setup
+const tsdBoard = (): number[][] => [
+  [0, 0, 0, 0, 0],
+  [0, 1, 0, 0, 0],
+  [1, 0, 0, 0, 1],
+  [1, 1, 0, 1, 1],
+  [1, 1, 0, 1, 1]
+];
+const tsdPiece = { type: 'T', x: 1, y: 2, rotation: 2 as const };
+
+// T pointing up on the floor with one front corner blocked
+const miniBoard = (): number[][] => [
+  [0, 0, 0, 0, 0],
+  [0, 0, 0, 0, 0],
+  [0, 0, 0, 0, 0],
+  [1, 0, 0, 0, 0],
+  [0, 0, 0, 0, 0]
+];
+const miniPiece = { type: 'T', x: 0, y: 3, rotation: 0 as const };
+
+describe('detectTSpin', () => {
+  it('should detect a full T-spin when both front corners are blocked', () => {
+    expect(detectTSpin(tsdBoard(), tsdPiece, rotated)).toBe('full');
+  });
+
+  it('should detect a mini T-spin when only one front corner is blocked', () => {
+    expect(detectTSpin(miniBoard(), miniPiece, rotated)).toBe('mini');
+  });
+
+  it('should upgrade a mini to a full T-spin after the last kick test', () => {
+    expect(detectTSpin(miniBoard(), miniPiece, { rotated: true, kickIndex: 4 })).toBe('full');
+  });
+
+  it('should count walls as blocked corners', () => {
+    const board = miniBoard();
+    board[3]![0] = 0;
+    board[4]![1] = 1;
+
+    // T pointing right against the left wall: both back corners are the wall
+    expect(detectTSpin(board, { type: 'T', x: 0, y: 2, rotation: 1 }, rotated)).toBe('mini');
+  });
+
+  it('should require the last action to be a rotation', () => {
+    expect(detectTSpin(tsdBoard(), tsdPiece, { rotated: false, kickIndex: 0 })).toBe('none');
+  });
+
+  it('should ignore pieces other than T', () => {
+    expect(detectTSpin(tsdBoard(), { ...tsdPiece, type: 'L' }, rotated)).toBe('none');
+  });
+
+  it('should not count a T with fewer than three blocked corners', () => {
+    const board = tsdBoard();
+    board[1]![1] = 0;
+
+    expect(detectTSpin(board, tsdPiece, rotated)).toBe('none');
+  });
+});
+
+describe('getSpinLabel', () => {
+  it('should build callout text', () => {
+    expect(getSpinLabel('full', 2)).toBe('T-SPIN DOUBLE');
+    expect(getSpinLabel('mini', 0)).toBe('MINI T-SPIN');
+    expect(getSpinLabel('full', 3)).toBe('T-SPIN TRIPLE');
+    expect(getSpinLabel('none', 2)).toBe('');
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Per-mode leaderboards. Most modes rank by score; Sprint ranks by how fast
+ * its line target was reached, and each campaign level has a board of the
+ * best star ratings earned on it.
+ */
+
+import { LEADERBOARD_MODES, LeaderboardMetric, LeaderboardMode } from '../types/api';
+
+/** Lines a Sprint run has to clear to finish and be ranked */
+export const SPRINT_TARGET_LINES = 40;
+
+/** Campaign levels, numbered by their global level */
+export const SEASONAL_LEVEL_COUNT = 20;
+
+/** Lines each playable campaign level asks for, by global level */
+export const LEVEL_TARGET_LINES = {
+  1: 10,
+  2: 15,
+  3: 20,
+  4: 25,
+  5: 30,
+  6: 35,
+  7: 40,
+  11: 60,
+  16: 80,
+  20: 100
+} as const;
+
+/** Par time for a campaign level; beating it earns the second star */
+export const LEVEL_TARGET_TIME_MS = 300000;
+
+// Stars boards break ties on score, so both go into the sorted set value
+const STARS_WEIGHT = 1e9;
+
+export function parseLeaderboardMode(value: unknown): LeaderboardMode | null {
+  return LEADERBOARD_MODES.find((mode) => mode === value) ?? null;
+}
+
+export function isSeasonalLevel(level: unknown): level is number {
+  return Number.isInteger(level) && (level as number) >= 1 && (level as number) <= SEASONAL_LEVEL_COUNT;
+}
+
+/** The lines campaign level `level` asks for, or null if it can't be played */
+export function getLevelTargetLines(level: number): number | null {
+  return (LEVEL_TARGET_LINES as Readonly<Record<number, number>>)[level] ?? null;
+}
+
+/**
+ * What the board for `mode` (or for one of its campaign levels) is ranked by
+ */
+export function getLeaderboardMetric(mode: LeaderboardMode, level: number | null = null): LeaderboardMetric {
+  if (level !== null) return 'stars';
+  return mode === 'sprint' ? 'time' : 'score';
+}
+
+/** Whether a lower value ranks higher on a board with this metric */
+export function isAscendingMetric(metric: LeaderboardMetric): boolean {
+  return metric === 'time';
+}
+
+/**
+ * Stars for finishing a campaign level: one for completing it, two for
+ * beating par time, three for beating 70% of par or clearing 50% more lines
+ * than the level asks for
+ */
+export function getStarRating(timeElapsed: number, linesCleared: number, targetLines: number): number {
+  if (timeElapsed < LEVEL_TARGET_TIME_MS * 0.7 || linesCleared >= targetLines * 1.5) return 3;
+  if (timeElapsed < LEVEL_TARGET_TIME_MS) return 2;
+  return 1;
+}
+
+/** Sorted set value for a stars board entry */
+export function encodeStars(stars: number, score: number): number {
+  return stars * STARS_WEIGHT + Math.min(Math.max(0, Math.floor(score)), STARS_WEIGHT - 1);
+}
+
+export function decodeStars(value: number): { stars: number; score: number } {
+  const stars = Math.floor(value / STARS_WEIGHT);
+  return { stars, score: value - stars * STARS_WEIGHT };
+}
@@ -0,0 +1,50 @@
+/**
+ * Leaderboard paging. A board is shown a page at a time from the top, or as
+ * a window centred on the player's own row ("around me").
+ */
+
+import { LeaderboardQuery } from '../types/api';
+
+/** Most rows a leaderboard page shows */
+export const LEADERBOARD_PAGE_SIZE = 10;
+
+export type PageView = {
+  page: number; // 0-based, counted from the top
+  aroundMe: boolean;
+};
+
+export const FIRST_PAGE: PageView = { page: 0, aroundMe: false };
+
+/**
+ * The query parts that fetch `view`; the around-me window fits on one page
+ */
+export function getPageQuery(view: PageView, pageSize: number): Pick<LeaderboardQuery, 'offset' | 'limit' | 'aroundMe' | 'radius'> {
+  if (view.aroundMe) {
+    return { aroundMe: true, radius: Math.floor((pageSize - 1) / 2), limit: pageSize };
+  }
+  return { offset: view.page * pageSize, limit: pageSize };
+}
+
+export function getPageCount(total: number, pageSize: number): number {
+  return Math.max(1, Math.ceil(total / pageSize));
+}
+
+/**
+ * The view `delta` pages on from the rows shown, which start `offset` places
+ * from the top, or null past either end. Paging on from the around-me window
+ * carries on from the page it starts on.
+ */
+export function stepPage(offset: number, delta: number, total: number, pageSize: number): PageView | null {
+  const page = Math.floor(offset / pageSize) + delta;
+  return page >= 0 && page < getPageCount(total, pageSize) ? { page, aroundMe: false } : null;
+}
+
+/**
+ * 'PAGE 2 OF 5', or 'AROUND #12' while the around-me window is shown
+ */
+export function describePage(view: PageView, offset: number, total: number, pageSize: number, playerRank: number | null): string {
+  if (view.aroundMe && playerRank !== null) {
+    return `AROUND #${playerRank}`;
+  }
+  return `PAGE ${Math.floor(offset / pageSize) + 1} OF ${getPageCount(total, pageSize)}`;
+}
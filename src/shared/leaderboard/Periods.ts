@@ -0,0 +1,66 @@
+/**
+ * Leaderboard periods. Daily, weekly and monthly boards roll over on UTC
+ * boundaries (weeks start on Monday); the all-time board never does.
+ */
+
+import { LeaderboardPeriod } from '../types/api';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Start (inclusive) of the period containing `time`, in UTC milliseconds
+ */
+export function getPeriodStart(period: LeaderboardPeriod, time: number): number {
+  const date = new Date(time);
+  const dayStart = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+
+  switch (period) {
+    case 'daily':
+      return dayStart;
+    case 'weekly':
+      // getUTCDay() is 0 on Sunday; count back to Monday
+      return dayStart - ((date.getUTCDay() + 6) % 7) * DAY_MS;
+    case 'monthly':
+      return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+    case 'alltime':
+      return 0;
+  }
+}
+
+/**
+ * End (exclusive) of the period containing `time`; Infinity for all-time
+ */
+export function getPeriodEnd(period: LeaderboardPeriod, time: number): number {
+  const start = getPeriodStart(period, time);
+
+  switch (period) {
+    case 'daily':
+      return start + DAY_MS;
+    case 'weekly':
+      return start + 7 * DAY_MS;
+    case 'monthly': {
+      const date = new Date(start);
+      return Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1);
+    }
+    case 'alltime':
+      return Infinity;
+  }
+}
+
+/**
+ * Stable id of the period containing `time`: the UTC date it starts on
+ * ('2026-10-19'), the month for monthly boards ('2026-10') and 'all'
+ */
+export function getPeriodKey(period: LeaderboardPeriod, time: number): string {
+  if (period === 'alltime') return 'all';
+
+  const isoDate = new Date(getPeriodStart(period, time)).toISOString().slice(0, 10);
+  return period === 'monthly' ? isoDate.slice(0, 7) : isoDate;
+}
+
+/**
+ * Any time inside the period before the one containing `time`
+ */
+export function getPreviousPeriodTime(period: LeaderboardPeriod, time: number): number {
+  return getPeriodStart(period, time) - 1;
+}
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import {
+  decodeStars,
+  encodeStars,
+  getLeaderboardMetric,
+  getLevelTargetLines,
+  getStarRating,
+  isSeasonalLevel,
+  parseLeaderboardMode,
+  LEVEL_TARGET_TIME_MS
+} from '../Modes';
+
+describe('Modes', () => {
+  it('should rank Sprint by time, campaign levels by stars and everything else by score', () => {
+    expect(getLeaderboardMetric('sprint')).toBe('time');
+    expect(getLeaderboardMetric('marathon')).toBe('score');
+    expect(getLeaderboardMetric('campaign')).toBe('score');
+    expect(getLeaderboardMetric('campaign', 4)).toBe('stars');
+  });
+
+  it('should only accept known modes and the 20 campaign levels', () => {
+    expect(parseLeaderboardMode('time-attack')).toBe('time-attack');
+    expect(parseLeaderboardMode('zen')).toBeNull();
+    expect(isSeasonalLevel(1)).toBe(true);
+    expect(isSeasonalLevel(20)).toBe(true);
+    expect(isSeasonalLevel(21)).toBe(false);
+    expect(isSeasonalLevel(2.5)).toBe(false);
+  });
+
+  it('should rate levels by time and lines', () => {
+    expect(getStarRating(LEVEL_TARGET_TIME_MS + 1, 10, 10)).toBe(1);
+    expect(getStarRating(LEVEL_TARGET_TIME_MS - 1, 10, 10)).toBe(2);
+    expect(getStarRating(LEVEL_TARGET_TIME_MS * 0.5, 10, 10)).toBe(3);
+    expect(getStarRating(LEVEL_TARGET_TIME_MS + 1, 15, 10)).toBe(3);
+  });
+
+  it('should know the line target of every playable campaign level', () => {
+    expect(getLevelTargetLines(1)).toBe(10);
+    expect(getLevelTargetLines(20)).toBe(100);
+    expect(getLevelTargetLines(8)).toBeNull();
+  });
+
+  it('should rank more stars first and break ties on score', () => {
+    expect(encodeStars(3, 100)).toBeGreaterThan(encodeStars(2, 999999));
+    expect(encodeStars(2, 500)).toBeGreaterThan(encodeStars(2, 400));
+    expect(decodeStars(encodeStars(2, 12345))).toEqual({ stars: 2, score: 12345 });
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { FIRST_PAGE, describePage, getPageCount, getPageQuery, stepPage } from '../Paging';
+
+describe('Paging', () => {
+  it('should fetch a page from the top by offset', () => {
+    expect(getPageQuery(FIRST_PAGE, 8)).toEqual({ offset: 0, limit: 8 });
+    expect(getPageQuery({ page: 2, aroundMe: false }, 8)).toEqual({ offset: 16, limit: 8 });
+  });
+
+  it('should fit the around-me window on one page', () => {
+    expect(getPageQuery({ page: 0, aroundMe: true }, 8)).toEqual({ aroundMe: true, radius: 3, limit: 8 });
+    expect(getPageQuery({ page: 0, aroundMe: true }, 7)).toEqual({ aroundMe: true, radius: 3, limit: 7 });
+  });
+
+  it('should count at least one page', () => {
+    expect(getPageCount(0, 8)).toBe(1);
+    expect(getPageCount(8, 8)).toBe(1);
+    expect(getPageCount(9, 8)).toBe(2);
+  });
+
+  it('should step between pages and stop at either end', () => {
+    expect(stepPage(0, 1, 20, 8)).toEqual({ page: 1, aroundMe: false });
+    expect(stepPage(16, -1, 20, 8)).toEqual({ page: 1, aroundMe: false });
+    expect(stepPage(0, -1, 20, 8)).toBeNull();
+    expect(stepPage(16, 1, 20, 8)).toBeNull();
+  });
+
+  it('should carry on from the page the around-me window starts on', () => {
+    // Ranks 14-20 start on the second page of eight
+    expect(stepPage(13, 1, 40, 8)).toEqual({ page: 2, aroundMe: false });
+    expect(stepPage(13, -1, 40, 8)).toEqual({ page: 0, aroundMe: false });
+  });
+
+  it('should describe the page or the player rank it is centred on', () => {
+    expect(describePage(FIRST_PAGE, 8, 20, 8, null)).toBe('PAGE 2 OF 3');
+    expect(describePage({ page: 0, aroundMe: true }, 13, 40, 8, 17)).toBe('AROUND #17');
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { getPeriodStart, getPeriodEnd, getPeriodKey, getPreviousPeriodTime } from '../Periods';
+
+// Wednesday 2026-10-21, 15:30 UTC
+const WEDNESDAY = Date.UTC(2026, 9, 21, 15, 30);
+
+describe('Periods', () => {
+  it('should start days at UTC midnight', () => {
+    expect(getPeriodStart('daily', WEDNESDAY)).toBe(Date.UTC(2026, 9, 21));
+    expect(getPeriodEnd('daily', WEDNESDAY)).toBe(Date.UTC(2026, 9, 22));
+  });
+
+  it('should start weeks on Monday', () => {
+    expect(getPeriodStart('weekly', WEDNESDAY)).toBe(Date.UTC(2026, 9, 19));
+    expect(getPeriodEnd('weekly', WEDNESDAY)).toBe(Date.UTC(2026, 9, 26));
+
+    // Sunday still belongs to the week that started the Monday before
+    const sunday = Date.UTC(2026, 9, 25, 23, 59);
+    expect(getPeriodStart('weekly', sunday)).toBe(Date.UTC(2026, 9, 19));
+  });
+
+  it('should roll months over into the next year', () => {
+    const december = Date.UTC(2026, 11, 31, 12);
+
+    expect(getPeriodStart('monthly', december)).toBe(Date.UTC(2026, 11, 1));
+    expect(getPeriodEnd('monthly', december)).toBe(Date.UTC(2027, 0, 1));
+  });
+
+  it('should never roll the all-time period over', () => {
+    expect(getPeriodStart('alltime', WEDNESDAY)).toBe(0);
+    expect(getPeriodEnd('alltime', WEDNESDAY)).toBe(Infinity);
+  });
+
+  it('should key periods by the date they start on', () => {
+    expect(getPeriodKey('daily', WEDNESDAY)).toBe('2026-10-21');
+    expect(getPeriodKey('weekly', WEDNESDAY)).toBe('2026-10-19');
+    expect(getPeriodKey('monthly', WEDNESDAY)).toBe('2026-10');
+    expect(getPeriodKey('alltime', WEDNESDAY)).toBe('all');
+  });
+
+  it('should find a time inside the previous period', () => {
+    expect(getPeriodKey('daily', getPreviousPeriodTime('daily', WEDNESDAY))).toBe('2026-10-20');
+    expect(getPeriodKey('weekly', getPreviousPeriodTime('weekly', WEDNESDAY))).toBe('2026-10-12');
+    expect(getPeriodKey('monthly', getPreviousPeriodTime('monthly', Date.UTC(2027, 0, 5)))).toBe('2026-12');
+  });
+});
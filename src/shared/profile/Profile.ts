@@ -0,0 +1,157 @@
+/**
+ * A player's cloud-saved progress: campaign stars and unlocks, achievements
+ * and settings.
+ *
+ * Devices sync by merging rather than overwriting, so nothing earned on one
+ * of them is lost: the best stars and scores win, unlocks are unioned and the
+ * most recently changed settings win. The server stamps every saved profile
+ * with a new version; a save based on an old version is refused and the
+ * client merges the newer profile in before trying again.
+ */
+
+export type LevelRecord = {
+  stars: number;
+  completed: boolean;
+  unlocked: boolean;
+  bestScore: number;
+};
+
+export type WorldRecord = {
+  unlocked: boolean;
+  levelsCompleted: number;
+  totalStars: number;
+  bestScore: number;
+};
+
+export type AchievementRecord = {
+  progress: number;
+  unlocked: boolean;
+  unlockedAt: number | null;
+};
+
+export type ProfileData = {
+  levels: Record<string, LevelRecord>; // By global level
+  worlds: Record<string, WorldRecord>;
+  powerUps: string[];
+  achievements: Record<string, AchievementRecord>;
+  /** The whole settings object, with when it was last changed */
+  settings: { values: Record<string, unknown>; updatedAt: number } | null;
+};
+
+export type PlayerProfile = ProfileData & {
+  version: number; // 0 until the server has stored it
+  updatedAt: number;
+};
+
+/** Saved profiles above this size are refused */
+export const MAX_PROFILE_BYTES = 64 * 1024;
+
+export function createEmptyProfile(): PlayerProfile {
+  return { version: 0, updatedAt: 0, levels: {}, worlds: {}, powerUps: [], achievements: {}, settings: null };
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toNumber = (value: unknown): number => (typeof value === 'number' && Number.isFinite(value) ? value : 0);
+
+const mapRecords = <T>(value: unknown, parse: (entry: Record<string, unknown>) => T): Record<string, T> =>
+  Object.fromEntries(Object.entries(isRecord(value) ? value : {})
+    .filter((entry): entry is [string, Record<string, unknown>] => isRecord(entry[1]))
+    .map(([key, entry]) => [key, parse(entry)]));
+
+/**
+ * A profile from untrusted JSON. Missing or malformed parts are left empty;
+ * returns null if it isn't a profile at all.
+ */
+export function parseProfile(value: unknown): PlayerProfile | null {
+  if (!isRecord(value)) return null;
+
+  const settings = isRecord(value.settings) && isRecord(value.settings.values)
+    ? { values: value.settings.values, updatedAt: toNumber(value.settings.updatedAt) }
+    : null;
+
+  return {
+    version: toNumber(value.version),
+    updatedAt: toNumber(value.updatedAt),
+    levels: mapRecords(value.levels, (level) => ({
+      stars: Math.min(3, Math.max(0, Math.floor(toNumber(level.stars)))),
+      completed: level.completed === true,
+      unlocked: level.unlocked === true,
+      bestScore: toNumber(level.bestScore)
+    })),
+    worlds: mapRecords(value.worlds, (world) => ({
+      unlocked: world.unlocked === true,
+      levelsCompleted: toNumber(world.levelsCompleted),
+      totalStars: toNumber(world.totalStars),
+      bestScore: toNumber(world.bestScore)
+    })),
+    powerUps: Array.isArray(value.powerUps) ? value.powerUps.filter((id): id is string => typeof id === 'string') : [],
+    achievements: mapRecords(value.achievements, (achievement) => ({
+      progress: toNumber(achievement.progress),
+      unlocked: achievement.unlocked === true,
+      unlockedAt: typeof achievement.unlockedAt === 'number' ? achievement.unlockedAt : null
+    })),
+    settings
+  };
+}
+
+const mergeKeyed = <T>(a: Record<string, T>, b: Record<string, T>, merge: (x: T, y: T) => T): Record<string, T> => {
+  const merged = { ...a };
+  for (const [key, value] of Object.entries(b)) {
+    const existing = merged[key];
+    merged[key] = existing === undefined ? value : merge(existing, value);
+  }
+  return merged;
+};
+
+const earliest = (a: number | null, b: number | null): number | null =>
+  a === null ? b : b === null ? a : Math.min(a, b);
+
+/**
+ * Combine two copies of a player's profile. Keeps the higher version, so the
+ * result can be saved on top of whichever copy came from the server.
+ */
+export function mergeProfiles(a: PlayerProfile, b: PlayerProfile): PlayerProfile {
+  const newerSettings = (b.settings?.updatedAt ?? -1) > (a.settings?.updatedAt ?? -1) ? b.settings : a.settings;
+
+  return {
+    version: Math.max(a.version, b.version),
+    updatedAt: Math.max(a.updatedAt, b.updatedAt),
+    levels: mergeKeyed(a.levels, b.levels, (x, y) => ({
+      stars: Math.max(x.stars, y.stars),
+      completed: x.completed || y.completed,
+      unlocked: x.unlocked || y.unlocked,
+      bestScore: Math.max(x.bestScore, y.bestScore)
+    })),
+    worlds: mergeKeyed(a.worlds, b.worlds, (x, y) => ({
+      unlocked: x.unlocked || y.unlocked,
+      levelsCompleted: Math.max(x.levelsCompleted, y.levelsCompleted),
+      totalStars: Math.max(x.totalStars, y.totalStars),
+      bestScore: Math.max(x.bestScore, y.bestScore)
+    })),
+    powerUps: [...new Set([...a.powerUps, ...b.powerUps])].sort(),
+    achievements: mergeKeyed(a.achievements, b.achievements, (x, y) => ({
+      progress: Math.max(x.progress, y.progress),
+      unlocked: x.unlocked || y.unlocked,
+      unlockedAt: earliest(x.unlockedAt, y.unlockedAt)
+    })),
+    settings: newerSettings
+  };
+}
+
+/**
+ * Whether two profiles hold the same progress, ignoring version and timestamps
+ */
+export function isSameProfileData(a: PlayerProfile, b: PlayerProfile): boolean {
+  return canonicalJson({ ...a, version: 0, updatedAt: 0 }) === canonicalJson({ ...b, version: 0, updatedAt: 0 });
+}
+
+// JSON with object keys sorted, so key order doesn't make equal profiles differ
+const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (isRecord(value)) {
+    return `{${Object.keys(value).sort().map((key) => `${JSON.stringify(key)}:${canonicalJson(value[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+};
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { PlayerProfile, createEmptyProfile, isSameProfileData, mergeProfiles, parseProfile } from '../Profile';
+
+const profile = (overrides: Partial<PlayerProfile>): PlayerProfile => ({ ...createEmptyProfile(), ...overrides });
+
+describe('Profile', () => {
+  it('should keep the best stars and score for each level', () => {
+    const phone = profile({ levels: { '1': { stars: 3, completed: true, unlocked: true, bestScore: 1200 } } });
+    const laptop = profile({
+      levels: {
+        '1': { stars: 1, completed: true, unlocked: true, bestScore: 4000 },
+        '2': { stars: 0, completed: false, unlocked: true, bestScore: 0 }
+      }
+    });
+
+    const merged = mergeProfiles(phone, laptop);
+
+    expect(merged.levels['1']).toEqual({ stars: 3, completed: true, unlocked: true, bestScore: 4000 });
+    expect(merged.levels['2']?.unlocked).toBe(true);
+  });
+
+  it('should union unlocks and keep the first unlock time', () => {
+    const phone = profile({
+      powerUps: ['beaver_boost'],
+      achievements: { first_line: { progress: 1, unlocked: true, unlockedAt: 500 } }
+    });
+    const laptop = profile({
+      powerUps: ['log_bomb', 'beaver_boost'],
+      achievements: {
+        first_line: { progress: 1, unlocked: true, unlockedAt: 200 },
+        tetris: { progress: 2, unlocked: false, unlockedAt: null }
+      }
+    });
+
+    const merged = mergeProfiles(phone, laptop);
+
+    expect(merged.powerUps).toEqual(['beaver_boost', 'log_bomb']);
+    expect(merged.achievements.first_line?.unlockedAt).toBe(200);
+    expect(merged.achievements.tetris).toEqual({ progress: 2, unlocked: false, unlockedAt: null });
+  });
+
+  it('should take the most recently changed settings and the newest version', () => {
+    const older = profile({ version: 4, settings: { values: { audio: { muted: true } }, updatedAt: 100 } });
+    const newer = profile({ version: 2, settings: { values: { audio: { muted: false } }, updatedAt: 900 } });
+
+    expect(mergeProfiles(older, newer)).toMatchObject({ version: 4, settings: newer.settings });
+    expect(mergeProfiles(newer, older)).toMatchObject({ version: 4, settings: newer.settings });
+  });
+
+  it('should compare progress regardless of key order, version and timestamps', () => {
+    const a = profile({ version: 1, updatedAt: 10, worlds: { spring_thaw: { unlocked: true, levelsCompleted: 2, totalStars: 5, bestScore: 10 } } });
+    const b = profile({ version: 3, updatedAt: 99, worlds: { spring_thaw: { bestScore: 10, totalStars: 5, levelsCompleted: 2, unlocked: true } } });
+
+    expect(isSameProfileData(a, b)).toBe(true);
+    expect(isSameProfileData(a, mergeProfiles(a, profile({ powerUps: ['log_bomb'] })))).toBe(false);
+  });
+
+  it('should sanitise untrusted profiles', () => {
+    expect(parseProfile('not a profile')).toBeNull();
+    expect(parseProfile({
+      version: 2,
+      levels: { '1': { stars: 7, completed: 'yes', unlocked: true, bestScore: 'lots' }, '2': 'broken' },
+      powerUps: ['log_bomb', 42]
+    })).toEqual({
+      ...createEmptyProfile(),
+      version: 2,
+      levels: { '1': { stars: 3, completed: false, unlocked: true, bestScore: 0 } },
+      powerUps: ['log_bomb']
+    });
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { LeaderboardQuerySchema, MergeIdentityRequestSchema, SubmitScoreRequestSchema } from '../api';
+
+describe('API schemas', () => {
+  it('should coerce query string values', () => {
+    const result = LeaderboardQuerySchema.parse({ scope: 'post', level: '3', aroundMe: 'true', radius: '5' });
+
+    expect(result).toEqual({ ok: true, value: { scope: 'post', level: 3, aroundMe: true, radius: 5 } });
+  });
+
+  it('should report every invalid field with its path', () => {
+    const result = SubmitScoreRequestSchema.parse({ score: '100', level: 1, lines: 2, modeId: 'zen' });
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.issues.map((issue) => issue.path)).toEqual(['score', 'modeId']);
+    }
+  });
+
+  it('should drop unknown fields and leave missing optional ones out', () => {
+    const result = SubmitScoreRequestSchema.parse({ score: 100, level: 1, lines: 2, isAdmin: true });
+
+    expect(result).toEqual({ ok: true, value: { score: 100, level: 1, lines: 2 } });
+    expect(MergeIdentityRequestSchema.parse({ anonymousId: 'short' }).ok).toBe(false);
+  });
+});
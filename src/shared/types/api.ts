@@ -1,19 +1,32 @@
+import { ReplayData } from '../game/Replay';
+import { ReplayVerificationStatus } from '../game/ReplayVerification';
+import { PlayerProfile, parseProfile } from '../profile/Profile';
+import { Schema, boolean, number, object, oneOf, optional, parsed, string } from './schema';
+
+// Everything the game needs at startup, in one round-trip
 export type InitResponse = {
   type: 'init';
   postId: string;
-  count: number;
+  user: RedditUserResponse | null; // Null for logged-out players
+  challenge: DailyChallengeConfig | null; // Set on daily challenge posts
+  profileVersion: number | null; // Version of the player's cloud save, null if they have none
+  features: FeatureFlags;
 };
 
-export type IncrementResponse = {
-  type: 'increment';
-  postId: string;
-  count: number;
+// Features the server can switch off without a client release
+export type FeatureFlags = {
+  cloudSave: boolean;
+  dailyChallenge: boolean;
 };
 
-export type DecrementResponse = {
-  type: 'decrement';
-  postId: string;
-  count: number;
+// Stored in a daily challenge post's postData: everyone on the post plays the same pieces,
+// mode and seasonal level
+export type DailyChallengeConfig = {
+  type: 'dailyChallenge';
+  date: string; // UTC day the challenge is for, e.g. '2026-10-19'
+  seed: number;
+  mode: LeaderboardMode;
+  level: number; // Seasonal level the run is played on
 };
 
 // Leaderboard types
@@ -23,17 +36,100 @@ export type LeaderboardEntry = {
   level: number;
   lines: number;
   timestamp: number; // Date when score was achieved
+  verification?: ReplayVerificationStatus;
+  time?: number; // Completion time in ms, on boards ranked by time
+  stars?: number; // Best star rating, on campaign level boards
+  rank?: number; // 1-based position on the board
+  isCurrentUser?: boolean; // The row belongs to whoever asked for the board
+};
+
+// Which players a leaderboard ranks: this post's, this subreddit's or everyone's
+export type LeaderboardScope = 'post' | 'subreddit' | 'global';
+
+export const LEADERBOARD_SCOPES: LeaderboardScope[] = ['post', 'subreddit', 'global'];
+
+// Time window a leaderboard covers; all but all-time roll over at UTC boundaries
+export type LeaderboardPeriod = 'daily' | 'weekly' | 'monthly' | 'alltime';
+
+export const LEADERBOARD_PERIODS: LeaderboardPeriod[] = ['daily', 'weekly', 'monthly', 'alltime'];
+
+// Game mode a board ranks: the DifficultyManager modes plus campaign and endless runs
+export type LeaderboardMode = 'classic' | 'sprint' | 'marathon' | 'time-attack' | 'challenge' | 'campaign' | 'endless';
+
+export const LEADERBOARD_MODES: LeaderboardMode[] = ['classic', 'sprint', 'marathon', 'time-attack', 'challenge', 'campaign', 'endless'];
+
+// What a board is ranked by: highest score, fastest time or best stars on a campaign level
+export type LeaderboardMetric = 'score' | 'time' | 'stars';
+
+export type LeaderboardQuery = {
+  scope?: LeaderboardScope;
+  period?: LeaderboardPeriod;
+  mode?: LeaderboardMode;
+  level?: number; // Campaign global level, for its best-star board
+  offset?: number; // Places to skip from the top
+  limit?: number; // Entries per page
+  aroundMe?: boolean; // The caller's row with `radius` entries either side instead of a page
+  radius?: number;
+  previous?: boolean; // The archived winners of the period before the current one
 };
 
 export type LeaderboardResponse = {
   type: 'leaderboard';
+  scope: LeaderboardScope;
+  period: LeaderboardPeriod;
+  mode: LeaderboardMode;
+  level: number | null;
+  metric: LeaderboardMetric;
+  periodStart: number; // UTC ms; 0 for all-time
+  periodEnd: number | null; // UTC ms; null for all-time
+  archived: boolean;
+  offset: number; // Rank of the first entry, minus one
+  total: number; // Players on the board
+  playerRank: number | null; // The caller's rank, if they are on the board
   entries: LeaderboardEntry[];
 };
 
 export type SubmitScoreRequest = {
   score: number;
-  level: number;
+  level: number; // Speed level the run ended on; a campaign level is sent as globalLevel
   lines: number;
+  replay?: ReplayData; // Re-simulated by the server to verify the score
+  modeId?: LeaderboardMode; // Defaults to classic
+  time?: number; // Run length in ms; ranks Sprint once its line target is reached
+  globalLevel?: number; // Campaign level that was completed
+  stars?: number; // Star rating earned on that level
+  anonymousId?: string; // Stable per-device id for anonymous submissions
+  submissionId?: string; // Idempotency key: a retried submission is only recorded once
+  playedAt?: number; // UTC ms when the run ended; a queued score is filed under the periods it was played in
+};
+
+// Move an anonymous player's leaderboard history into the logged-in Reddit account
+export type MergeIdentityRequest = {
+  anonymousId: string;
+};
+
+export type MergeIdentityResponse = {
+  type: 'mergeIdentity';
+  success: boolean;
+  improved: number; // Boards where the anonymous result beat the account's
+};
+
+// Cloud save: the signed-in player's profile, or null if they haven't saved one yet
+export type ProfileResponse = {
+  type: 'profile';
+  profile: PlayerProfile | null;
+};
+
+// Saved only if the server still has `baseVersion` (0 for a first save)
+export type SaveProfileRequest = {
+  profile: PlayerProfile;
+  baseVersion: number;
+};
+
+// A save based on an outdated version fails with a `conflict` error carrying the stored profile instead
+export type SaveProfileResponse = {
+  type: 'saveProfile';
+  profile: PlayerProfile; // As stored, with its new version
 };
 
 export type RedditUserResponse = {
@@ -43,9 +139,124 @@ export type RedditUserResponse = {
   currentRank?: number;
 };
 
+export type ApiErrorCode =
+  | 'invalid_request' // Malformed fields
+  | 'unauthorized' // The route needs a logged-in Reddit user
+  | 'not_found'
+  | 'conflict' // Based on data that has changed since
+  | 'payload_too_large'
+  | 'implausible_score' // Totals the game rules can't produce
+  | 'replay_rejected' // The replay is invalid or doesn't reproduce the totals
+  | 'rate_limited'
+  | 'banned'
+  | 'server_error'
+  | 'network_error'; // Set by the client when the request never got an answer
+
+export type ApiError = {
+  code: ApiErrorCode;
+  message: string; // Safe to show to the player
+  fields?: string[]; // Request fields that failed validation
+  details?: string[];
+  retryAfterMs?: number; // When a rate-limited player may try again
+  profile?: PlayerProfile | null; // The stored profile, when a profile save conflicts with it
+};
+
+// What every /api route answers with when a request fails
+export type ApiErrorResponse = {
+  type: 'error';
+  error: ApiError;
+};
+
 export type SubmitScoreResponse = {
   type: 'submitScore';
   success: boolean;
   rank?: number; // Player's rank if they made it to top 10
+  ranks?: Partial<Record<LeaderboardScope, number>>; // Rank on every board the score was recorded to
   message?: string;
+  verification?: ReplayVerificationStatus;
+  error?: ApiError; // Why the submission was rejected
+  queued?: boolean; // Set by the client: it couldn't be sent and waits in the offline outbox
+};
+
+export const isApiErrorResponse = (value: unknown): value is ApiErrorResponse =>
+  typeof value === 'object' && value !== null && (value as ApiErrorResponse).type === 'error' &&
+  typeof (value as ApiErrorResponse).error?.code === 'string' && typeof (value as ApiErrorResponse).error.message === 'string';
+
+// Client-generated ids (anonymous ids, submission ids): random, URL-safe and not too long
+export const CLIENT_ID_PATTERN = /^[A-Za-z0-9_-]{16,64}$/;
+
+export const LEADERBOARD_MAX_PAGE_SIZE = 50;
+export const LEADERBOARD_MAX_AROUND_RADIUS = 25;
+
+// Request schemas. Query parameters arrive as strings, so their numbers and flags are coerced
+
+export const LeaderboardQuerySchema: Schema<LeaderboardQuery> = object<LeaderboardQuery>({
+  scope: optional(oneOf(LEADERBOARD_SCOPES)),
+  period: optional(oneOf(LEADERBOARD_PERIODS)),
+  mode: optional(oneOf(LEADERBOARD_MODES)),
+  level: optional(number({ integer: true, min: 1, coerce: true })),
+  offset: optional(number({ integer: true, min: 0, coerce: true })),
+  limit: optional(number({ integer: true, min: 1, max: LEADERBOARD_MAX_PAGE_SIZE, coerce: true })),
+  aroundMe: optional(boolean({ coerce: true })),
+  radius: optional(number({ integer: true, min: 0, max: LEADERBOARD_MAX_AROUND_RADIUS, coerce: true })),
+  previous: optional(boolean({ coerce: true }))
+});
+
+// Totals are only type-checked here; whether the game rules allow them is up to the server
+export const SubmitScoreRequestSchema: Schema<SubmitScoreRequest> = object<SubmitScoreRequest>({
+  score: number(),
+  level: number(),
+  lines: number(),
+  // Verified by re-simulating it, which reports exactly what is wrong with it
+  replay: optional(parsed((value) => (typeof value === 'object' && value !== null ? value as ReplayData : null), 'a replay')),
+  modeId: optional(oneOf(LEADERBOARD_MODES)),
+  time: optional(number({ min: 0 })),
+  globalLevel: optional(number()),
+  stars: optional(number()),
+  anonymousId: optional(string({ maxLength: 64 })),
+  submissionId: optional(string({ pattern: CLIENT_ID_PATTERN })),
+  playedAt: optional(number({ integer: true, min: 0 }))
+});
+
+export const MergeIdentityRequestSchema: Schema<MergeIdentityRequest> = object<MergeIdentityRequest>({
+  anonymousId: string({ pattern: CLIENT_ID_PATTERN })
+});
+
+export const SaveProfileRequestSchema: Schema<SaveProfileRequest> = object<SaveProfileRequest>({
+  profile: parsed(parseProfile, 'a profile'),
+  baseVersion: number({ integer: true, min: 0 })
+});
+
+/**
+ * Every route the client calls, with what it takes and returns. The client's
+ * methods are generated from this table and the server validates requests
+ * against the same schemas.
+ */
+export type ApiEndpoints = {
+  init: { request: undefined; response: InitResponse };
+  redditUser: { request: undefined; response: RedditUserResponse };
+  leaderboard: { request: LeaderboardQuery; response: LeaderboardResponse };
+  submitScore: { request: SubmitScoreRequest; response: SubmitScoreResponse };
+  submitAnonymous: { request: SubmitScoreRequest; response: SubmitScoreResponse };
+  mergeIdentity: { request: MergeIdentityRequest; response: MergeIdentityResponse };
+  getProfile: { request: undefined; response: ProfileResponse };
+  saveProfile: { request: SaveProfileRequest; response: SaveProfileResponse };
+};
+
+export type EndpointDefinition<Request> = {
+  method: 'GET' | 'POST' | 'PUT';
+  path: string;
+  // Sent as the query string for GETs and as a JSON body otherwise
+  request: [Request] extends [undefined] ? null : Schema<Request>;
+};
+
+export const API_ENDPOINTS: { [K in keyof ApiEndpoints]: EndpointDefinition<ApiEndpoints[K]['request']> } = {
+  init: { method: 'GET', path: '/api/init', request: null },
+  redditUser: { method: 'GET', path: '/api/reddit-user', request: null },
+  leaderboard: { method: 'GET', path: '/api/leaderboard', request: LeaderboardQuerySchema },
+  submitScore: { method: 'POST', path: '/api/submit-score', request: SubmitScoreRequestSchema },
+  submitAnonymous: { method: 'POST', path: '/api/submit-anonymous', request: SubmitScoreRequestSchema },
+  mergeIdentity: { method: 'POST', path: '/api/identity/merge', request: MergeIdentityRequestSchema },
+  getProfile: { method: 'GET', path: '/api/profile', request: null },
+  saveProfile: { method: 'PUT', path: '/api/profile', request: SaveProfileRequestSchema }
 };
@@ -0,0 +1,108 @@
+/**
+ * Runtime validators for the API's requests. A schema checks untrusted JSON
+ * (or query string values) against one of the types in api.ts and returns a
+ * typed copy, or every problem it found with where it was.
+ */
+
+export type SchemaIssue = {
+  path: string; // Dotted path to the bad value, e.g. 'profile.levels'
+  message: string;
+};
+
+export type SchemaResult<T> = { ok: true; value: T } | { ok: false; issues: SchemaIssue[] };
+
+export type Schema<T> = {
+  parse(value: unknown, path?: string): SchemaResult<T>;
+};
+
+const pass = <T>(value: T): SchemaResult<T> => ({ ok: true, value });
+
+const fail = <T>(path: string, message: string): SchemaResult<T> => ({ ok: false, issues: [{ path, message }] });
+
+const describe = (path: string): string => path || 'value';
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+type NumberOptions = {
+  integer?: boolean;
+  min?: number;
+  max?: number;
+  /** Accept numeric strings, for query parameters */
+  coerce?: boolean;
+};
+
+export const number = ({ integer = false, min, max, coerce = false }: NumberOptions = {}): Schema<number> => ({
+  parse(value, path = '') {
+    const parsed = coerce && typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+    if (typeof parsed !== 'number' || !Number.isFinite(parsed)) return fail(path, `${describe(path)} must be a number`);
+    if (integer && !Number.isInteger(parsed)) return fail(path, `${describe(path)} must be a whole number`);
+    if (min !== undefined && parsed < min) return fail(path, `${describe(path)} must be at least ${min}`);
+    if (max !== undefined && parsed > max) return fail(path, `${describe(path)} must be at most ${max}`);
+    return pass(parsed);
+  }
+});
+
+export const string = ({ pattern, maxLength }: { pattern?: RegExp; maxLength?: number } = {}): Schema<string> => ({
+  parse(value, path = '') {
+    if (typeof value !== 'string') return fail(path, `${describe(path)} must be a string`);
+    if (maxLength !== undefined && value.length > maxLength) return fail(path, `${describe(path)} must be at most ${maxLength} characters`);
+    if (pattern && !pattern.test(value)) return fail(path, `${describe(path)} is not in the expected format`);
+    return pass(value);
+  }
+});
+
+/** `coerce` also accepts 'true' and 'false', for query parameters */
+export const boolean = ({ coerce = false }: { coerce?: boolean } = {}): Schema<boolean> => ({
+  parse(value, path = '') {
+    const parsed = coerce && (value === 'true' || value === 'false') ? value === 'true' : value;
+    return typeof parsed === 'boolean' ? pass(parsed) : fail(path, `${describe(path)} must be true or false`);
+  }
+});
+
+export const oneOf = <T extends string>(values: readonly T[]): Schema<T> => ({
+  parse(value, path = '') {
+    const match = values.find((candidate) => candidate === value);
+    return match !== undefined ? pass(match) : fail(path, `${describe(path)} must be one of ${values.join(', ')}`);
+  }
+});
+
+export const optional = <T>(schema: Schema<T>): Schema<T | undefined> => ({
+  parse: (value, path = '') => (value === undefined ? pass(undefined) : schema.parse(value, path))
+});
+
+/**
+ * A value checked by an existing parser, which returns null for anything it
+ * doesn't accept
+ */
+export const parsed = <T>(parse: (value: unknown) => T | null, expected: string): Schema<T> => ({
+  parse(value, path = '') {
+    const result = parse(value);
+    return result !== null ? pass(result) : fail(path, `${describe(path)} must be ${expected}`);
+  }
+});
+
+type Shape<T> = { [K in keyof T]-?: Schema<T[K]> };
+
+/**
+ * An object with exactly the given fields; unknown fields are dropped and
+ * optional ones left out when missing
+ */
+export const object = <T>(shape: Shape<T>): Schema<T> => ({
+  parse(value, path = '') {
+    if (!isPlainObject(value)) return fail(path, `${describe(path)} must be an object`);
+
+    const result: Record<string, unknown> = {};
+    const issues: SchemaIssue[] = [];
+    for (const key of Object.keys(shape) as (keyof T & string)[]) {
+      const field = shape[key].parse(value[key], path ? `${path}.${key}` : key);
+      if (!field.ok) {
+        issues.push(...field.issues);
+      } else if (field.value !== undefined) {
+        result[key] = field.value;
+      }
+    }
+
+    return issues.length > 0 ? { ok: false, issues } : pass(result as T);
+  }
+});